@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { validateAlertRuleInput } from '@/lib/alerts';
+import { AlertRuleInput } from '@/types/alerts';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `No alert rule with id ${id}` }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const rule = websocketManager.alerts.getRule(id);
+  return rule ? NextResponse.json({ rule }) : notFound(id);
+}
+
+// Partial update: fields left out keep their current values
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const problems = validateAlertRuleInput(body, false);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid alert rule', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rule = await websocketManager.alerts.updateRule(id, body as AlertRuleInput);
+    return rule ? NextResponse.json({ rule }) : notFound(id);
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to save alert rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const deleted = await websocketManager.alerts.deleteRule(id);
+    return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete alert rule' },
+      { status: 500 }
+    );
+  }
+}
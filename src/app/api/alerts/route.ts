@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { alertFields, validateAlertRuleInput } from '@/lib/alerts';
+import { AlertRuleInput } from '@/types/alerts';
+
+// Rules, the fields they can watch and the most recent alerts
+export async function GET() {
+  const { alerts } = websocketManager;
+  return NextResponse.json({
+    rules: alerts.listRules(),
+    fields: alertFields(),
+    triggered: alerts.recentTriggers(),
+  });
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const problems = validateAlertRuleInput(body);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid alert rule', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rule = await websocketManager.alerts.createRule(body as AlertRuleInput);
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to save alert rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { parseForwardReturnQuery } from '@/lib/forwardReturns';
+
+// Hit rates and median/mean returns 1h, 4h, 1d and 7d after each signal transition.
+// Query: groupBy (signal, timeframe, market, volume; default signal,timeframe),
+// market, kind (signal | rsi_zone), since/until, and refresh=1 to rerun the job first.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const { query, problems } = parseForwardReturnQuery(searchParams);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid forward-return query', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const refresh = searchParams.get('refresh') === '1';
+    return NextResponse.json(websocketManager.getForwardReturnReport(query, refresh));
+  } catch (error) {
+    console.error('Error building forward-return report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build forward-return report' },
+      { status: 500 }
+    );
+  }
+}
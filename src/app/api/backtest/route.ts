@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { parseBacktestRequest } from '@/lib/backtest';
+
+// Replay the signal policy or a custom entry/exit rule over stored candles, or over
+// candles sent in the body ({ candles: { BTCUSDT: [...] } }). Nothing is fetched from the exchange.
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const { request: backtest, problems } = parseBacktestRequest(body);
+  if (!backtest) {
+    return NextResponse.json(
+      { error: 'Invalid backtest', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = websocketManager.runBacktest(backtest);
+    if (report.results.length === 0) {
+      return NextResponse.json(
+        { error: `No ${backtest.interval} candles stored for ${report.missing.join(', ')} on ${backtest.market}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error running backtest:', error);
+    return NextResponse.json(
+      { error: 'Failed to run backtest' },
+      { status: 500 }
+    );
+  }
+}
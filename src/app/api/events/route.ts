@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { parseTransitionQuery } from '@/lib/eventLog';
+
+// Signal transitions, newest first. Filters: market, symbol, kind (signal | rsi_zone),
+// timeframe, to (new signal), since/until; pages with limit and the returned nextCursor.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const { query, problems } = parseTransitionQuery(searchParams);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid event query', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const page = websocketManager.transitionLog.query(query);
+    if (!page) {
+      return NextResponse.json(
+        { error: `Cursor ${query.cursor} is no longer in the event log; start again without a cursor` },
+        { status: 410 }
+      );
+    }
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error querying signal transitions:', error);
+    return NextResponse.json(
+      { error: 'Failed to query signal transitions' },
+      { status: 500 }
+    );
+  }
+}
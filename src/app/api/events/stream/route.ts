@@ -0,0 +1,58 @@
+import { websocketManager } from '@/lib/websocket';
+import { SignalTransition } from '@/types/trading';
+
+export const dynamic = 'force-dynamic';
+
+const KEEP_ALIVE_MS = 15000;
+
+// Server-Sent Events: every new signal transition as it is recorded. Clients load
+// the backlog from /api/events and reload it after reconnecting.
+export async function GET(request: Request) {
+  // Starts the exchange streams on first use, like the REST routes
+  websocketManager.initialize();
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup(); // The client went away between events
+        }
+      };
+
+      const stopListening = websocketManager.transitionLog.listen((event: SignalTransition) => {
+        write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      cleanup = () => {
+        stopListening();
+        clearInterval(keepAlive);
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
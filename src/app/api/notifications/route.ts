@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+
+// Configured webhook targets (secrets and URL paths hidden) and recent failed deliveries
+export async function GET() {
+  try {
+    const { notifications } = websocketManager;
+    return NextResponse.json({
+      targets: notifications.listTargets(),
+      deadLetters: await notifications.recentDeadLetters(),
+    });
+  } catch (error) {
+    console.error('Error reading notification status:', error);
+    return NextResponse.json(
+      { error: 'Failed to read notification status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { testEvent } from '@/lib/notifications';
+
+// Send a test event to one target ({"targetId": "..."}) or to every enabled target,
+// with a single attempt each, and report how each delivery went. Test sends skip the
+// target's queue so retries of a failing endpoint don't hold up the answer.
+export async function POST(request: Request) {
+  let body: unknown = {};
+  try {
+    const text = await request.text();
+    if (text) body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+  const { targetId } = body as { targetId?: unknown };
+
+  const { notifications } = websocketManager;
+  let targets;
+  if (targetId !== undefined) {
+    const target = typeof targetId === 'string' ? notifications.getTarget(targetId) : null;
+    if (!target) {
+      return NextResponse.json({ error: `No webhook target with id ${targetId}` }, { status: 404 });
+    }
+    targets = [target];
+  } else {
+    targets = notifications.enabledTargets();
+  }
+
+  if (targets.length === 0) {
+    return NextResponse.json({ error: 'No webhook targets configured' }, { status: 404 });
+  }
+
+  try {
+    const event = testEvent();
+    const results = await Promise.all(
+      targets.map(target => notifications.deliver({ ...target, maxAttempts: 1 }, event))
+    );
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error sending test notification:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test notification' },
+      { status: 500 }
+    );
+  }
+}
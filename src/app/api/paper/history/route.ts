@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+// Trade log (newest first, ?limit= up to 1000) and the equity curve, from ?since=
+// (epoch ms or an ISO date) when given, else the whole 30-day retention window
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be a whole number from 1 to ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
+
+  const sinceParam = searchParams.get('since');
+  const since = sinceParam ? (/^\d+$/.test(sinceParam) ? Number(sinceParam) : Date.parse(sinceParam)) : undefined;
+  if (since !== undefined && !Number.isFinite(since)) {
+    return NextResponse.json(
+      { error: 'since must be epoch milliseconds or an ISO date' },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(websocketManager.paper.history(limit, since));
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Close the position at the current price; responds with the closing trade
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const result = await websocketManager.closePaperPosition(id);
+    if (!result) {
+      return NextResponse.json({ error: `No open paper position with id ${id}` }, { status: 404 });
+    }
+    if (!result.trade) {
+      return NextResponse.json(
+        { error: 'Paper position not closed', details: result.problems },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ trade: result.trade });
+  } catch (error) {
+    console.error('Error closing paper position:', error);
+    return NextResponse.json(
+      { error: 'Failed to close paper position' },
+      { status: 500 }
+    );
+  }
+}
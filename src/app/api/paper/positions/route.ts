@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { validatePaperOrder } from '@/lib/paper';
+import { PaperOrderInput } from '@/types/paper';
+
+// Open a position at the pair's current price: { market, symbol, side, margin, leverage? }
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const problems = validatePaperOrder(body);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid paper order', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await websocketManager.openPaperPosition(body as PaperOrderInput);
+    if (!result.trade) {
+      return NextResponse.json(
+        { error: 'Paper order rejected', details: result.problems },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ trade: result.trade }, { status: 201 });
+  } catch (error) {
+    console.error('Error opening paper position:', error);
+    return NextResponse.json(
+      { error: 'Failed to open paper position' },
+      { status: 500 }
+    );
+  }
+}
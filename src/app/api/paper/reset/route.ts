@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+
+// Close out everything without fills and start over: { initialBalance? } (default: the current one)
+export async function POST(request: Request) {
+  let body: { initialBalance?: unknown } = {};
+  try {
+    const text = await request.text();
+    if (text.trim()) body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const { initialBalance } = body ?? {};
+  if (initialBalance !== undefined && (typeof initialBalance !== 'number' || !Number.isFinite(initialBalance) || initialBalance <= 0)) {
+    return NextResponse.json(
+      { error: 'Invalid reset', details: ['initialBalance must be a number > 0'] },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await websocketManager.paper.reset(initialBalance as number | undefined);
+    return NextResponse.json(websocketManager.getPaperPortfolio());
+  } catch (error) {
+    console.error('Error resetting paper portfolio:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset paper portfolio' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+
+// Account, open positions marked to market and the trading rules
+export async function GET() {
+  try {
+    return NextResponse.json(websocketManager.getPaperPortfolio());
+  } catch (error) {
+    console.error('Error reading paper portfolio:', error);
+    return NextResponse.json(
+      { error: 'Failed to read paper portfolio' },
+      { status: 500 }
+    );
+  }
+}
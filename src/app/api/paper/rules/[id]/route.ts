@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { validatePaperRuleInput } from '@/lib/paper';
+import { PaperRuleInput } from '@/types/paper';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `No paper rule with id ${id}` }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const rule = websocketManager.paper.getRule(id);
+  return rule ? NextResponse.json({ rule }) : notFound(id);
+}
+
+// Partial update: fields left out keep their current values
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const existing = websocketManager.paper.getRule(id);
+  if (!existing) return notFound(id);
+
+  const problems = validatePaperRuleInput(body, existing);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid paper rule', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rule = await websocketManager.paper.updateRule(id, body as PaperRuleInput);
+    return rule ? NextResponse.json({ rule }) : notFound(id);
+  } catch (error) {
+    console.error('Error updating paper rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to save paper rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const deleted = await websocketManager.paper.deleteRule(id);
+    return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    console.error('Error deleting paper rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete paper rule' },
+      { status: 500 }
+    );
+  }
+}
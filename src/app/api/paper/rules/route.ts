@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { validatePaperRuleInput } from '@/lib/paper';
+import { PaperRuleInput } from '@/types/paper';
+
+export async function GET() {
+  return NextResponse.json({ rules: websocketManager.paper.listRules() });
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const problems = validatePaperRuleInput(body);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid paper rule', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rule = await websocketManager.paper.createRule(body as PaperRuleInput);
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating paper rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to save paper rule' },
+      { status: 500 }
+    );
+  }
+}
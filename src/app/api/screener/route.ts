@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { parseScreenerQuery, runScreener } from '@/lib/screener';
+
+// Tracked spot and futures pairs matching a filter expression, e.g.
+// ?filter=market=futures AND rsi4h<30 AND volume24h>50e6&sort=change24h&order=asc&limit=20
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const { query, problems } = parseScreenerQuery(searchParams);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid screener query', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [spotPairs, futuresPairs] = await Promise.all([
+      websocketManager.getSpotData(),
+      websocketManager.getFuturesData(),
+    ]);
+    return NextResponse.json(runScreener([...spotPairs, ...futuresPairs], query));
+  } catch (error) {
+    console.error('Error running screener:', error);
+    return NextResponse.json(
+      { error: 'Failed to run screener' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { validateRSISettings } from '@/lib/settings';
+import { RSISettings } from '@/types/settings';
+
+export async function GET() {
+  return NextResponse.json({ rsi: websocketManager.getRSISettings() });
+}
+
+export async function PUT(request: Request) {
+  let body: { rsi?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const problems = validateRSISettings(body?.rsi);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid RSI settings', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rsi = await websocketManager.updateRSISettings(body.rsi as RSISettings);
+    return NextResponse.json({ rsi });
+  } catch (error) {
+    console.error('Error updating RSI settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update RSI settings' },
+      { status: 500 }
+    );
+  }
+}
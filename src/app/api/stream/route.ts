@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { StreamEvent, marketStream } from '@/lib/marketStream';
+
+export const dynamic = 'force-dynamic';
+
+const KEEP_ALIVE_MS = 15000;
+const RETRY_MS = 3000;
+
+// Server-Sent Events: a snapshot of the market's pairs, then a delta per change.
+// Reconnecting clients send Last-Event-ID (or ?lastEventId=) and get only the
+// events they missed when the server still has them, otherwise a new snapshot.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const market = searchParams.get('market');
+  if (market !== 'spot' && market !== 'futures') {
+    return NextResponse.json({ error: "market must be 'spot' or 'futures'" }, { status: 400 });
+  }
+
+  try {
+    // Connects the exchange streams on first use and fills in missing RSI, like the REST routes
+    await (market === 'spot' ? websocketManager.getSpotData() : websocketManager.getFuturesData());
+  } catch (error) {
+    console.error(`Error preparing ${market} stream:`, error);
+    return NextResponse.json({ error: `Failed to start ${market} stream` }, { status: 500 });
+  }
+
+  const lastEventId = request.headers.get('last-event-id') ?? searchParams.get('lastEventId');
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup(); // The client went away between events
+        }
+      };
+      const send = (event: StreamEvent) => write(`id: ${event.id}\ndata: ${JSON.stringify(event.message)}\n\n`);
+
+      write(`retry: ${RETRY_MS}\n\n`);
+      const missed = lastEventId ? marketStream.replay(market, lastEventId) : null;
+      for (const event of missed ?? [marketStream.snapshot(market)]) send(event);
+
+      const stopListening = marketStream.listen(market, send);
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      cleanup = () => {
+        stopListening();
+        clearInterval(keepAlive);
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
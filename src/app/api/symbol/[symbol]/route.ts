@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { INDICATOR_TIMEFRAME, RSI_TIMEFRAMES } from '@/lib/timeframes';
+
+interface RouteContext {
+  params: Promise<{ symbol: string }>;
+}
+
+// One pair's stored candles, RSI series, indicators and 24h stats.
+// Query: market (spot | futures, default spot), interval (a configured RSI
+// timeframe, default the indicator timeframe), limit (newest candles to return).
+export async function GET(request: Request, { params }: RouteContext) {
+  const symbol = (await params).symbol.toUpperCase();
+  const { searchParams } = new URL(request.url);
+  const market = searchParams.get('market') ?? 'spot';
+  const interval = searchParams.get('interval') ?? INDICATOR_TIMEFRAME;
+  const rawLimit = searchParams.get('limit');
+  const limit = rawLimit === null ? undefined : Number(rawLimit);
+
+  const problems: string[] = [];
+  if (market !== 'spot' && market !== 'futures') problems.push("market must be 'spot' or 'futures'");
+  if (!RSI_TIMEFRAMES.includes(interval)) problems.push(`interval must be one of ${RSI_TIMEFRAMES.join(', ')}`);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) problems.push('limit must be a whole number ≥ 1');
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid symbol query', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const detail = await websocketManager.getSymbolDetail(market as 'spot' | 'futures', symbol, interval, limit);
+    if (!detail) {
+      return NextResponse.json(
+        { error: `${symbol} is not tracked on ${market}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error(`Error fetching ${market} ${symbol} detail:`, error);
+    return NextResponse.json(
+      { error: `Failed to fetch ${symbol} detail` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { CONTENT_TYPES, FILE_EXTENSIONS, WATCHLIST_FORMATS, formatWatchlist } from '@/lib/watchlistFormats';
+import { WatchlistFormat } from '@/types/watchlists';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Download as ?format= tradingview (default) | csv | json
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+
+  const format = (searchParams.get('format') ?? 'tradingview') as WatchlistFormat;
+  if (!WATCHLIST_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `format must be one of ${WATCHLIST_FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const watchlist = websocketManager.watchlists.get(id);
+  if (!watchlist) {
+    return NextResponse.json({ error: `No watchlist with id ${id}` }, { status: 404 });
+  }
+
+  const filename = `${watchlist.name.replace(/[^\w-]+/g, '_') || 'watchlist'}.${FILE_EXTENSIONS[format]}`;
+  return new Response(formatWatchlist(watchlist, format, websocketManager.getTradingViewPrefix()), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+}
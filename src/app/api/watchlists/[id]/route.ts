@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { validateWatchlistInput } from '@/lib/watchlists';
+import { WatchlistInput } from '@/types/watchlists';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `No watchlist with id ${id}` }, { status: 404 });
+}
+
+// The watchlist with the live rows of its symbols
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const view = await websocketManager.getWatchlistView(id);
+    return view ? NextResponse.json(view) : notFound(id);
+  } catch (error) {
+    console.error('Error loading watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to load watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+// Partial update: a new name, and/or entries replacing the current ones
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const problems = validateWatchlistInput(body, false);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid watchlist', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const watchlist = await websocketManager.watchlists.update(id, body as WatchlistInput);
+    return watchlist ? NextResponse.json({ watchlist }) : notFound(id);
+  } catch (error) {
+    console.error('Error updating watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to save watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const deleted = await websocketManager.watchlists.delete(id);
+    return deleted ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    console.error('Error deleting watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete watchlist' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { normalizeEntries, resolveWatchlistEntries, validateWatchlistInput } from '@/lib/watchlists';
+import { WATCHLIST_FORMATS, detectWatchlistFormat, parseWatchlistFile } from '@/lib/watchlistFormats';
+import { WatchlistFormat, WatchlistImportReport } from '@/types/watchlists';
+
+// The file is the raw request body. ?format= tradingview | csv | json (detected when
+// left out); ?watchlist=<id> adds to an existing list, otherwise a new one is created
+// named ?name= or the name inside a JSON export. Symbols the exchange doesn't list or
+// no longer trades are left out and reported under `skipped`.
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const text = await request.text();
+  if (!text.trim()) {
+    return NextResponse.json({ error: 'Request body must be the watchlist file' }, { status: 400 });
+  }
+
+  const format = (searchParams.get('format') ?? detectWatchlistFormat(text)) as WatchlistFormat;
+  if (!WATCHLIST_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `format must be one of ${WATCHLIST_FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const targetId = searchParams.get('watchlist');
+  const target = targetId ? websocketManager.watchlists.get(targetId) : null;
+  if (targetId && !target) {
+    return NextResponse.json({ error: `No watchlist with id ${targetId}` }, { status: 404 });
+  }
+
+  const parsed = parseWatchlistFile(text, format, websocketManager.getTradingViewPrefix());
+  let resolved;
+  try {
+    resolved = await resolveWatchlistEntries(parsed.entries, websocketManager.symbolDirectory);
+  } catch (error) {
+    console.error('Error fetching exchange symbols:', error);
+    return NextResponse.json(
+      { error: 'Could not load the exchange symbol list to check the import' },
+      { status: 502 }
+    );
+  }
+
+  const skipped = [...parsed.skipped, ...resolved.skipped];
+  if (resolved.entries.length === 0) {
+    return NextResponse.json(
+      { error: 'No importable symbols in the file', details: skipped.map(entry => `${entry.text}: ${entry.reason}`) },
+      { status: 400 }
+    );
+  }
+
+  // Deduped before validation, so symbols the list already holds don't count twice toward its cap
+  const input = {
+    name: target?.name ?? searchParams.get('name') ?? parsed.name ?? 'Imported watchlist',
+    entries: normalizeEntries([...(target?.entries ?? []), ...resolved.entries]),
+  };
+  const problems = validateWatchlistInput(input);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid watchlist', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const watchlist = target
+      ? await websocketManager.watchlists.update(target.id, input)
+      : await websocketManager.watchlists.create(input);
+    if (!watchlist) {
+      return NextResponse.json({ error: `No watchlist with id ${targetId}` }, { status: 404 });
+    }
+
+    const report: WatchlistImportReport = {
+      watchlist,
+      imported: watchlist.entries.length - (target?.entries.length ?? 0),
+      skipped,
+    };
+    return NextResponse.json(report, { status: target ? 200 : 201 });
+  } catch (error) {
+    console.error('Error importing watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to save watchlist' },
+      { status: 500 }
+    );
+  }
+}
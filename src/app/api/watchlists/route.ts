@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { websocketManager } from '@/lib/websocket';
+import { validateWatchlistInput } from '@/lib/watchlists';
+import { WatchlistInput } from '@/types/watchlists';
+
+export async function GET() {
+  return NextResponse.json({ watchlists: websocketManager.watchlists.list() });
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const problems = validateWatchlistInput(body);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid watchlist', details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const watchlist = await websocketManager.watchlists.create(body as WatchlistInput);
+    return NextResponse.json({ watchlist }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to save watchlist' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { BacktestForm } from '@/components/BacktestForm';
+import { BacktestResults } from '@/components/BacktestResults';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { useBacktest } from '@/hooks/useBacktest';
+
+export default function BacktestPage() {
+  const { report, problems, loading, run } = useBacktest();
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-[1400px]">
+      <div className="mb-8 flex justify-between items-start">
+        <div>
+          <h1 className="text-4xl font-bold mb-2">
+            🧪 Backtester
+          </h1>
+          <p className="text-muted-foreground">
+            Replay the RSI signal policy or your own entry/exit rule over stored or imported candles
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-3 w-3 mr-1" />
+              Dashboard
+            </Link>
+          </Button>
+          <ThemeToggle />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <BacktestForm loading={loading} onRun={run} />
+        {problems.map((problem) => (
+          <p key={problem} className="text-sm text-destructive">{problem}</p>
+        ))}
+        {/* Keyed so the selected symbol resets with each run */}
+        {report && <BacktestResults key={JSON.stringify(report.request)} report={report} />}
+      </div>
+    </main>
+  );
+}
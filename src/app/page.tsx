@@ -1,10 +1,21 @@
 'use client';
 
+import Link from 'next/link';
+import { FlaskConical } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { AdvancedTradingTable } from '@/components/AdvancedTradingTable';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { NetworkStatus } from '@/components/NetworkStatus';
+import { RSISettingsPanel } from '@/components/RSISettingsPanel';
+import { TransitionFeed } from '@/components/TransitionFeed';
+import { ForwardReturnsReport } from '@/components/ForwardReturnsReport';
+import { WatchlistTable } from '@/components/WatchlistTable';
+import { PaperPortfolio } from '@/components/PaperPortfolio';
+import { useRSISettings } from '@/hooks/useRSISettings';
 
 export default function Home() {
+  const { settings: rsiSettings, saveSettings } = useRSISettings();
+
   return (
     <main className="container mx-auto px-4 py-8 max-w-[1800px]">
       <div className="mb-8">
@@ -18,10 +29,17 @@ export default function Home() {
             </p>
           </div>
           <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/backtest">
+                <FlaskConical className="h-3 w-3 mr-1" />
+                Backtest
+              </Link>
+            </Button>
             <NetworkStatus />
             <ThemeToggle />
           </div>
         </div>
+        <RSISettingsPanel settings={rsiSettings} onSave={saveSettings} />
       </div>
 
       {/* Side by Side Tables - Compact Layout */}
@@ -31,8 +49,8 @@ export default function Home() {
           <h2 className="text-xl font-bold">📈 Spot Market</h2>
           <AdvancedTradingTable 
             title="Top Spot Trading Pairs"
-            apiEndpoint="/api/spot"
             market="spot"
+            rsiSettings={rsiSettings}
           />
         </div>
 
@@ -41,11 +59,26 @@ export default function Home() {
           <h2 className="text-xl font-bold">🚀 Futures Market</h2>
           <AdvancedTradingTable 
             title="Top Futures Trading Pairs"
-            apiEndpoint="/api/futures"
             market="futures"
+            rsiSettings={rsiSettings}
           />
         </div>
       </div>
+
+      <div className="mt-4 space-y-2">
+        <h2 className="text-xl font-bold">⭐ Watchlists</h2>
+        <WatchlistTable rsiSettings={rsiSettings} />
+      </div>
+
+      <div className="mt-4 space-y-2">
+        <h2 className="text-xl font-bold">💼 Paper Trading</h2>
+        <PaperPortfolio />
+      </div>
+
+      <div className="mt-4 space-y-4">
+        <TransitionFeed />
+        <ForwardReturnsReport />
+      </div>
     </main>
   );
 }
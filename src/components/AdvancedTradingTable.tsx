@@ -1,121 +1,52 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useCallback, useState, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { TradingPair } from '@/types/trading';
+import { RSISettings } from '@/types/settings';
 import { DataTable } from './DataTable';
-import { columns } from './columns';
+import { SymbolDrawer } from './SymbolDrawer';
+import { createColumns, defaultColumnVisibility, rangeFilterColumns } from './columns';
 import { RefreshCw, Download } from 'lucide-react';
+import { RSI_TIMEFRAMES } from '@/lib/timeframes';
+import { matchesScreener } from '@/lib/screener';
+import { useMarketStream } from '@/hooks/useMarketStream';
 
 interface AdvancedTradingTableProps {
   title: string;
-  apiEndpoint: string;
   market: 'spot' | 'futures';
+  rsiSettings: RSISettings;
 }
 
-export function AdvancedTradingTable({ title, apiEndpoint, market }: AdvancedTradingTableProps) {
-  const [pairs, setPairs] = useState<TradingPair[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
+export function AdvancedTradingTable({ title, market, rsiSettings }: AdvancedTradingTableProps) {
   const [autoRefresh, setAutoRefresh] = useState(true);
-  const pairsRef = useRef<TradingPair[]>([]);
-
-  const fetchData = useCallback(async () => {
-    try {
-      if (loading) setLoading(true);
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-      
-      const response = await fetch(`${apiEndpoint}?limit=50`, {
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        if (response.status === 500) {
-          throw new Error('Binance API connection issues detected. RSI data may be incomplete.');
-        } else if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please wait a moment before refreshing.');
-        } else {
-          throw new Error(`API Error: ${response.status} - ${response.statusText}`);
-        }
-      }
-      
-      const newData: TradingPair[] = await response.json();
-      
-      if (!Array.isArray(newData)) {
-        throw new Error('Invalid data format received from API');
-      }
-      
-      // Only update if data actually changed
-      const hasChanged = JSON.stringify(newData) !== JSON.stringify(pairsRef.current);
-      if (hasChanged) {
-        setPairs(newData);
-        pairsRef.current = newData;
-        setLastUpdate(new Date());
-        
-        // Log data quality information
-        const withRSI = newData.filter(item => item.rsi1d !== null).length;
-        const total = newData.length;
-        if (withRSI < total * 0.8) {
-          console.warn(`⚠️ ${market} market: Only ${withRSI}/${total} pairs have RSI data (${Math.round(withRSI/total*100)}%)`);
-        }
-      }
-      
-      setError(null);
-    } catch (err) {
-      if (err instanceof Error) {
-        if (err.name === 'AbortError') {
-          setError('Request timeout - Binance API may be experiencing issues');
-        } else {
-          setError(err.message);
-        }
-      } else {
-        setError('An unexpected error occurred');
-      }
-      console.error(`❌ Error fetching ${market} data:`, err);
-    } finally {
-      setLoading(false);
-    }
-  }, [apiEndpoint, loading, market]);
-
-  useEffect(() => {
-    fetchData();
-    
-    let interval: NodeJS.Timeout;
-    if (autoRefresh) {
-      interval = setInterval(fetchData, 10000); // Update every 10 seconds
-    }
-    
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [fetchData, autoRefresh]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const { pairs, status, connected, error, lastUpdate, reconnect } = useMarketStream(market, 50, autoRefresh);
+  const loading = status === 'connecting';
+  const columns = useMemo(() => createColumns(rsiSettings, market), [rsiSettings, market]);
 
   const handleManualRefresh = () => {
-    setLoading(true);
-    fetchData();
+    if (!autoRefresh) setAutoRefresh(true);
+    else reconnect();
   };
 
+  const closeDrawer = useCallback(() => setSelected(null), []);
+
   const handleExportData = () => {
     const csvContent = [
       // CSV Headers
-      ['Symbol', 'Price', '24h Volume', '24h Change', '1h RSI', '4h RSI', '1d RSI', 'Signal'].join(','),
+      ['Symbol', 'Price', '24h Volume', '24h Change', ...RSI_TIMEFRAMES.map(timeframe => `${timeframe} RSI`), 'Signal', 'Score', 'Strength'].join(','),
       // CSV Data
       ...pairs.map(pair => [
         pair.symbol,
         pair.price,
         pair.volume24h,
         pair.change24h,
-        pair.rsi1h ?? 'N/A',
-        pair.rsi4h ?? 'N/A',
-        pair.rsi1d ?? 'N/A',
-        pair.signal
+        ...RSI_TIMEFRAMES.map(timeframe => pair.rsi[timeframe] ?? 'N/A'),
+        pair.signal,
+        pair.confluence.score,
+        pair.confluence.strength
       ].join(','))
     ].join('\n');
 
@@ -136,7 +67,7 @@ export function AdvancedTradingTable({ title, apiEndpoint, market }: AdvancedTra
     return acc;
   }, {} as Record<string, number>);
 
-  if (loading && pairs.length === 0) {
+  if (loading && pairs.length === 0 && !error) {
     return (
       <Card className="border-border">
         <CardHeader className="pb-3">
@@ -156,7 +87,7 @@ export function AdvancedTradingTable({ title, apiEndpoint, market }: AdvancedTra
     );
   }
 
-  if (error) {
+  if (error && pairs.length === 0) {
     return (
       <Card className="border-destructive">
         <CardHeader className="pb-3">
@@ -193,6 +124,11 @@ export function AdvancedTradingTable({ title, apiEndpoint, market }: AdvancedTra
               {loading && (
                 <RefreshCw className="h-3 w-3 animate-spin text-muted-foreground" />
               )}
+              {!connected && (
+                <Badge variant="destructive" className="text-xs" title="The exchange feed is reconnecting; prices may be stale">
+                  Feed down
+                </Badge>
+              )}
             </div>
             
             <div className="flex items-center gap-1">
@@ -234,7 +170,7 @@ export function AdvancedTradingTable({ title, apiEndpoint, market }: AdvancedTra
               ))}
             </div>
             <div className="text-xs text-muted-foreground">
-              {lastUpdate.toLocaleTimeString()} • {pairs.length} pairs
+              {error ?? `${lastUpdate.toLocaleTimeString()} • ${pairs.length} pairs`}
             </div>
           </div>
         </div>
@@ -245,8 +181,19 @@ export function AdvancedTradingTable({ title, apiEndpoint, market }: AdvancedTra
           columns={columns}
           data={pairs}
           searchPlaceholder={`Search ${market} pairs...`}
+          initialColumnVisibility={defaultColumnVisibility}
+          onRowClick={(pair) => setSelected(pair.symbol)}
+          matchesExpression={matchesScreener}
+          rangeFilters={rangeFilterColumns}
         />
       </CardContent>
+      <SymbolDrawer
+        symbol={selected}
+        market={market}
+        rsiSettings={rsiSettings}
+        livePairs={pairs}
+        onClose={closeDrawer}
+      />
     </Card>
   );
 } 
\ No newline at end of file
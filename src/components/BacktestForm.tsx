@@ -0,0 +1,241 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { FlaskConical, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Candle } from '@/types/exchange';
+import { Market } from '@/types/trading';
+import { BacktestDirection, BacktestRequest } from '@/types/backtest';
+import { BACKTEST_DEFAULTS, backtestFields } from '@/lib/backtest';
+import { INDICATOR_TIMEFRAME, RSI_TIMEFRAMES, rsiColumnId } from '@/lib/timeframes';
+
+const RSI_FIELD = rsiColumnId(RSI_TIMEFRAMES[0]); // For the example rule
+
+interface BacktestFormProps {
+  loading: boolean;
+  onRun: (request: BacktestRequest) => void;
+}
+
+// Candles from a JSON file shaped like { "BTCUSDT": [{ openTime, closeTime, open, high, low, close }, ...] }
+interface ImportedCandles {
+  fileName: string;
+  candles: Record<string, Candle[]>;
+}
+
+// A date input's value as epoch ms (UTC); `to` dates include the whole day
+function dateToTime(value: string, endOfDay: boolean = false): number | null {
+  return value ? Date.parse(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}Z`) : null;
+}
+
+export function BacktestForm({ loading, onRun }: BacktestFormProps) {
+  const [market, setMarket] = useState<Market>('spot');
+  const [interval, setTimeframe] = useState(INDICATOR_TIMEFRAME);
+  const [symbols, setSymbols] = useState('BTCUSDT, ETHUSDT');
+  const [ruleKind, setRuleKind] = useState<'policy' | 'custom'>('policy');
+  const [entry, setEntry] = useState(`${RSI_FIELD}<30`);
+  const [exit, setExit] = useState(`${RSI_FIELD}>70`);
+  const [direction, setDirection] = useState<BacktestDirection>(BACKTEST_DEFAULTS.direction);
+  const [feeBps, setFeeBps] = useState(String(BACKTEST_DEFAULTS.feeBps));
+  const [slippageBps, setSlippageBps] = useState(String(BACKTEST_DEFAULTS.slippageBps));
+  const [initialCapital, setInitialCapital] = useState(String(BACKTEST_DEFAULTS.initialCapital));
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [imported, setImported] = useState<ImportedCandles | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const candles = JSON.parse(await file.text());
+      if (typeof candles !== 'object' || candles === null || Array.isArray(candles)) {
+        throw new Error('Expected an object mapping each symbol to its candles');
+      }
+      setImported({ fileName: file.name, candles });
+      setSymbols(Object.keys(candles).join(', '));
+      setFileError(null);
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const handleSubmit = () => {
+    onRun({
+      market,
+      interval,
+      symbols: symbols.split(/[\s,]+/).filter(Boolean),
+      rule: ruleKind === 'policy' ? { kind: 'policy' } : { kind: 'custom', entry, exit },
+      direction,
+      feeBps: Number(feeBps),
+      slippageBps: Number(slippageBps),
+      initialCapital: Number(initialCapital),
+      from: dateToTime(from),
+      to: dateToTime(to, true),
+      candles: imported?.candles,
+    });
+  };
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <FlaskConical className="h-4 w-4" />
+          Backtest
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleSubmit();
+          }}
+        >
+          <label className="space-y-1">
+            <span className="text-muted-foreground">Market</span>
+            <Select value={market} onValueChange={(value) => setMarket(value as Market)}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="spot">Spot</SelectItem>
+                <SelectItem value="futures">Futures</SelectItem>
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-muted-foreground">Timeframe</span>
+            <Select value={interval} onValueChange={setTimeframe}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RSI_TIMEFRAMES.map((timeframe) => (
+                  <SelectItem key={timeframe} value={timeframe}>{timeframe}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="space-y-1 col-span-2">
+            <span className="text-muted-foreground">Symbols</span>
+            <Input
+              value={symbols}
+              onChange={(event) => setSymbols(event.target.value)}
+              placeholder="BTCUSDT, ETHUSDT"
+              className="h-8 font-mono uppercase"
+            />
+          </label>
+
+          <label className="space-y-1">
+            <span className="text-muted-foreground">Rule</span>
+            <Select value={ruleKind} onValueChange={(value) => setRuleKind(value as 'policy' | 'custom')}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="policy">Signal policy</SelectItem>
+                <SelectItem value="custom">Custom entry/exit</SelectItem>
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-muted-foreground">Direction</span>
+            <Select value={direction} onValueChange={(value) => setDirection(value as BacktestDirection)}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="long">Long</SelectItem>
+                <SelectItem value="short">Short</SelectItem>
+              </SelectContent>
+            </Select>
+          </label>
+          {ruleKind === 'custom' ? (
+            <>
+              <label className="space-y-1">
+                <span className="text-muted-foreground">Entry when</span>
+                <Input value={entry} onChange={(event) => setEntry(event.target.value)} className="h-8 font-mono" />
+              </label>
+              <label className="space-y-1">
+                <span className="text-muted-foreground">Exit when</span>
+                <Input value={exit} onChange={(event) => setExit(event.target.value)} className="h-8 font-mono" />
+              </label>
+            </>
+          ) : (
+            <p className="col-span-2 self-end text-xs text-muted-foreground">
+              {direction === 'long' ? 'Enters on BUY / STRONG BUY, exits on SELL / STRONG SELL' : 'Enters on SELL / STRONG SELL, exits on BUY / STRONG BUY'}
+            </p>
+          )}
+
+          <label className="space-y-1">
+            <span className="text-muted-foreground">Fee (bps per side)</span>
+            <Input type="number" min={0} value={feeBps} onChange={(event) => setFeeBps(event.target.value)} className="h-8" />
+          </label>
+          <label className="space-y-1">
+            <span className="text-muted-foreground">Slippage (bps)</span>
+            <Input type="number" min={0} value={slippageBps} onChange={(event) => setSlippageBps(event.target.value)} className="h-8" />
+          </label>
+          <label className="space-y-1">
+            <span className="text-muted-foreground">Starting capital</span>
+            <Input type="number" min={1} value={initialCapital} onChange={(event) => setInitialCapital(event.target.value)} className="h-8" />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1">
+              <span className="text-muted-foreground">From</span>
+              <Input type="date" value={from} onChange={(event) => setFrom(event.target.value)} className="h-8" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-muted-foreground">To</span>
+              <Input type="date" value={to} onChange={(event) => setTo(event.target.value)} className="h-8" />
+            </label>
+          </div>
+
+          <div className="col-span-2 md:col-span-4 flex flex-wrap items-center gap-2">
+            <Button type="submit" size="sm" className="h-8" disabled={loading}>
+              {loading ? 'Running...' : 'Run backtest'}
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) handleFile(file);
+                event.target.value = '';
+              }}
+            />
+            {imported ? (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                Using {interval} candles from {imported.fileName}
+                <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setImported(null)} aria-label="Use stored candles">
+                  <X className="h-3 w-3" />
+                </Button>
+              </span>
+            ) : (
+              <Button type="button" variant="outline" size="sm" className="h-8" onClick={() => fileInput.current?.click()}>
+                <Upload className="h-3 w-3 mr-1" />
+                Import candles
+              </Button>
+            )}
+            {fileError && <span className="text-xs text-destructive">{fileError}</span>}
+          </div>
+          {ruleKind === 'custom' && (
+            <p className="col-span-2 md:col-span-4 text-xs text-muted-foreground">
+              Screener expressions checked at every candle close, e.g. <span className="font-mono">rsi1h&lt;30 AND signal=BUY</span>.
+              Fields: <span className="font-mono">{backtestFields().join(', ')}</span>
+            </p>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BacktestReport, BacktestStats } from '@/types/backtest';
+import { formatPrice } from '@/lib/binance';
+import { EquityCurveChart } from './EquityCurveChart';
+
+interface BacktestResultsProps {
+  report: BacktestReport;
+}
+
+const formatPct = (value: number | null) => (value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(2)}%`);
+const pctColor = (value: number | null) =>
+  value === null || value === 0 ? '' : value > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+
+// Profit factor is null when nothing lost: infinite with winners, undefined without trades
+const formatProfitFactor = (stats: BacktestStats) =>
+  stats.profitFactor !== null ? stats.profitFactor.toFixed(2) : stats.winRate ? '∞' : '—';
+
+function StatsGrid({ stats }: { stats: BacktestStats }) {
+  const items = [
+    { label: 'Trades', value: String(stats.trades) },
+    { label: 'Win rate', value: stats.winRate === null ? '—' : `${stats.winRate.toFixed(1)}%` },
+    { label: 'Profit factor', value: formatProfitFactor(stats) },
+    { label: 'Total return', value: formatPct(stats.totalReturnPct), className: pctColor(stats.totalReturnPct) },
+    { label: 'Max drawdown', value: `${stats.maxDrawdownPct.toFixed(2)}%`, className: stats.maxDrawdownPct > 0 ? 'text-red-600 dark:text-red-400' : '' },
+    { label: 'Avg trade', value: formatPct(stats.averageTradePct), className: pctColor(stats.averageTradePct) },
+    { label: 'Exposure', value: `${stats.exposurePct.toFixed(1)}%` },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
+      {items.map((item) => (
+        <div key={item.label} className="rounded-md border border-border p-2">
+          <div className="text-xs text-muted-foreground">{item.label}</div>
+          <div className={`text-lg font-semibold font-mono ${item.className ?? ''}`}>{item.value}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Summary across symbols, a row per symbol, and the equity curve and trades of the selected one
+export function BacktestResults({ report }: BacktestResultsProps) {
+  const [selected, setSelected] = useState(report.results[0]?.symbol ?? null);
+  const result = report.results.find(item => item.symbol === selected) ?? report.results[0];
+  const { request } = report;
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-border">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg flex flex-wrap items-center gap-2">
+            Summary
+            <Badge variant="outline">{request.market.toUpperCase()}</Badge>
+            <Badge variant="outline">{request.interval}</Badge>
+            <Badge variant="outline">{request.rule.kind === 'policy' ? 'Signal policy' : `${request.rule.entry} → ${request.rule.exit}`}</Badge>
+            <Badge variant="outline">{request.direction}</Badge>
+            <Badge variant="secondary">{report.source === 'imported' ? 'Imported candles' : 'Stored candles'}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <StatsGrid stats={report.summary} />
+          <p className="text-xs text-muted-foreground">
+            Fees {request.feeBps} bps per side, slippage {request.slippageBps} bps, {request.initialCapital.toLocaleString()} starting
+            capital per symbol. Signals act at the next candle&apos;s open.
+            {report.missing.length > 0 && ` No candles for ${report.missing.join(', ')}.`}
+          </p>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead className="text-right">Candles</TableHead>
+                  <TableHead className="text-right">Trades</TableHead>
+                  <TableHead className="text-right">Win rate</TableHead>
+                  <TableHead className="text-right">Profit factor</TableHead>
+                  <TableHead className="text-right">Return</TableHead>
+                  <TableHead className="text-right">Buy &amp; hold</TableHead>
+                  <TableHead className="text-right">Max drawdown</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.results.map((item) => (
+                  <TableRow
+                    key={item.symbol}
+                    className={`cursor-pointer ${item.symbol === result?.symbol ? 'bg-muted/50' : ''}`}
+                    onClick={() => setSelected(item.symbol)}
+                  >
+                    <TableCell className="font-mono font-medium">{item.symbol}</TableCell>
+                    <TableCell className="text-right font-mono">{item.candles}</TableCell>
+                    <TableCell className="text-right font-mono">{item.stats.trades}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {item.stats.winRate === null ? '—' : `${item.stats.winRate.toFixed(1)}%`}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatProfitFactor(item.stats)}</TableCell>
+                    <TableCell className={`text-right font-mono ${pctColor(item.stats.totalReturnPct)}`}>
+                      {formatPct(item.stats.totalReturnPct)}
+                    </TableCell>
+                    <TableCell className={`text-right font-mono ${pctColor(item.buyAndHoldReturnPct)}`}>
+                      {formatPct(item.buyAndHoldReturnPct)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{item.stats.maxDrawdownPct.toFixed(2)}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card className="border-border">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">
+              {result.symbol} equity
+              {result.firstTime !== null && result.lastTime !== null && (
+                <span className="ml-2 text-sm font-normal text-muted-foreground">
+                  {new Date(result.firstTime).toLocaleString()} – {new Date(result.lastTime).toLocaleString()}
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <EquityCurveChart equity={result.equity} trades={result.trades} initialCapital={request.initialCapital} />
+            {result.trades.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">The rule never entered a position</p>
+            ) : (
+              <div className="rounded-md border max-h-[400px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Entry</TableHead>
+                      <TableHead>Exit</TableHead>
+                      <TableHead className="text-right">Entry price</TableHead>
+                      <TableHead className="text-right">Exit price</TableHead>
+                      <TableHead className="text-right">Bars</TableHead>
+                      <TableHead className="text-right">Fees</TableHead>
+                      <TableHead className="text-right">Return</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.trades.map((trade) => (
+                      <TableRow key={trade.entryTime}>
+                        <TableCell className="text-xs">{new Date(trade.entryTime).toLocaleString()}</TableCell>
+                        <TableCell className="text-xs">
+                          {new Date(trade.exitTime).toLocaleString()}
+                          {trade.exitReason === 'end_of_data' && <span className="ml-1 text-muted-foreground">(end of data)</span>}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">${formatPrice(trade.entryPrice)}</TableCell>
+                        <TableCell className="text-right font-mono">${formatPrice(trade.exitPrice)}</TableCell>
+                        <TableCell className="text-right font-mono">{trade.bars}</TableCell>
+                        <TableCell className="text-right font-mono">{trade.fees.toFixed(2)}</TableCell>
+                        <TableCell className={`text-right font-mono ${pctColor(trade.returnPct)}`}>{formatPct(trade.returnPct)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Candle } from '@/types/exchange';
+import { RSIPoint } from '@/types/trading';
+import { RSIBands } from '@/types/settings';
+import { formatPrice } from '@/lib/binance';
+
+const WIDTH = 800;
+const PRICE_HEIGHT = 280;
+const RSI_HEIGHT = 110;
+const GAP = 16;
+const AXIS_WIDTH = 64;  // Right-hand price/RSI labels
+const TIME_AXIS = 20;   // Date labels under the RSI pane
+const HEIGHT = PRICE_HEIGHT + GAP + RSI_HEIGHT + TIME_AXIS;
+const PLOT_WIDTH = WIDTH - AXIS_WIDTH;
+const RSI_TOP = PRICE_HEIGHT + GAP;
+
+interface CandlestickChartProps {
+  candles: Candle[];
+  rsi: RSIPoint[]; // Aligned with candles
+  bands: RSIBands;
+  rsiPeriod: number;
+}
+
+function formatTime(time: number, spanMs: number): string {
+  const date = new Date(time);
+  return spanMs > 3 * 24 * 60 * 60 * 1000
+    ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+// Plain SVG candlesticks over an RSI pane with the oversold/overbought zone shaded.
+// Everything is drawn locally in a fixed viewBox that scales with its container.
+export function CandlestickChart({ candles, rsi, bands, rsiPeriod }: CandlestickChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hover, setHover] = useState<number | null>(null);
+
+  if (candles.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-12">No candles stored for this timeframe yet</p>;
+  }
+
+  const step = PLOT_WIDTH / candles.length;
+  const bodyWidth = Math.max(1, step * 0.7);
+  const x = (index: number) => index * step + step / 2;
+
+  const high = Math.max(...candles.map(candle => candle.high));
+  const low = Math.min(...candles.map(candle => candle.low));
+  const padding = (high - low) * 0.05 || high * 0.01 || 1;
+  const top = high + padding;
+  const bottom = low - padding;
+  const priceY = (price: number) => ((top - price) / (top - bottom)) * PRICE_HEIGHT;
+  const rsiY = (value: number) => RSI_TOP + ((100 - value) / 100) * RSI_HEIGHT;
+
+  const priceTicks = Array.from({ length: 5 }, (_, i) => bottom + ((top - bottom) * (i + 0.5)) / 5);
+  const timeTicks = Array.from({ length: 5 }, (_, i) => Math.round(((candles.length - 1) * i) / 4));
+  const span = candles[candles.length - 1].openTime - candles[0].openTime;
+
+  let rsiPath = '';
+  rsi.forEach((point, index) => {
+    if (point.rsi === null) return;
+    const previous = rsi[index - 1];
+    rsiPath += `${previous?.rsi != null ? 'L' : 'M'}${x(index).toFixed(1)},${rsiY(point.rsi).toFixed(1)} `;
+  });
+
+  const handleMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const plotX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.floor(plotX / step);
+    setHover(index >= 0 && index < candles.length ? index : null);
+  };
+
+  const hovered = hover === null ? null : candles[hover];
+  const hoveredRSI = hover === null ? null : rsi[hover]?.rsi ?? null;
+
+  return (
+    <div className="space-y-1">
+      <div className="h-5 text-xs font-mono text-muted-foreground">
+        {hovered ? (
+          <>
+            {new Date(hovered.openTime).toLocaleString()} · O {formatPrice(hovered.open)} H {formatPrice(hovered.high)}{' '}
+            L {formatPrice(hovered.low)} C {formatPrice(hovered.close)} · RSI({rsiPeriod}) {hoveredRSI?.toFixed(2) ?? 'N/A'}
+          </>
+        ) : (
+          <>Hover the chart for candle details</>
+        )}
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none"
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHover(null)}
+        role="img"
+        aria-label="Candlestick chart with RSI"
+      >
+        {/* Price grid and labels */}
+        {priceTicks.map((price) => (
+          <g key={price}>
+            <line x1={0} x2={PLOT_WIDTH} y1={priceY(price)} y2={priceY(price)} className="stroke-border" strokeDasharray="2 4" />
+            <text x={PLOT_WIDTH + 6} y={priceY(price) + 4} className="fill-muted-foreground text-[10px]">
+              {formatPrice(price)}
+            </text>
+          </g>
+        ))}
+
+        {/* Candles */}
+        {candles.map((candle, index) => {
+          const up = candle.close >= candle.open;
+          const color = up ? 'stroke-green-500 fill-green-500' : 'stroke-red-500 fill-red-500';
+          const bodyTop = priceY(Math.max(candle.open, candle.close));
+          const bodyHeight = Math.max(1, Math.abs(priceY(candle.open) - priceY(candle.close)));
+          return (
+            <g key={candle.openTime} className={color}>
+              <line x1={x(index)} x2={x(index)} y1={priceY(candle.high)} y2={priceY(candle.low)} strokeWidth={1} />
+              <rect x={x(index) - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} />
+            </g>
+          );
+        })}
+
+        {/* RSI pane: shaded zone between the bands, band lines, then the RSI line */}
+        <rect x={0} y={RSI_TOP} width={PLOT_WIDTH} height={RSI_HEIGHT} className="fill-transparent stroke-border" />
+        <rect
+          x={0}
+          y={rsiY(bands.overbought)}
+          width={PLOT_WIDTH}
+          height={rsiY(bands.oversold) - rsiY(bands.overbought)}
+          className="fill-purple-500/10"
+        />
+        {[bands.oversold, bands.overbought].map((level) => (
+          <g key={level}>
+            <line x1={0} x2={PLOT_WIDTH} y1={rsiY(level)} y2={rsiY(level)} className="stroke-purple-400" strokeDasharray="4 3" />
+            <text x={PLOT_WIDTH + 6} y={rsiY(level) + 4} className="fill-muted-foreground text-[10px]">
+              {level}
+            </text>
+          </g>
+        ))}
+        <text x={4} y={RSI_TOP + 12} className="fill-muted-foreground text-[10px]">
+          RSI({rsiPeriod})
+        </text>
+        <path d={rsiPath} className="stroke-purple-500 fill-none" strokeWidth={1.5} />
+
+        {/* Time labels */}
+        {timeTicks.map((index) => (
+          <text
+            key={index}
+            x={x(index)}
+            y={HEIGHT - 4}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            {formatTime(candles[index].openTime, span)}
+          </text>
+        ))}
+
+        {/* Crosshair */}
+        {hover !== null && (
+          <line
+            x1={x(hover)}
+            x2={x(hover)}
+            y1={0}
+            y2={RSI_TOP + RSI_HEIGHT}
+            className="stroke-muted-foreground"
+            strokeDasharray="3 3"
+            pointerEvents="none"
+          />
+        )}
+      </svg>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import {
   ColumnDef,
   ColumnFiltersState,
+  Row,
   SortingState,
   VisibilityState,
   flexRender,
@@ -12,9 +13,10 @@ import {
   getSortedRowModel,
   useReactTable,
 } from '@tanstack/react-table';
-import { ChevronDown, Search } from 'lucide-react';
-import { useState } from 'react';
+import { ChevronDown, Filter, Search, SlidersHorizontal, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
 
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -40,26 +42,83 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { SIGNAL_POLICY } from '@/lib/signals';
+import { parseScreenerExpression } from '@/lib/screener';
+import { ScreenerExpression } from '@/types/screener';
+
+// [min, max]; undefined leaves that end open
+export type NumberRange = [number | undefined, number | undefined];
+
+export interface RangeFilterColumn {
+  id: string;
+  label: string;
+}
+
+// Min/max filter for numeric columns. Rows without a value (RSI still warming up)
+// are hidden while a range is set.
+export function numberRangeFilter<TData>(row: Row<TData>, id: string, [min, max]: NumberRange): boolean {
+  const value = row.getValue(id) as number | null;
+  if (value === null || value === undefined) return false;
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+const describeRange = (label: string, [min, max]: NumberRange) => {
+  if (min !== undefined && max !== undefined) return `${label} ${min} – ${max}`;
+  return min !== undefined ? `${label} ≥ ${min}` : `${label} ≤ ${max}`;
+};
+
+const SIGNAL_LABELS: Record<string, string> = {
+  STRONG_BUY: '🟢 Strong Buy',
+  BUY: '🟢 Buy',
+  NEUTRAL: '⚪ Neutral',
+  SELL: '🔴 Sell',
+  STRONG_SELL: '🔴 Strong Sell',
+};
+
+const SCORE_LABELS: Record<string, string> = {
+  'strong-bullish': `🟢 Score ≥ +${SIGNAL_POLICY.strongScore}`,
+  bullish: '🟢 Bullish (> 0)',
+  bearish: '🔴 Bearish (< 0)',
+  'strong-bearish': `🔴 Score ≤ -${SIGNAL_POLICY.strongScore}`,
+};
 
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
   data: TData[];
   searchPlaceholder?: string;
+  initialColumnVisibility?: VisibilityState;
+  onRowClick?: (row: TData) => void;
+  matchesExpression?: (expression: ScreenerExpression, row: TData) => boolean; // Enables the advanced filter box
+  rangeFilters?: RangeFilterColumn[]; // Columns using numberRangeFilter
 }
 
 export function DataTable<TData, TValue>({
   columns,
   data,
-  searchPlaceholder = "Search..."
+  searchPlaceholder = "Search...",
+  initialColumnVisibility = {},
+  onRowClick,
+  matchesExpression,
+  rangeFilters = []
 }: DataTableProps<TData, TValue>) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
-  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({});
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>(initialColumnVisibility);
   const [rowSelection, setRowSelection] = useState({});
   const [globalFilter, setGlobalFilter] = useState('');
+  const [expressionText, setExpressionText] = useState('');
+  const [showRanges, setShowRanges] = useState(false);
+  const [rangeText, setRangeText] = useState<Record<string, [string, string]>>({}); // What was typed, e.g. "-" before "-5"
+
+  // Same parser and matching as /api/screener, so a screen gives the same rows here
+  const { expression, problems } = useMemo(() => parseScreenerExpression(expressionText), [expressionText]);
+  const rows = useMemo(
+    () => (expression && matchesExpression ? data.filter(row => matchesExpression(expression, row)) : data),
+    [data, expression, matchesExpression]
+  );
 
   const table = useReactTable({
-    data,
+    data: rows,
     columns,
     onSortingChange: setSorting,
     onColumnFiltersChange: setColumnFilters,
@@ -85,6 +144,53 @@ export function DataTable<TData, TValue>({
     },
   });
 
+  const selectedSignals = (table.getColumn('signal')?.getFilterValue() as string[] | undefined) ?? [];
+  const toggleSignal = (signal: string, checked: boolean) => {
+    const next = checked ? [...selectedSignals, signal] : selectedSignals.filter(selected => selected !== signal);
+    table.getColumn('signal')?.setFilterValue(next.length > 0 ? next : undefined);
+  };
+
+  const setRangeEnd = (id: string, end: 0 | 1, text: string) => {
+    const texts: [string, string] = [...(rangeText[id] ?? ['', ''])];
+    texts[end] = text;
+    setRangeText({ ...rangeText, [id]: texts });
+
+    const range = texts.map(value => (value.trim() === '' || !Number.isFinite(Number(value)) ? undefined : Number(value))) as NumberRange;
+    table.getColumn(id)?.setFilterValue(range[0] === undefined && range[1] === undefined ? undefined : range);
+  };
+
+  const clearRange = (id: string) => {
+    const texts = { ...rangeText };
+    delete texts[id];
+    setRangeText(texts);
+    table.getColumn(id)?.setFilterValue(undefined);
+  };
+
+  const clearAll = () => {
+    setGlobalFilter('');
+    setExpressionText('');
+    setRangeText({});
+    table.resetColumnFilters();
+  };
+
+  // Every active filter as a removable chip
+  const chips: { key: string; label: string; remove: () => void }[] = [];
+  if (globalFilter) chips.push({ key: 'search', label: `Search: ${globalFilter}`, remove: () => setGlobalFilter('') });
+  if (expression) chips.push({ key: 'expression', label: expressionText.trim(), remove: () => setExpressionText('') });
+  for (const filter of columnFilters) {
+    if (filter.id === 'signal') {
+      for (const signal of filter.value as string[]) {
+        chips.push({ key: `signal-${signal}`, label: SIGNAL_LABELS[signal] ?? signal, remove: () => toggleSignal(signal, false) });
+      }
+    } else if (filter.id === 'confluenceScore') {
+      const value = filter.value as string;
+      chips.push({ key: filter.id, label: SCORE_LABELS[value] ?? value, remove: () => table.getColumn(filter.id)?.setFilterValue(undefined) });
+    } else {
+      const column = rangeFilters.find(range => range.id === filter.id);
+      if (column) chips.push({ key: filter.id, label: describeRange(column.label, filter.value as NumberRange), remove: () => clearRange(filter.id) });
+    }
+  }
+
   return (
     <div className="w-full space-y-4">
       {/* Search and Filters Section */}
@@ -102,26 +208,60 @@ export function DataTable<TData, TValue>({
 
         {/* Filters and Controls */}
         <div className="flex items-center space-x-2">
-          {/* RSI Filter */}
+          {/* Signal Filter (any of the checked signals) */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="w-[140px] justify-between font-normal">
+                {selectedSignals.length === 0
+                  ? 'All Signals'
+                  : selectedSignals.length === 1
+                    ? SIGNAL_LABELS[selectedSignals[0]]
+                    : `${selectedSignals.length} Signals`}
+                <ChevronDown className="ml-2 h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Signals</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {Object.entries(SIGNAL_LABELS).map(([signal, label]) => (
+                <DropdownMenuCheckboxItem
+                  key={signal}
+                  checked={selectedSignals.includes(signal)}
+                  onCheckedChange={(checked) => toggleSignal(signal, !!checked)}
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  {label}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {/* Confluence Score Filter */}
           <Select
-            value={(table.getColumn("signal")?.getFilterValue() as string) ?? ""}
+            value={(table.getColumn("confluenceScore")?.getFilterValue() as string) ?? ""}
             onValueChange={(value) =>
-              table.getColumn("signal")?.setFilterValue(value === "all" ? "" : value)
+              table.getColumn("confluenceScore")?.setFilterValue(value === "all" ? "" : value)
             }
           >
-            <SelectTrigger className="w-[140px]">
-              <SelectValue placeholder="All Signals" />
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="All Scores" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All Signals</SelectItem>
-              <SelectItem value="STRONG_BUY">🟢 Strong Buy</SelectItem>
-              <SelectItem value="BUY">🟢 Buy</SelectItem>
-              <SelectItem value="NEUTRAL">⚪ Neutral</SelectItem>
-              <SelectItem value="SELL">🔴 Sell</SelectItem>
-              <SelectItem value="STRONG_SELL">🔴 Strong Sell</SelectItem>
+              <SelectItem value="all">All Scores</SelectItem>
+              {Object.entries(SCORE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
 
+          {/* Range Filters */}
+          {rangeFilters.length > 0 && (
+            <Button variant={showRanges ? 'secondary' : 'outline'} onClick={() => setShowRanges(!showRanges)}>
+              <SlidersHorizontal className="mr-2 h-4 w-4" />
+              Ranges
+            </Button>
+          )}
+
           {/* Column Visibility */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -154,6 +294,71 @@ export function DataTable<TData, TValue>({
         </div>
       </div>
 
+      {/* Advanced Filter */}
+      {matchesExpression && (
+        <div className="space-y-1">
+          <div className="relative">
+            <Filter className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Filter expression, e.g. rsi4h<30 AND volume24h>50e6 AND change24h<-5"
+              value={expressionText}
+              onChange={(event) => setExpressionText(event.target.value)}
+              className={`pl-8 font-mono text-sm ${problems.length > 0 ? 'border-destructive' : ''}`}
+              spellCheck={false}
+              aria-invalid={problems.length > 0}
+            />
+          </div>
+          {problems.map((problem) => (
+            <p key={problem} className="text-xs text-destructive">{problem}</p>
+          ))}
+        </div>
+      )}
+
+      {/* Min/Max Inputs */}
+      {showRanges && rangeFilters.length > 0 && (
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-3 lg:grid-cols-6 rounded-md border p-3">
+          {rangeFilters.map(({ id, label }) => (
+            <div key={id} className="space-y-1">
+              <div className="text-xs font-medium text-muted-foreground">{label}</div>
+              <div className="flex gap-1">
+                {(['Min', 'Max'] as const).map((placeholder, end) => (
+                  <Input
+                    key={placeholder}
+                    type="number"
+                    placeholder={placeholder}
+                    value={rangeText[id]?.[end] ?? ''}
+                    onChange={(event) => setRangeEnd(id, end as 0 | 1, event.target.value)}
+                    className="h-8 text-xs"
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Active Filter Chips */}
+      {chips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          {chips.map((chip) => (
+            <Badge key={chip.key} variant="secondary" className="gap-1 pr-1 font-normal">
+              <span className="max-w-[280px] truncate">{chip.label}</span>
+              <button
+                type="button"
+                onClick={chip.remove}
+                className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+                aria-label={`Remove filter ${chip.label}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={clearAll}>
+            Clear all
+          </Button>
+        </div>
+      )}
+
       {/* Table */}
       <div className="rounded-md border">
         <Table>
@@ -181,7 +386,8 @@ export function DataTable<TData, TValue>({
                 <TableRow
                   key={row.id}
                   data-state={row.getIsSelected() && "selected"}
-                  className="hover:bg-muted/50 transition-colors duration-200"
+                  className={`hover:bg-muted/50 transition-colors duration-200 ${onRowClick ? 'cursor-pointer' : ''}`}
+                  onClick={onRowClick ? () => onRowClick(row.original) : undefined}
                 >
                   {row.getVisibleCells().map((cell) => (
                     <TableCell key={cell.id}>
@@ -0,0 +1,144 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { BacktestTrade, EquityPoint } from '@/types/backtest';
+
+const WIDTH = 800;
+const HEIGHT = 240;
+const AXIS_WIDTH = 72; // Right-hand equity labels
+const TIME_AXIS = 20;
+const PLOT_WIDTH = WIDTH - AXIS_WIDTH;
+const PLOT_HEIGHT = HEIGHT - TIME_AXIS;
+
+interface EquityCurveChartProps {
+  equity: EquityPoint[];
+  trades: BacktestTrade[];
+  initialCapital: number;
+}
+
+const formatEquity = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+// Equity marked at every candle close, against a dashed starting-capital line.
+// Spans in a position are shaded green (winning trade) or red (losing trade).
+export function EquityCurveChart({ equity, trades, initialCapital }: EquityCurveChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hover, setHover] = useState<number | null>(null);
+
+  if (equity.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-12">No candles in the selected range</p>;
+  }
+
+  const step = PLOT_WIDTH / Math.max(1, equity.length - 1);
+  const x = (index: number) => index * step;
+  const values = [initialCapital, ...equity.map(point => point.equity)];
+  const high = Math.max(...values);
+  const low = Math.min(...values);
+  const padding = (high - low) * 0.05 || high * 0.01 || 1;
+  const top = high + padding;
+  const bottom = low - padding;
+  const y = (value: number) => ((top - value) / (top - bottom)) * PLOT_HEIGHT;
+
+  const path = equity.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(index).toFixed(1)},${y(point.equity).toFixed(1)}`).join(' ');
+  const ticks = Array.from({ length: 4 }, (_, i) => bottom + ((top - bottom) * (i + 0.5)) / 4);
+  const timeTicks = Array.from({ length: 5 }, (_, i) => Math.round(((equity.length - 1) * i) / 4));
+
+  // Index of the first point at or after a time (trades are stamped with candle open times)
+  const indexAt = (time: number) => {
+    const index = equity.findIndex(point => point.time >= time);
+    return index === -1 ? equity.length - 1 : index;
+  };
+
+  const handleMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const plotX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.round(plotX / step);
+    setHover(index >= 0 && index < equity.length ? index : null);
+  };
+
+  const hovered = hover === null ? null : equity[hover];
+
+  return (
+    <div className="space-y-1">
+      <div className="h-5 text-xs font-mono text-muted-foreground">
+        {hovered ? (
+          <>
+            {new Date(hovered.time).toLocaleString()} · Equity {formatEquity(hovered.equity)} (
+            {((hovered.equity / initialCapital - 1) * 100).toFixed(2)}%)
+          </>
+        ) : (
+          <>Hover the curve for equity details</>
+        )}
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none"
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHover(null)}
+        role="img"
+        aria-label="Equity curve"
+      >
+        {/* Trades */}
+        {trades.map((trade) => {
+          const start = x(indexAt(trade.entryTime));
+          const end = x(indexAt(trade.exitTime));
+          return (
+            <rect
+              key={trade.entryTime}
+              x={start}
+              y={0}
+              width={Math.max(1, end - start)}
+              height={PLOT_HEIGHT}
+              className={trade.pnl > 0 ? 'fill-green-500/10' : 'fill-red-500/10'}
+            />
+          );
+        })}
+
+        {/* Grid and labels */}
+        {ticks.map((value) => (
+          <g key={value}>
+            <line x1={0} x2={PLOT_WIDTH} y1={y(value)} y2={y(value)} className="stroke-border" strokeDasharray="2 4" />
+            <text x={PLOT_WIDTH + 6} y={y(value) + 4} className="fill-muted-foreground text-[10px]">
+              {formatEquity(value)}
+            </text>
+          </g>
+        ))}
+        <line
+          x1={0}
+          x2={PLOT_WIDTH}
+          y1={y(initialCapital)}
+          y2={y(initialCapital)}
+          className="stroke-muted-foreground"
+          strokeDasharray="6 4"
+        />
+
+        <path d={path} className="stroke-blue-500 fill-none" strokeWidth={1.5} />
+
+        {timeTicks.map((index) => (
+          <text
+            key={index}
+            x={Math.min(Math.max(x(index), 30), PLOT_WIDTH - 30)}
+            y={HEIGHT - 4}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            {new Date(equity[index].time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+          </text>
+        ))}
+
+        {hover !== null && (
+          <line
+            x1={x(hover)}
+            x2={x(hover)}
+            y1={0}
+            y2={PLOT_HEIGHT}
+            className="stroke-muted-foreground"
+            strokeDasharray="3 3"
+            pointerEvents="none"
+          />
+        )}
+      </svg>
+    </div>
+  );
+}
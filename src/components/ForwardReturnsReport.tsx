@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { BarChart3, RefreshCw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Market, TradingSignal, TransitionKind } from '@/types/trading';
+import { ForwardReturnDimension, HorizonStats } from '@/types/analytics';
+import { FORWARD_RETURN_DIMENSIONS } from '@/lib/forwardReturns';
+import { useForwardReturns } from '@/hooks/useForwardReturns';
+import { getSignalColor } from './columns';
+
+const DIMENSION_LABELS: Record<ForwardReturnDimension, string> = {
+  signal: 'Signal',
+  timeframe: 'Timeframe',
+  market: 'Market',
+  volume: '24h volume',
+};
+
+// Hit rates this far from a coin flip are highlighted
+const HIT_RATE_EDGE = 5;
+
+function hitRateColor(hitRate: number | null): string {
+  if (hitRate === null) return 'text-muted-foreground';
+  if (hitRate >= 50 + HIT_RATE_EDGE) return 'text-green-600 dark:text-green-400';
+  if (hitRate <= 50 - HIT_RATE_EDGE) return 'text-red-600 dark:text-red-400';
+  return '';
+}
+
+function HorizonCell({ stats }: { stats: HorizonStats }) {
+  if (stats.samples === 0) {
+    return (
+      <TableCell className="text-right text-xs text-muted-foreground">
+        {stats.pending > 0 ? `${stats.pending} pending` : '—'}
+      </TableCell>
+    );
+  }
+  const median = stats.medianReturnPct ?? 0;
+  return (
+    <TableCell className="text-right font-mono text-xs" title={`${stats.samples} samples, mean ${stats.meanReturnPct?.toFixed(2)}%`}>
+      <div className={hitRateColor(stats.hitRate)}>{stats.hitRate === null ? '—' : `${stats.hitRate.toFixed(0)}% hit`}</div>
+      <div className="text-muted-foreground">
+        {median > 0 ? '+' : ''}{median.toFixed(2)}% · n={stats.samples}
+      </div>
+    </TableCell>
+  );
+}
+
+// What followed each kind of signal transition: per group and horizon, the hit rate
+// (BUY-side events that rose, SELL-side events that fell) and the median return
+export function ForwardReturnsReport() {
+  const [groupBy, setGroupBy] = useState<ForwardReturnDimension[]>(['signal', 'timeframe']);
+  const [market, setMarket] = useState<Market | 'all'>('all');
+  const [kind, setKind] = useState<TransitionKind | 'all'>('all');
+  const { report, error, loading, refresh } = useForwardReturns({
+    groupBy,
+    market: market === 'all' ? undefined : market,
+    kind: kind === 'all' ? undefined : kind,
+  });
+
+  const toggleDimension = (dimension: ForwardReturnDimension) => {
+    setGroupBy(current => current.includes(dimension)
+      ? current.filter(item => item !== dimension)
+      : FORWARD_RETURN_DIMENSIONS.filter(item => item === dimension || current.includes(item)));
+  };
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <BarChart3 className="h-4 w-4" />
+            Forward Returns
+            {report?.generatedAt && (
+              <span className="text-xs font-normal text-muted-foreground">
+                as of {new Date(report.generatedAt).toLocaleTimeString()}
+              </span>
+            )}
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={market} onValueChange={(value) => setMarket(value as Market | 'all')}>
+              <SelectTrigger className="w-[120px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All markets</SelectItem>
+                <SelectItem value="spot">Spot</SelectItem>
+                <SelectItem value="futures">Futures</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={kind} onValueChange={(value) => setKind(value as TransitionKind | 'all')}>
+              <SelectTrigger className="w-[150px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All changes</SelectItem>
+                <SelectItem value="signal">Pair signal</SelectItem>
+                <SelectItem value="rsi_zone">Timeframe RSI zone</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" className="h-8" onClick={refresh} disabled={loading} aria-label="Recompute">
+              <RefreshCw className={`h-3 w-3 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          <span className="text-muted-foreground mr-1">Group by</span>
+          {FORWARD_RETURN_DIMENSIONS.map((dimension) => (
+            <Button
+              key={dimension}
+              variant={groupBy.includes(dimension) ? 'default' : 'outline'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => toggleDimension(dimension)}
+            >
+              {DIMENSION_LABELS[dimension]}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {error && <p className="text-sm text-destructive mb-2">Error: {error}</p>}
+        {!report || report.groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No signal transitions to score yet</p>
+        ) : (
+          <div className="rounded-md border max-h-[480px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {report.groupBy.map((dimension) => (
+                    <TableHead key={dimension}>{DIMENSION_LABELS[dimension]}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Events</TableHead>
+                  {report.horizons.map((horizon) => (
+                    <TableHead key={horizon} className="text-right">+{horizon}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.groups.map((group) => (
+                  <TableRow key={JSON.stringify(group.key)}>
+                    {report.groupBy.map((dimension) => (
+                      <TableCell key={dimension}>
+                        {dimension === 'signal' ? (
+                          <Badge className={getSignalColor(group.key.signal as TradingSignal)}>
+                            {group.key.signal?.replace('_', ' ')}
+                          </Badge>
+                        ) : (
+                          <span className="text-sm">{group.key[dimension] === 'pair' ? 'Pair signal' : group.key[dimension]}</span>
+                        )}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-mono">{group.events}</TableCell>
+                    {report.horizons.map((horizon) => (
+                      <HorizonCell key={horizon} stats={group.horizons[horizon]} />
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
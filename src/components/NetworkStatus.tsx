@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Wifi, WifiOff, AlertTriangle, CheckCircle } from 'lucide-react';
+import { TradingPair } from '@/types/trading';
 
 interface NetworkStatusProps {
   className?: string;
@@ -46,7 +47,7 @@ export function NetworkStatus({ className }: NetworkStatusProps) {
         const spotData = await spotResponse.json();
         if (Array.isArray(spotData) && spotData.length > 0) {
           // Check if RSI data is available
-          const hasRSI = spotData.some(item => item.rsi1d !== null);
+          const hasRSI = spotData.some((item: TradingPair) => Object.values(item.rsi).some(rsi => rsi !== null));
           spotStatus = hasRSI ? 'healthy' : 'degraded';
           if (!hasRSI) {
             errors.push('Spot RSI calculation issues detected');
@@ -75,7 +76,7 @@ export function NetworkStatus({ className }: NetworkStatusProps) {
         const futuresData = await futuresResponse.json();
         if (Array.isArray(futuresData) && futuresData.length > 0) {
           // Check if RSI data is available
-          const hasRSI = futuresData.some(item => item.rsi1d !== null);
+          const hasRSI = futuresData.some((item: TradingPair) => Object.values(item.rsi).some(rsi => rsi !== null));
           futuresStatus = hasRSI ? 'healthy' : 'degraded';
           if (!hasRSI) {
             errors.push('Futures RSI calculation issues detected');
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Market, TradingPair } from '@/types/trading';
+import { PaperSide } from '@/types/paper';
+import { formatPrice } from '@/lib/binance';
+import { submitPaperOrder } from '@/hooks/usePaperPortfolio';
+
+interface PaperOrderTicketProps {
+  market: Market;
+  pair: TradingPair | null; // null while the pair isn't tracked on this market
+}
+
+const DEFAULT_MARGIN = '100';
+
+// Open a paper position on the drawer's symbol at its current price. Futures take
+// either side and a leverage; spot buys are long at 1x.
+export function PaperOrderTicket({ market, pair }: PaperOrderTicketProps) {
+  const [side, setSide] = useState<PaperSide>('long');
+  const [margin, setMargin] = useState(DEFAULT_MARGIN);
+  const [leverage, setLeverage] = useState('1');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const futures = market === 'futures';
+
+  const submit = async () => {
+    if (!pair) return;
+    setSubmitting(true);
+    try {
+      const problems = await submitPaperOrder({
+        market,
+        symbol: pair.symbol,
+        side: futures ? side : 'long',
+        margin: Number(margin),
+        leverage: futures ? Number(leverage) : 1,
+      });
+      setMessage(problems
+        ? { text: problems.join('; '), error: true }
+        : { text: `Opened ${futures ? `${side} ${leverage}x` : 'spot'} ${pair.symbol} near ${formatPrice(pair.price)}`, error: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to place paper order', error: true });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-border p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium mr-1">Paper {market}</span>
+        {futures && (
+          <div className="flex gap-1">
+            {(['long', 'short'] as const).map((option) => (
+              <Button
+                key={option}
+                variant={option === side ? 'default' : 'outline'}
+                size="sm"
+                className="h-8"
+                onClick={() => setSide(option)}
+              >
+                {option === 'long' ? 'Long' : 'Short'}
+              </Button>
+            ))}
+          </div>
+        )}
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          {futures ? 'Margin' : 'Amount'}
+          <Input
+            type="number"
+            min="0"
+            step="any"
+            value={margin}
+            onChange={(event) => setMargin(event.target.value)}
+            className="h-8 w-24"
+          />
+        </label>
+        {futures && (
+          <label className="flex items-center gap-1 text-xs text-muted-foreground">
+            Leverage
+            <Input
+              type="number"
+              min="1"
+              max="125"
+              step="1"
+              value={leverage}
+              onChange={(event) => setLeverage(event.target.value)}
+              className="h-8 w-16"
+            />
+          </label>
+        )}
+        <Button size="sm" className="h-8" onClick={submit} disabled={!pair || submitting}>
+          {futures ? 'Open' : 'Buy'}
+        </Button>
+      </div>
+      {!pair && <p className="text-xs text-muted-foreground">Not tracked on {market}</p>}
+      {message && (
+        <p className={`text-xs ${message.error ? 'text-destructive' : 'text-muted-foreground'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
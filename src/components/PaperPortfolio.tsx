@@ -0,0 +1,316 @@
+'use client';
+
+import { useState } from 'react';
+import { RotateCcw, Trash2, Wallet } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Market } from '@/types/trading';
+import { PaperRule, PaperSide } from '@/types/paper';
+import { formatPrice } from '@/lib/binance';
+import { usePaperPortfolio } from '@/hooks/usePaperPortfolio';
+import { EquityCurveChart } from './EquityCurveChart';
+
+const formatMoney = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const formatSigned = (value: number | null) => (value === null ? '—' : `${value > 0 ? '+' : ''}${formatMoney(value)}`);
+const pnlColor = (value: number | null) =>
+  value === null || value === 0 ? '' : value > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+
+const EMPTY_RULE = { name: '', market: 'futures' as Market, side: 'long' as PaperSide, symbols: '', margin: '100', leverage: '1', maxPositions: '1', entry: '', exit: '' };
+
+// Adds a rule: entries when `entry` turns true for a pair in scope, exits when `exit` matches
+function RuleForm({ onCreate }: { onCreate: (rule: Partial<PaperRule>) => Promise<string[] | null> }) {
+  const [form, setForm] = useState(EMPTY_RULE);
+  const [problems, setProblems] = useState<string[]>([]);
+  const update = (changes: Partial<typeof EMPTY_RULE>) => setForm(current => ({ ...current, ...changes }));
+
+  const submit = async () => {
+    const result = await onCreate({
+      name: form.name.trim() || undefined,
+      market: form.market,
+      side: form.market === 'spot' ? 'long' : form.side,
+      symbols: form.symbols.split(/[\s,]+/).filter(Boolean).map(symbol => symbol.toUpperCase()),
+      margin: Number(form.margin),
+      leverage: form.market === 'spot' ? 1 : Number(form.leverage),
+      maxPositions: Number(form.maxPositions),
+      entry: form.entry,
+      exit: form.exit,
+    });
+    setProblems(result ?? []);
+    if (!result) setForm(EMPTY_RULE);
+  };
+
+  return (
+    <div className="rounded-md border border-border p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input placeholder="Rule name" value={form.name} onChange={(event) => update({ name: event.target.value })} className="h-8 w-40" />
+        <Select value={form.market} onValueChange={(value) => update({ market: value as Market })}>
+          <SelectTrigger className="w-[110px] h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="spot">Spot</SelectItem>
+            <SelectItem value="futures">Futures</SelectItem>
+          </SelectContent>
+        </Select>
+        {form.market === 'futures' && (
+          <Select value={form.side} onValueChange={(value) => update({ side: value as PaperSide })}>
+            <SelectTrigger className="w-[100px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="long">Long</SelectItem>
+              <SelectItem value="short">Short</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+        <Input placeholder="Symbols (blank for all)" value={form.symbols} onChange={(event) => update({ symbols: event.target.value })} className="h-8 w-48" />
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          Margin
+          <Input type="number" min="0" step="any" value={form.margin} onChange={(event) => update({ margin: event.target.value })} className="h-8 w-24" />
+        </label>
+        {form.market === 'futures' && (
+          <label className="flex items-center gap-1 text-xs text-muted-foreground">
+            Leverage
+            <Input type="number" min="1" max="125" value={form.leverage} onChange={(event) => update({ leverage: event.target.value })} className="h-8 w-16" />
+          </label>
+        )}
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          Max open
+          <Input type="number" min="1" value={form.maxPositions} onChange={(event) => update({ maxPositions: event.target.value })} className="h-8 w-16" />
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input placeholder="Entry, e.g. signal=STRONG_BUY AND rsi4h<35" value={form.entry} onChange={(event) => update({ entry: event.target.value })} className="h-8 flex-1 min-w-[240px] font-mono text-xs" />
+        <Input placeholder="Exit, e.g. rsi1h>60" value={form.exit} onChange={(event) => update({ exit: event.target.value })} className="h-8 flex-1 min-w-[240px] font-mono text-xs" />
+        <Button size="sm" className="h-8" onClick={submit}>Add rule</Button>
+      </div>
+      {problems.length > 0 && (
+        <ul className="text-xs text-destructive list-disc pl-4">
+          {problems.map((problem) => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Paper account, open positions marked to market, signal rules, equity curve and trade log
+export function PaperPortfolio() {
+  const { portfolio, history, error, closePosition, createRule, updateRule, deleteRule, reset } = usePaperPortfolio();
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const run = async (action: Promise<string[] | null>) => {
+    const problems = await action;
+    setActionError(problems ? problems.join('; ') : null);
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Reset the paper portfolio? Open positions and the trade log are discarded; rules are kept.')) {
+      run(reset());
+    }
+  };
+
+  if (!portfolio) {
+    return (
+      <Card className="border-border">
+        <CardContent className="py-6 text-sm text-center text-muted-foreground">
+          {error ? `Error: ${error}` : 'Loading paper portfolio...'}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { account } = portfolio;
+  const totalReturnPct = (portfolio.equity / account.initialBalance - 1) * 100;
+  const ruleNames = new Map(portfolio.rules.map(rule => [rule.id, rule.name]));
+  const summary = [
+    { label: 'Equity', value: formatMoney(portfolio.equity) },
+    { label: 'Return', value: `${totalReturnPct > 0 ? '+' : ''}${totalReturnPct.toFixed(2)}%`, className: pnlColor(totalReturnPct) },
+    { label: 'Free balance', value: formatMoney(account.balance) },
+    { label: 'Margin in use', value: formatMoney(portfolio.marginInUse) },
+    { label: 'Unrealized P&L', value: formatSigned(portfolio.unrealizedPnl), className: pnlColor(portfolio.unrealizedPnl) },
+    { label: 'Realized P&L', value: formatSigned(account.realizedPnl), className: pnlColor(account.realizedPnl) },
+    { label: 'Fees paid', value: formatMoney(account.feesPaid) },
+  ];
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Wallet className="h-4 w-4" />
+            Paper Portfolio
+            <span className="text-xs font-normal text-muted-foreground">
+              since {new Date(account.createdAt).toLocaleString()}
+            </span>
+          </CardTitle>
+          <Button variant="outline" size="sm" className="h-8" onClick={handleReset}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(error || actionError) && <p className="text-sm text-destructive">Error: {actionError ?? error}</p>}
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
+          {summary.map((item) => (
+            <div key={item.label} className="rounded-md border border-border p-2">
+              <div className="text-xs text-muted-foreground">{item.label}</div>
+              <div className={`text-lg font-semibold font-mono ${item.className ?? ''}`}>{item.value}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Open positions</h3>
+          {portfolio.positions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No open positions. Open one from a symbol&apos;s drawer in the tables above, or add a rule.
+            </p>
+          ) : (
+            <div className="rounded-md border max-h-[400px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Side</TableHead>
+                    <TableHead className="text-right">Entry</TableHead>
+                    <TableHead className="text-right">Mark</TableHead>
+                    <TableHead className="text-right">Liquidation</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
+                    <TableHead className="text-right">P&amp;L</TableHead>
+                    <TableHead className="text-right">ROE</TableHead>
+                    <TableHead>Opened by</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {portfolio.positions.map((position) => (
+                    <TableRow key={position.id}>
+                      <TableCell className="font-mono font-medium">
+                        {position.symbol}
+                        <Badge variant="outline" className="ml-2">{position.market.toUpperCase()}</Badge>
+                      </TableCell>
+                      <TableCell className={position.side === 'long' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                        {position.side} {position.leverage}x
+                      </TableCell>
+                      <TableCell className="text-right font-mono">${formatPrice(position.entryPrice)}</TableCell>
+                      <TableCell className="text-right font-mono">{position.markPrice === null ? '—' : `$${formatPrice(position.markPrice)}`}</TableCell>
+                      <TableCell className="text-right font-mono">{position.liquidationPrice === null ? '—' : `$${formatPrice(position.liquidationPrice)}`}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMoney(position.margin)}</TableCell>
+                      <TableCell className={`text-right font-mono ${pnlColor(position.unrealizedPnl)}`}>{formatSigned(position.unrealizedPnl)}</TableCell>
+                      <TableCell className={`text-right font-mono ${pnlColor(position.roePct)}`}>
+                        {position.roePct === null ? '—' : `${position.roePct > 0 ? '+' : ''}${position.roePct.toFixed(2)}%`}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {position.ruleId ? ruleNames.get(position.ruleId) ?? 'Deleted rule' : 'Manual'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" className="h-7" onClick={() => run(closePosition(position.id))}>
+                          Close
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Rules</h3>
+          {portfolio.rules.map((rule) => (
+            <div key={rule.id} className="flex flex-wrap items-center gap-2 rounded-md border border-border px-3 py-2 text-sm">
+              <span className="font-medium">{rule.name}</span>
+              <Badge variant="outline">{rule.market.toUpperCase()}</Badge>
+              <Badge variant="outline">{rule.side} {rule.leverage}x</Badge>
+              <span className="text-xs text-muted-foreground">
+                {formatMoney(rule.margin)} margin, up to {rule.maxPositions} open, {rule.symbols.length > 0 ? rule.symbols.join(', ') : 'all pairs'}
+              </span>
+              <code className="text-xs">{rule.entry} → {rule.exit}</code>
+              <div className="ml-auto flex gap-1">
+                <Button
+                  variant={rule.enabled ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-7"
+                  onClick={() => run(updateRule(rule.id, { enabled: !rule.enabled }))}
+                >
+                  {rule.enabled ? 'Enabled' : 'Disabled'}
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7" onClick={() => run(deleteRule(rule.id))} aria-label={`Delete ${rule.name}`}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <RuleForm onCreate={createRule} />
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Equity</h3>
+          {history && history.equity.length > 0 ? (
+            <EquityCurveChart equity={history.equity} trades={[]} initialCapital={account.initialBalance} />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">Equity is recorded every 5 minutes while prices stream</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Trade log</h3>
+          {!history || history.trades.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No paper trades yet</p>
+          ) : (
+            <div className="rounded-md border max-h-[400px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Side</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Fee</TableHead>
+                    <TableHead className="text-right">Realized P&amp;L</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.trades.map((trade) => (
+                    <TableRow key={trade.id}>
+                      <TableCell className="text-xs">{new Date(trade.timestamp).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Badge variant={trade.action === 'liquidation' ? 'destructive' : 'outline'}>{trade.action}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono">{trade.symbol} <span className="text-xs text-muted-foreground">{trade.market}</span></TableCell>
+                      <TableCell>{trade.side} {trade.leverage}x</TableCell>
+                      <TableCell className="text-right font-mono">${formatPrice(trade.price)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMoney(trade.fee)}</TableCell>
+                      <TableCell className={`text-right font-mono ${pnlColor(trade.realizedPnl)}`}>{formatSigned(trade.realizedPnl)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Market } from '@/types/trading';
+import { RSIBands, RSIConfig, RSIOverrides, RSISettings } from '@/types/settings';
+import { DEFAULT_RSI_SETTINGS, resolveRSIConfig } from '@/lib/settings';
+import { RSI_TIMEFRAMES } from '@/lib/timeframes';
+
+type Scope = 'defaults' | Market;
+type Field = 'period' | keyof RSIBands;
+
+const FIELDS: { key: Field; label: string }[] = [
+  { key: 'period', label: 'Period' },
+  { key: 'strongOversold', label: 'Strong oversold' },
+  { key: 'oversold', label: 'Oversold' },
+  { key: 'overbought', label: 'Overbought' },
+  { key: 'strongOverbought', label: 'Strong overbought' },
+];
+
+interface RSISettingsPanelProps {
+  settings: RSISettings;
+  onSave: (settings: RSISettings) => Promise<string[] | null>;
+}
+
+function readField(config: RSIOverrides | RSIConfig | undefined, field: Field): number | undefined {
+  if (!config) return undefined;
+  return field === 'period' ? config.period : config.bands?.[field];
+}
+
+// Editor for RSI period and bands. Each scope (all markets, spot, futures) has a
+// row for every timeframe plus one for all of them; empty cells inherit, and the
+// placeholder shows the value that would apply.
+export function RSISettingsPanel({ settings, onSave }: RSISettingsPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState<Scope>('defaults');
+  const [draft, setDraft] = useState<RSISettings>(settings);
+  const [saving, setSaving] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  // Overrides object edited by a row (undefined when nothing is set there yet)
+  const overridesFor = (source: RSISettings, timeframe: string | null): RSIOverrides | undefined => {
+    if (scope === 'defaults') return timeframe ? source.timeframes[timeframe] : source;
+    const marketOverrides = source.markets[scope];
+    return timeframe ? marketOverrides?.timeframes?.[timeframe] : marketOverrides;
+  };
+
+  // Value a row's empty cell falls back to; market-wide rows show the all-markets values
+  const inherited = (timeframe: string | null): RSIConfig => {
+    if (scope === 'defaults' || !timeframe) return draft;
+    const marketOverrides = draft.markets[scope] ?? {};
+    return resolveRSIConfig({ ...draft, markets: { [scope]: { ...marketOverrides, timeframes: {} } } }, scope, timeframe);
+  };
+
+  const updateField = (timeframe: string | null, field: Field, raw: string) => {
+    const next: RSISettings = structuredClone(draft);
+    const value = raw === '' ? undefined : Number(raw);
+
+    // The all-timeframes defaults row can't be empty; clearing it restores the default
+    if (scope === 'defaults' && !timeframe) {
+      if (field === 'period') next.period = value ?? DEFAULT_RSI_SETTINGS.period;
+      else next.bands[field] = value ?? DEFAULT_RSI_SETTINGS.bands[field];
+      setDraft(next);
+      return;
+    }
+
+    let target = overridesFor(next, timeframe);
+    if (!target) {
+      target = {};
+      if (scope === 'defaults') {
+        next.timeframes[timeframe as string] = target;
+      } else {
+        const marketOverrides = next.markets[scope] ?? {};
+        next.markets[scope] = marketOverrides;
+        if (timeframe) {
+          marketOverrides.timeframes = { ...marketOverrides.timeframes, [timeframe]: target };
+        } else {
+          target = marketOverrides;
+        }
+      }
+    }
+
+    if (field === 'period') {
+      target.period = value;
+      if (value === undefined) delete target.period;
+    } else {
+      target.bands = { ...target.bands, [field]: value };
+      if (value === undefined) delete target.bands[field];
+      if (Object.keys(target.bands).length === 0) delete target.bands;
+    }
+    setDraft(next);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      setProblems((await onSave(draft)) ?? []);
+    } catch (error) {
+      setProblems([error instanceof Error ? error.message : 'Failed to save settings']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <Settings2 className="h-4 w-4 mr-2" />
+        RSI Settings
+      </Button>
+    );
+  }
+
+  const rows: (string | null)[] = [null, ...RSI_TIMEFRAMES];
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg">RSI Settings</CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={scope} onValueChange={(value) => setScope(value as Scope)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="defaults">All markets</SelectItem>
+                <SelectItem value="spot">Spot overrides</SelectItem>
+                <SelectItem value="futures">Futures overrides</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => setDraft(DEFAULT_RSI_SETTINGS)}>
+              Reset
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+              Close
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Timeframe</TableHead>
+              {FIELDS.map(({ key, label }) => (
+                <TableHead key={key}>{label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((timeframe) => {
+              const overrides = overridesFor(draft, timeframe);
+              const fallback = inherited(timeframe);
+              return (
+                <TableRow key={timeframe ?? 'all'}>
+                  <TableCell className="font-medium">{timeframe ?? 'All timeframes'}</TableCell>
+                  {FIELDS.map(({ key }) => (
+                    <TableCell key={key}>
+                      <Input
+                        type="number"
+                        min={key === 'period' ? 2 : 0}
+                        max={100}
+                        className="h-8 w-20"
+                        value={readField(overrides, key) ?? ''}
+                        placeholder={String(readField(fallback, key) ?? '')}
+                        onChange={(event) => updateField(timeframe, key, event.target.value)}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground">
+          Empty cells inherit the placeholder value. Market overrides apply on top of the all-markets settings.
+        </p>
+        {problems.length > 0 && (
+          <ul className="text-sm text-destructive list-disc pl-5">
+            {problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
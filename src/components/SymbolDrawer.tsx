@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Market, TradingPair } from '@/types/trading';
+import { RSISettings } from '@/types/settings';
+import { formatChange, formatPrice, formatVolume } from '@/lib/binance';
+import { INDICATOR_TIMEFRAME, RSI_TIMEFRAMES } from '@/lib/timeframes';
+import { resolveRSIConfig } from '@/lib/settings';
+import { useSymbolDetail } from '@/hooks/useSymbolDetail';
+import { CandlestickChart } from './CandlestickChart';
+import { PaperOrderTicket } from './PaperOrderTicket';
+import { getSignalColor } from './columns';
+
+const MARKETS: Market[] = ['spot', 'futures'];
+
+interface SymbolDrawerProps {
+  symbol: string | null;
+  market: Market;
+  rsiSettings: RSISettings;
+  livePairs: TradingPair[]; // Rows of the table that opened the drawer, kept live by its stream
+  onClose: () => void;
+}
+
+// Rows of the spot vs futures comparison
+const COMPARISON: { label: string; value: (pair: TradingPair) => React.ReactNode }[] = [
+  { label: 'Price', value: pair => formatPrice(pair.price) },
+  { label: '24h Change', value: pair => formatChange(pair.change24h) },
+  { label: '24h High', value: pair => formatPrice(pair.high24h) },
+  { label: '24h Low', value: pair => formatPrice(pair.low24h) },
+  { label: '24h Volume', value: pair => formatVolume(pair.volume24h) },
+  ...RSI_TIMEFRAMES.map(timeframe => ({
+    label: `${timeframe} RSI`,
+    value: (pair: TradingPair) => pair.rsi[timeframe]?.toFixed(2) ?? 'N/A',
+  })),
+  {
+    label: 'Signal',
+    value: pair => <Badge className={getSignalColor(pair.signal)}>{pair.signal.replace('_', ' ')}</Badge>,
+  },
+  { label: 'Score', value: pair => pair.confluence.score },
+];
+
+// Slide-over with the stored candles and RSI of one symbol, how it trades on
+// spot and futures right now, and a ticket for opening a paper position. The
+// comparison prefers the table's live rows; /api/symbol (polled every minute)
+// fills in the market the table doesn't stream.
+export function SymbolDrawer({ symbol, market: initialMarket, rsiSettings, livePairs, onClose }: SymbolDrawerProps) {
+  const [market, setMarket] = useState<Market>(initialMarket);
+  const [interval, setTimeframe] = useState(INDICATOR_TIMEFRAME);
+  const spot = useSymbolDetail(symbol, 'spot', interval);
+  const futures = useSymbolDetail(symbol, 'futures', interval);
+  const details = { spot, futures };
+  const { detail, error, loading } = details[market];
+  const pairFor = (option: Market): TradingPair | null =>
+    livePairs.find(pair => pair.market === option && pair.symbol === symbol) ?? details[option].detail?.pair ?? null;
+
+  useEffect(() => {
+    setMarket(initialMarket);
+  }, [symbol, initialMarket]);
+
+  useEffect(() => {
+    if (!symbol) return;
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [symbol, onClose]);
+
+  if (!symbol) return null;
+
+  const { bands } = resolveRSIConfig(rsiSettings, market, interval);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} aria-hidden="true" />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label={`${symbol} details`}
+        className="relative h-full w-full max-w-3xl overflow-y-auto bg-background border-l border-border shadow-xl p-6 space-y-4 animate-in slide-in-from-right"
+      >
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <h2 className="text-2xl font-bold font-mono">{symbol}</h2>
+            {loading && <span className="text-xs text-muted-foreground">Loading...</span>}
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex gap-1">
+            {MARKETS.map((option) => (
+              <Button
+                key={option}
+                variant={option === market ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setMarket(option)}
+              >
+                {option.toUpperCase()}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            {RSI_TIMEFRAMES.map((timeframe) => (
+              <Button
+                key={timeframe}
+                variant={timeframe === interval ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setTimeframe(timeframe)}
+              >
+                {timeframe}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-destructive text-center py-12">{error}</p>
+        ) : detail ? (
+          <CandlestickChart
+            candles={detail.candles}
+            rsi={detail.rsiSeries}
+            bands={bands}
+            rsiPeriod={detail.rsiPeriod}
+          />
+        ) : (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead></TableHead>
+              {MARKETS.map((option) => (
+                <TableHead key={option}>{option.toUpperCase()}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {COMPARISON.map(({ label, value }) => (
+              <TableRow key={label}>
+                <TableCell className="font-medium">{label}</TableCell>
+                {MARKETS.map((option) => {
+                  const pair = pairFor(option);
+                  return (
+                    <TableCell key={option} className="font-mono">
+                      {pair ? value(pair) : <span className="text-muted-foreground">{details[option].error ? 'Not tracked' : '—'}</span>}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <PaperOrderTicket key={`${market}:${symbol}`} market={market} pair={pairFor(market)} />
+      </aside>
+    </div>
+  );
+}
@@ -15,6 +15,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { TradingPair } from '@/types/trading';
 import { formatPrice, formatVolume, formatChange } from '@/lib/binance';
 import { TrendingUp, TrendingDown, Activity } from 'lucide-react';
+import { RSI_TIMEFRAMES } from '@/lib/timeframes';
+import { DEFAULT_RSI_SETTINGS } from '@/lib/settings';
 
 interface TradingTableProps {
   title: string;
@@ -120,9 +122,9 @@ export function TradingTable({ title, apiEndpoint, market }: TradingTableProps)
   };
 
   const getRSIColor = (rsi: number | null) => {
-    if (!rsi) return 'text-muted-foreground';
-    if (rsi <= 30) return 'text-green-500 font-bold';
-    if (rsi >= 70) return 'text-red-500 font-bold';
+    if (rsi === null) return 'text-muted-foreground';
+    if (rsi <= DEFAULT_RSI_SETTINGS.bands.oversold) return 'text-green-500 font-bold';
+    if (rsi >= DEFAULT_RSI_SETTINGS.bands.overbought) return 'text-red-500 font-bold';
     return 'text-foreground';
   };
 
@@ -188,9 +190,9 @@ export function TradingTable({ title, apiEndpoint, market }: TradingTableProps)
               <TableHead>Price</TableHead>
               <TableHead>24h Volume</TableHead>
               <TableHead>24h Change</TableHead>
-              <TableHead>1h RSI</TableHead>
-              <TableHead>4h RSI</TableHead>
-              <TableHead>1d RSI</TableHead>
+              {RSI_TIMEFRAMES.map(timeframe => (
+                <TableHead key={timeframe}>{timeframe} RSI</TableHead>
+              ))}
               <TableHead>Signal</TableHead>
             </TableRow>
           </TableHeader>
@@ -230,26 +232,15 @@ export function TradingTable({ title, apiEndpoint, market }: TradingTableProps)
                   </div>
                 </AnimatedCell>
                 
-                <AnimatedCell 
-                  value={pair.rsi1h || 0} 
-                  className={getRSIColor(pair.rsi1h)}
-                >
-                  {pair.rsi1h?.toFixed(2) ?? 'N/A'}
-                </AnimatedCell>
-                
-                <AnimatedCell 
-                  value={pair.rsi4h || 0} 
-                  className={getRSIColor(pair.rsi4h)}
-                >
-                  {pair.rsi4h?.toFixed(2) ?? 'N/A'}
-                </AnimatedCell>
-                
-                <AnimatedCell 
-                  value={pair.rsi1d || 0} 
-                  className={getRSIColor(pair.rsi1d)}
-                >
-                  {pair.rsi1d?.toFixed(2) ?? 'N/A'}
-                </AnimatedCell>
+                {RSI_TIMEFRAMES.map(timeframe => (
+                  <AnimatedCell 
+                    key={timeframe}
+                    value={pair.rsi[timeframe] || 0} 
+                    className={getRSIColor(pair.rsi[timeframe] ?? null)}
+                  >
+                    {pair.rsi[timeframe]?.toFixed(2) ?? 'N/A'}
+                  </AnimatedCell>
+                ))}
                 
                 <AnimatedCell value={pair.signal}>
                   <Badge className={getSignalColor(pair.signal)}>
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowRight, History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Market, SignalTransition, TransitionKind } from '@/types/trading';
+import { formatPrice } from '@/lib/binance';
+import { useTransitionFeed } from '@/hooks/useTransitionFeed';
+import { getSignalColor } from './columns';
+
+const describeValue = (event: SignalTransition) =>
+  event.kind === 'rsi_zone' ? `RSI ${event.value.toFixed(2)}` : `score ${event.value > 0 ? '+' : ''}${event.value}`;
+
+// Live list of the latest signal and RSI zone changes
+export function TransitionFeed() {
+  const [market, setMarket] = useState<Market | 'all'>('all');
+  const [kind, setKind] = useState<TransitionKind | 'all'>('all');
+  const { events, live, error } = useTransitionFeed({
+    market: market === 'all' ? undefined : market,
+    kind: kind === 'all' ? undefined : kind,
+  });
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Signal History
+            <span
+              className={`h-2 w-2 rounded-full ${live ? 'bg-green-500' : 'bg-gray-400'}`}
+              title={live ? 'Live' : 'Reconnecting...'}
+            />
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={market} onValueChange={(value) => setMarket(value as Market | 'all')}>
+              <SelectTrigger className="w-[120px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All markets</SelectItem>
+                <SelectItem value="spot">Spot</SelectItem>
+                <SelectItem value="futures">Futures</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={kind} onValueChange={(value) => setKind(value as TransitionKind | 'all')}>
+              <SelectTrigger className="w-[150px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All changes</SelectItem>
+                <SelectItem value="signal">Pair signal</SelectItem>
+                <SelectItem value="rsi_zone">Timeframe RSI zone</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {error && <p className="text-sm text-destructive mb-2">Error: {error}</p>}
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No signal changes recorded yet</p>
+        ) : (
+          <ul className="divide-y divide-border max-h-80 overflow-y-auto">
+            {events.map((event) => (
+              <li key={event.id} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+                <span className="text-xs text-muted-foreground w-36 shrink-0">
+                  {new Date(event.timestamp).toLocaleString()}
+                </span>
+                <span className="font-mono font-semibold">{event.symbol}</span>
+                <Badge variant="outline" className="text-xs">{event.market.toUpperCase()}</Badge>
+                <span className="text-xs text-muted-foreground">{event.timeframe ?? 'signal'}</span>
+                <Badge className={getSignalColor(event.from)}>{event.from.replace('_', ' ')}</Badge>
+                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                <Badge className={getSignalColor(event.to)}>{event.to.replace('_', ' ')}</Badge>
+                <span className="ml-auto font-mono text-xs text-muted-foreground">
+                  {describeValue(event)} · {formatPrice(event.price)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
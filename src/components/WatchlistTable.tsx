@@ -0,0 +1,323 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ColumnDef } from '@tanstack/react-table';
+import { Download, Plus, Star, Trash2, Upload, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Market, TradingPair } from '@/types/trading';
+import { RSISettings } from '@/types/settings';
+import { SkippedEntry, WatchlistEntry, WatchlistFormat } from '@/types/watchlists';
+import { matchesScreener } from '@/lib/screener';
+import { useWatchlistView, useWatchlists } from '@/hooks/useWatchlists';
+import { DataTable } from './DataTable';
+import { SymbolDrawer } from './SymbolDrawer';
+import { createColumns, defaultColumnVisibility, rangeFilterColumns } from './columns';
+
+const EXPORT_FORMATS: { format: WatchlistFormat; label: string }[] = [
+  { format: 'tradingview', label: 'TradingView (.txt)' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+// Extension of an uploaded file -> its format; others are left to the server to detect
+const IMPORT_FORMATS: Record<string, WatchlistFormat> = {
+  txt: 'tradingview',
+  csv: 'csv',
+  json: 'json',
+};
+
+interface WatchlistTableProps {
+  rsiSettings: RSISettings;
+}
+
+// Saved symbol lists shown with live RSI; the server keeps every listed symbol
+// streaming even when it drops out of the top 50 by volume
+export function WatchlistTable({ rsiSettings }: WatchlistTableProps) {
+  const { watchlists, error: listError, createWatchlist, updateWatchlist, deleteWatchlist, importWatchlist } = useWatchlists();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { view, error: viewError, refresh } = useWatchlistView(selectedId);
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [addMarket, setAddMarket] = useState<Market>('spot');
+  const [addSymbol, setAddSymbol] = useState('');
+  const [problems, setProblems] = useState<string[]>([]);
+  const [detail, setDetail] = useState<WatchlistEntry | null>(null);
+  const [importNote, setImportNote] = useState<{ imported: number; skipped: SkippedEntry[] } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const selected = watchlists.find(watchlist => watchlist.id === selectedId) ?? null;
+  const closeDetail = useCallback(() => setDetail(null), []);
+
+  // Keep a valid selection as lists are created and deleted
+  useEffect(() => {
+    if (!selected && watchlists.length > 0) setSelectedId(watchlists[0].id);
+    if (watchlists.length === 0) setSelectedId(null);
+  }, [selected, watchlists]);
+
+  const saveEntries = useCallback(async (entries: WatchlistEntry[]) => {
+    if (!selectedId) return false;
+    const result = await updateWatchlist(selectedId, { entries });
+    setProblems(result.problems ?? []);
+    refresh();
+    return result.problems === null;
+  }, [selectedId, updateWatchlist, refresh]);
+
+  const handleCreate = async () => {
+    const result = await createWatchlist({ name: newName, entries: [] });
+    setProblems(result.problems ?? []);
+    if (result.watchlist) {
+      setSelectedId(result.watchlist.id);
+      setNewName('');
+      setCreating(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!selected || !addSymbol.trim()) return;
+    const saved = await saveEntries([...selected.entries, { market: addMarket, symbol: addSymbol }]);
+    if (saved) setAddSymbol('');
+  };
+
+  const handleImport = async (file: File) => {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const name = file.name.replace(/\.[^.]+$/, '');
+    const result = await importWatchlist(await file.text(), name, IMPORT_FORMATS[extension]);
+    setProblems(result.problems ?? []);
+    setImportNote(result.report ? { imported: result.report.imported, skipped: result.report.skipped } : null);
+    if (result.report) setSelectedId(result.report.watchlist.id);
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete watchlist "${selected.name}"?`)) return;
+    await deleteWatchlist(selected.id);
+    setSelectedId(null);
+  };
+
+  const columns = useMemo<ColumnDef<TradingPair>[]>(() => [
+    ...createColumns(rsiSettings, null),
+    {
+      accessorKey: 'market',
+      header: 'Market',
+      cell: ({ row }) => <Badge variant="outline" className="text-xs">{row.original.market.toUpperCase()}</Badge>,
+    },
+    {
+      id: 'remove',
+      enableHiding: false,
+      header: '',
+      cell: ({ row }) => (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          aria-label={`Remove ${row.original.symbol}`}
+          onClick={(event) => {
+            event.stopPropagation();
+            saveEntries((selected?.entries ?? []).filter(entry =>
+              entry.market !== row.original.market || entry.symbol !== row.original.symbol
+            ));
+          }}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      ),
+    },
+  ], [rsiSettings, selected, saveEntries]);
+
+  const error = listError ?? viewError;
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Star className="h-4 w-4" />
+            Watchlists
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            {watchlists.length > 0 && (
+              <Select value={selectedId ?? ''} onValueChange={setSelectedId}>
+                <SelectTrigger className="w-[180px] h-8">
+                  <SelectValue placeholder="Pick a watchlist" />
+                </SelectTrigger>
+                <SelectContent>
+                  {watchlists.map((watchlist) => (
+                    <SelectItem key={watchlist.id} value={watchlist.id}>
+                      {watchlist.name} ({watchlist.entries.length})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {creating ? (
+              <form
+                className="flex items-center gap-1"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  handleCreate();
+                }}
+              >
+                <Input
+                  autoFocus
+                  placeholder="Watchlist name"
+                  value={newName}
+                  onChange={(event) => setNewName(event.target.value)}
+                  className="h-8 w-[160px]"
+                />
+                <Button type="submit" size="sm" className="h-8">Create</Button>
+                <Button type="button" variant="ghost" size="sm" className="h-8" onClick={() => setCreating(false)}>
+                  Cancel
+                </Button>
+              </form>
+            ) : (
+              <Button variant="outline" size="sm" className="h-8" onClick={() => setCreating(true)}>
+                <Plus className="h-3 w-3 mr-1" />
+                New
+              </Button>
+            )}
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".txt,.csv,.json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) handleImport(file);
+                event.target.value = '';
+              }}
+            />
+            <Button variant="outline" size="sm" className="h-8" onClick={() => fileInput.current?.click()}>
+              <Upload className="h-3 w-3 mr-1" />
+              Import
+            </Button>
+            {selected && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-8">
+                    <Download className="h-3 w-3 mr-1" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <DropdownMenuItem key={format} asChild>
+                      <a href={`/api/watchlists/${selected.id}/export?format=${format}`} download>
+                        {label}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {selected && (
+              <Button variant="outline" size="sm" className="h-8" onClick={handleDelete} aria-label="Delete watchlist">
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {selected && (
+          <form
+            className="flex flex-wrap items-center gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              handleAdd();
+            }}
+          >
+            <Select value={addMarket} onValueChange={(value) => setAddMarket(value as Market)}>
+              <SelectTrigger className="w-[110px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="spot">Spot</SelectItem>
+                <SelectItem value="futures">Futures</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Symbol, e.g. BTCUSDT"
+              value={addSymbol}
+              onChange={(event) => setAddSymbol(event.target.value)}
+              className="h-8 w-[180px] font-mono uppercase"
+            />
+            <Button type="submit" size="sm" className="h-8" disabled={!addSymbol.trim()}>
+              Add
+            </Button>
+            {view && view.pending.length > 0 && (
+              <span className="text-xs text-muted-foreground">
+                Waiting for data: {view.pending.map(entry => `${entry.symbol} (${entry.market})`).join(', ')}
+              </span>
+            )}
+          </form>
+        )}
+
+        {importNote && (
+          <div className="text-sm space-y-1">
+            <div className="flex items-center gap-2">
+              <span>
+                Imported {importNote.imported} symbol{importNote.imported === 1 ? '' : 's'}
+                {importNote.skipped.length > 0 && `, skipped ${importNote.skipped.length}:`}
+              </span>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setImportNote(null)} aria-label="Dismiss">
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+            {importNote.skipped.length > 0 && (
+              <ul className="text-xs text-muted-foreground max-h-24 overflow-y-auto">
+                {importNote.skipped.map((entry, index) => (
+                  <li key={index}>
+                    <span className="font-mono">{entry.text}</span> — {entry.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        {error && <p className="text-sm text-destructive">Error: {error}</p>}
+        {problems.map((problem) => (
+          <p key={problem} className="text-sm text-destructive">{problem}</p>
+        ))}
+      </CardHeader>
+
+      <CardContent className="pt-0">
+        {!selected ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Create or import a watchlist to keep symbols on the dashboard whatever their volume
+          </p>
+        ) : (
+          <DataTable
+            columns={columns}
+            data={view?.pairs ?? []}
+            searchPlaceholder={`Search ${selected.name}...`}
+            initialColumnVisibility={defaultColumnVisibility}
+            onRowClick={(pair) => setDetail({ market: pair.market, symbol: pair.symbol })}
+            matchesExpression={matchesScreener}
+            rangeFilters={rangeFilterColumns}
+          />
+        )}
+      </CardContent>
+      <SymbolDrawer
+        symbol={detail?.symbol ?? null}
+        market={detail?.market ?? 'spot'}
+        rsiSettings={rsiSettings}
+        livePairs={view?.pairs ?? []}
+        onClose={closeDetail}
+      />
+    </Card>
+  );
+}
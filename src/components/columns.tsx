@@ -1,14 +1,21 @@
 'use client';
 
-import { ColumnDef } from '@tanstack/react-table';
+import { ColumnDef, VisibilityState } from '@tanstack/react-table';
 import { ArrowUpDown, TrendingUp, TrendingDown, Activity } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { TradingPair } from '@/types/trading';
+import { Divergence, DivergenceKind, Market, TradingPair } from '@/types/trading';
+import { IndicatorFormat } from '@/types/indicators';
+import { RSIBands, RSISettings } from '@/types/settings';
 import { formatPrice, formatVolume, formatChange } from '@/lib/binance';
+import { INDICATOR_TIMEFRAME, RSI_TIMEFRAMES, rsiColumnId } from '@/lib/timeframes';
+import { INDICATOR_OUTPUTS } from '@/lib/indicators';
+import { SIGNAL_POLICY } from '@/lib/signals';
+import { resolveRSIConfig } from '@/lib/settings';
+import { RangeFilterColumn, numberRangeFilter } from './DataTable';
 
 // Helper function to get signal color
-const getSignalColor = (signal: TradingPair['signal']) => {
+export const getSignalColor = (signal: TradingPair['signal']) => {
   switch (signal) {
     case 'STRONG_BUY':
       return 'bg-green-600 text-white hover:bg-green-700';
@@ -30,15 +37,114 @@ const getChangeIcon = (change: number) => {
   return <Activity className="w-4 h-4 text-gray-500" />;
 };
 
-// Helper function to get RSI color
-const getRSIColor = (rsi: number | null) => {
-  if (!rsi) return 'text-muted-foreground';
-  if (rsi <= 30) return 'text-green-500 font-bold';
-  if (rsi >= 70) return 'text-red-500 font-bold';
+// Helper function to get RSI color (0 is a real, extremely oversold reading)
+const getRSIColor = (rsi: number | null, bands: RSIBands) => {
+  if (rsi === null) return 'text-muted-foreground';
+  if (rsi <= bands.oversold) return 'text-green-500 font-bold';
+  if (rsi >= bands.overbought) return 'text-red-500 font-bold';
   return 'text-foreground';
 };
 
-export const columns: ColumnDef<TradingPair>[] = [
+// One sortable RSI column per configured timeframe, colored with the row's market's bands
+// for that timeframe. Mixed-market tables (market null) leave the bands out of the header.
+const createRSIColumns = (settings: RSISettings, market: Market | null): ColumnDef<TradingPair>[] => RSI_TIMEFRAMES.map(timeframe => {
+  const configs = {
+    spot: resolveRSIConfig(settings, 'spot', timeframe),
+    futures: resolveRSIConfig(settings, 'futures', timeframe),
+  };
+  const headerConfig = market ? configs[market] : null;
+  return {
+    id: rsiColumnId(timeframe),
+    accessorFn: (pair: TradingPair) => pair.rsi[timeframe] ?? null,
+    filterFn: numberRangeFilter,
+    header: ({ column }) => {
+      return (
+        <Button
+          variant="ghost"
+          onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+          className="p-0 hover:bg-transparent"
+          title={headerConfig
+            ? `RSI(${headerConfig.period}) · oversold ≤ ${headerConfig.bands.oversold} · overbought ≥ ${headerConfig.bands.overbought}`
+            : undefined}
+        >
+          {timeframe} RSI
+          <ArrowUpDown className="ml-2 h-4 w-4" />
+        </Button>
+      );
+    },
+    cell: ({ getValue, row }) => {
+      const rsi = getValue() as number | null;
+      return (
+        <div className={getRSIColor(rsi, configs[row.original.market].bands)}>
+          {rsi?.toFixed(2) ?? 'N/A'}
+        </div>
+      );
+    },
+  };
+});
+
+const DIVERGENCE_LABELS: Record<DivergenceKind, string> = {
+  regular_bullish: 'Bull',
+  hidden_bullish: 'Hidden bull',
+  regular_bearish: 'Bear',
+  hidden_bearish: 'Hidden bear',
+};
+
+// Tooltip text: the kind, then price and RSI at both pivots
+const describeDivergence = ({ kind, timeframe, pivots }: Divergence) => {
+  const pivotText = pivots.map(pivot =>
+    `${new Date(pivot.time).toLocaleString()}: ${formatPrice(pivot.price)} · RSI ${pivot.rsi.toFixed(2)}`
+  );
+  return [`${kind.replace('_', ' ')} divergence on ${timeframe}`, ...pivotText].join('\n');
+};
+
+// Helper function to format an indicator output
+const formatIndicator = (value: number, format: IndicatorFormat) => {
+  if (format === 'price') return formatPrice(value);
+  if (format === 'percent') return `${value.toFixed(2)}%`;
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+};
+
+// One sortable column per indicator output, hidden until enabled from the Columns menu
+const indicatorColumns: ColumnDef<TradingPair>[] = INDICATOR_OUTPUTS.map(output => ({
+  id: output.key,
+  accessorFn: (pair: TradingPair) => pair.indicators?.[output.key] ?? null,
+  header: ({ column }) => {
+    return (
+      <Button
+        variant="ghost"
+        onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+        className="p-0 hover:bg-transparent"
+      >
+        {output.label} ({INDICATOR_TIMEFRAME})
+        <ArrowUpDown className="ml-2 h-4 w-4" />
+      </Button>
+    );
+  },
+  cell: ({ getValue }) => {
+    const value = getValue() as number | null;
+    return (
+      <div className={value === null ? 'text-muted-foreground' : 'font-mono'}>
+        {value === null ? 'N/A' : formatIndicator(value, output.format)}
+      </div>
+    );
+  },
+}));
+
+// Columns with min/max inputs in the table's Ranges panel
+export const rangeFilterColumns: RangeFilterColumn[] = [
+  ...RSI_TIMEFRAMES.map(timeframe => ({ id: rsiColumnId(timeframe), label: `${timeframe} RSI` })),
+  { id: 'price', label: 'Price' },
+  { id: 'volume24h', label: '24h Volume' },
+  { id: 'change24h', label: '24h Change %' },
+];
+
+export const defaultColumnVisibility: VisibilityState = Object.fromEntries(
+  INDICATOR_OUTPUTS.map(output => [output.key, false])
+);
+
+// Columns for one market's table (or null for a mixed one); RSI coloring follows the given settings
+export const createColumns = (settings: RSISettings, market: Market | null): ColumnDef<TradingPair>[] => [
   {
     accessorKey: 'symbol',
     header: ({ column }) => {
@@ -60,6 +166,7 @@ export const columns: ColumnDef<TradingPair>[] = [
   },
   {
     accessorKey: 'price',
+    filterFn: numberRangeFilter,
     header: ({ column }) => {
       return (
         <Button
@@ -79,6 +186,7 @@ export const columns: ColumnDef<TradingPair>[] = [
   },
   {
     accessorKey: 'volume24h',
+    filterFn: numberRangeFilter,
     header: ({ column }) => {
       return (
         <Button
@@ -98,6 +206,7 @@ export const columns: ColumnDef<TradingPair>[] = [
   },
   {
     accessorKey: 'change24h',
+    filterFn: numberRangeFilter,
     header: ({ column }) => {
       return (
         <Button
@@ -130,54 +239,26 @@ export const columns: ColumnDef<TradingPair>[] = [
       );
     },
   },
+  ...createRSIColumns(settings, market),
+  ...indicatorColumns,
   {
-    accessorKey: 'rsi1h',
-    header: ({ column }) => {
-      return (
-        <Button
-          variant="ghost"
-          onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
-          className="p-0 hover:bg-transparent"
-        >
-          1h RSI
-          <ArrowUpDown className="ml-2 h-4 w-4" />
-        </Button>
-      );
-    },
+    accessorKey: 'signal',
+    header: 'Signal',
     cell: ({ row }) => {
-      const rsi = row.getValue('rsi1h') as number | null;
-      return (
-        <div className={getRSIColor(rsi)}>
-          {rsi?.toFixed(2) ?? 'N/A'}
-        </div>
-      );
-    },
-  },
-  {
-    accessorKey: 'rsi4h',
-    header: ({ column }) => {
+      const signal = row.getValue('signal') as TradingPair['signal'];
       return (
-        <Button
-          variant="ghost"
-          onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
-          className="p-0 hover:bg-transparent"
-        >
-          4h RSI
-          <ArrowUpDown className="ml-2 h-4 w-4" />
-        </Button>
+        <Badge className={getSignalColor(signal)} title={row.original.confluence?.explanation}>
+          {signal.replace('_', ' ')}
+        </Badge>
       );
     },
-    cell: ({ row }) => {
-      const rsi = row.getValue('rsi4h') as number | null;
-      return (
-        <div className={getRSIColor(rsi)}>
-          {rsi?.toFixed(2) ?? 'N/A'}
-        </div>
-      );
+    filterFn: (row, id, value: string[]) => {
+      return value.includes(row.getValue(id));
     },
   },
   {
-    accessorKey: 'rsi1d',
+    id: 'confluenceScore',
+    accessorFn: (pair) => pair.confluence?.score ?? 0,
     header: ({ column }) => {
       return (
         <Button
@@ -185,33 +266,73 @@ export const columns: ColumnDef<TradingPair>[] = [
           onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
           className="p-0 hover:bg-transparent"
         >
-          1d RSI
+          Score
           <ArrowUpDown className="ml-2 h-4 w-4" />
         </Button>
       );
     },
     cell: ({ row }) => {
-      const rsi = row.getValue('rsi1d') as number | null;
+      const score = row.getValue('confluenceScore') as number;
+      const confluence = row.original.confluence;
       return (
-        <div className={getRSIColor(rsi)}>
-          {rsi?.toFixed(2) ?? 'N/A'}
+        <div className="flex flex-col" title={confluence?.explanation}>
+          <span
+            className={
+              score > 0
+                ? 'font-mono text-green-500'
+                : score < 0
+                ? 'font-mono text-red-500'
+                : 'font-mono text-muted-foreground'
+            }
+          >
+            {score > 0 ? `+${score}` : score}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {confluence?.strength ?? 0}% agree
+          </span>
         </div>
       );
     },
+    // Filter values: 'bullish' | 'bearish' | 'strong-bullish' | 'strong-bearish'
+    filterFn: (row, id, value: string) => {
+      const score = row.getValue(id) as number;
+      switch (value) {
+        case 'bullish':
+          return score > 0;
+        case 'bearish':
+          return score < 0;
+        case 'strong-bullish':
+          return score >= SIGNAL_POLICY.strongScore;
+        case 'strong-bearish':
+          return score <= -SIGNAL_POLICY.strongScore;
+        default:
+          return true;
+      }
+    },
   },
   {
-    accessorKey: 'signal',
-    header: 'Signal',
+    accessorKey: 'divergences',
+    header: 'Divergence',
+    enableSorting: false,
     cell: ({ row }) => {
-      const signal = row.getValue('signal') as TradingPair['signal'];
+      const divergences = row.original.divergences ?? [];
+      if (divergences.length === 0) {
+        return <span className="text-muted-foreground">—</span>;
+      }
       return (
-        <Badge className={getSignalColor(signal)}>
-          {signal.replace('_', ' ')}
-        </Badge>
+        <div className="flex flex-wrap gap-1">
+          {divergences.map((divergence) => (
+            <Badge
+              key={`${divergence.timeframe}-${divergence.kind}`}
+              variant="outline"
+              className={divergence.kind.endsWith('bullish') ? 'border-green-500 text-green-500' : 'border-red-500 text-red-500'}
+              title={describeDivergence(divergence)}
+            >
+              {DIVERGENCE_LABELS[divergence.kind]} {divergence.timeframe}
+            </Badge>
+          ))}
+        </div>
       );
     },
-    filterFn: (row, id, value) => {
-      return value.includes(row.getValue(id));
-    },
   },
 ]; 
\ No newline at end of file
@@ -0,0 +1,35 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { BacktestReport, BacktestRequest } from '@/types/backtest';
+
+// Runs POST /api/backtest; problems holds the server's reasons when it rejects the request
+export function useBacktest() {
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const run = useCallback(async (request: BacktestRequest) => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/backtest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setProblems(data.details ?? [data.error ?? `API Error: ${response.status} - ${response.statusText}`]);
+        return;
+      }
+      setReport(data);
+      setProblems([]);
+    } catch (err) {
+      setProblems([err instanceof Error ? err.message : 'Failed to run backtest']);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { report, problems, loading, run };
+}
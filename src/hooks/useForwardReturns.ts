@@ -0,0 +1,48 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Market, TransitionKind } from '@/types/trading';
+import { ForwardReturnDimension, ForwardReturnReport } from '@/types/analytics';
+
+export interface ForwardReturnFilter {
+  groupBy: ForwardReturnDimension[];
+  market?: Market;
+  kind?: TransitionKind;
+}
+
+// Forward-return report from /api/analytics/forward-returns. The server job runs
+// hourly, so this loads on filter changes; refresh() asks the server to rerun it.
+export function useForwardReturns({ groupBy, market, kind }: ForwardReturnFilter) {
+  const [report, setReport] = useState<ForwardReturnReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const groupKey = groupBy.join(',');
+
+  const load = useCallback(async (rerun: boolean) => {
+    const params = new URLSearchParams({ groupBy: groupKey });
+    if (market) params.set('market', market);
+    if (kind) params.set('kind', kind);
+    if (rerun) params.set('refresh', '1');
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/analytics/forward-returns?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error ?? `API Error: ${response.status} - ${response.statusText}`);
+      setReport(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load forward returns');
+    } finally {
+      setLoading(false);
+    }
+  }, [groupKey, market, kind]);
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return { report, error, loading, refresh };
+}
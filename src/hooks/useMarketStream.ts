@@ -0,0 +1,115 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Market, TradingPair, WebSocketMessage } from '@/types/trading';
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+export type StreamStatus = 'connecting' | 'open' | 'paused';
+
+// Live pairs for a market from /api/stream. EventSource reconnects by itself and
+// sends Last-Event-ID so the server replays missed deltas; when it gives up (the
+// server answered with an error) we reconnect with backoff, passing the id along.
+export function useMarketStream(market: Market, limit: number = 50, enabled: boolean = true) {
+  const [pairs, setPairs] = useState<TradingPair[]>([]);
+  const [status, setStatus] = useState<StreamStatus>('connecting');
+  const [connected, setConnected] = useState(true); // Exchange feed, as reported by the server
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
+  const [generation, setGeneration] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('paused');
+      return;
+    }
+
+    // Resuming only makes sense into the same map, so every run starts from a snapshot
+    const pairsBySymbol: Map<string, TradingPair> = new Map();
+    let lastEventId: string | null = null;
+    let source: EventSource | null = null;
+    let retryTimer: NodeJS.Timeout | null = null;
+    let attempts = 0;
+    let closed = false;
+
+    const publish = () => {
+      setPairs(
+        Array.from(pairsBySymbol.values())
+          .sort((a, b) => b.volume24h - a.volume24h)
+          .slice(0, limit)
+      );
+      setLastUpdate(new Date());
+    };
+
+    const handleMessage = (event: MessageEvent<string>) => {
+      if (event.lastEventId) lastEventId = event.lastEventId;
+      const message = JSON.parse(event.data) as WebSocketMessage;
+
+      switch (message.type) {
+        case 'snapshot': {
+          pairsBySymbol.clear();
+          for (const pair of message.data) pairsBySymbol.set(pair.symbol, pair);
+
+          const withRSI = message.data.filter(item => Object.values(item.rsi).some(rsi => rsi !== null)).length;
+          const total = message.data.length;
+          if (total > 0 && withRSI < total * 0.8) {
+            console.warn(`⚠️ ${market} market: Only ${withRSI}/${total} pairs have RSI data (${Math.round(withRSI/total*100)}%)`);
+          }
+          publish();
+          break;
+        }
+        case 'market_update':
+          for (const pair of message.data.updated) pairsBySymbol.set(pair.symbol, pair);
+          for (const symbol of message.data.removed) pairsBySymbol.delete(symbol);
+          publish();
+          break;
+        case 'connection_status':
+          setConnected(message.data.connected);
+          break;
+      }
+    };
+
+    const connect = () => {
+      const params = new URLSearchParams({ market });
+      if (lastEventId) params.set('lastEventId', lastEventId);
+
+      setStatus('connecting');
+      source = new EventSource(`/api/stream?${params}`);
+      source.onopen = () => {
+        attempts = 0;
+        setStatus('open');
+        setError(null);
+      };
+      source.onmessage = handleMessage;
+      source.onerror = () => {
+        if (closed || !source) return;
+        if (source.readyState === EventSource.CONNECTING) {
+          setStatus('connecting');
+          return;
+        }
+
+        source.close();
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+        attempts++;
+        setError(`Live ${market} stream unavailable, retrying in ${Math.round(delay / 1000)}s`);
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      source?.close();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [market, limit, enabled, generation]);
+
+  // Start over from a fresh snapshot
+  const reconnect = useCallback(() => {
+    setGeneration(value => value + 1);
+  }, []);
+
+  return { pairs, status, connected, error, lastUpdate, reconnect };
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { PaperHistory, PaperOrderInput, PaperPortfolioView, PaperRuleInput } from '@/types/paper';
+
+const REFRESH_MS = 5000; // Marks move with every ticker update
+const EQUITY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // Equity shown in the panel; the server keeps 30 days
+
+// Resolves to null on success, or the server's reasons for rejecting the request
+// (a network failure is reported the same way, so callers never see a rejection)
+async function send(url: string, method: string, body?: unknown): Promise<string[] | null> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  } catch (err) {
+    return [err instanceof Error ? err.message : 'Request failed'];
+  }
+  if (response.ok) return null;
+
+  const data = await response.json().catch(() => ({}));
+  return data.details ?? [data.error ?? `API Error: ${response.status}`];
+}
+
+// Open a position outside the portfolio panel (the symbol drawer's order ticket)
+export function submitPaperOrder(order: PaperOrderInput) {
+  return send('/api/paper/positions', 'POST', order);
+}
+
+// The paper portfolio and its history, polled from /api/paper; every action reloads both
+export function usePaperPortfolio() {
+  const [portfolio, setPortfolio] = useState<PaperPortfolioView | null>(null);
+  const [history, setHistory] = useState<PaperHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const [portfolioResponse, historyResponse] = await Promise.all([
+        fetch('/api/paper'),
+        fetch(`/api/paper/history?since=${Date.now() - EQUITY_WINDOW_MS}`),
+      ]);
+      if (!portfolioResponse.ok) throw new Error(`API Error: ${portfolioResponse.status} - ${portfolioResponse.statusText}`);
+      if (!historyResponse.ok) throw new Error(`API Error: ${historyResponse.status} - ${historyResponse.statusText}`);
+      setPortfolio(await portfolioResponse.json());
+      setHistory(await historyResponse.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load paper portfolio');
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    const timer = setInterval(reload, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [reload]);
+
+  const act = useCallback(async (url: string, method: string, body?: unknown) => {
+    const problems = await send(url, method, body);
+    await reload();
+    return problems;
+  }, [reload]);
+
+  const closePosition = useCallback((id: string) => act(`/api/paper/positions/${id}`, 'DELETE'), [act]);
+  const createRule = useCallback((input: PaperRuleInput) => act('/api/paper/rules', 'POST', input), [act]);
+  const updateRule = useCallback((id: string, input: PaperRuleInput) => act(`/api/paper/rules/${id}`, 'PATCH', input), [act]);
+  const deleteRule = useCallback((id: string) => act(`/api/paper/rules/${id}`, 'DELETE'), [act]);
+  const reset = useCallback((initialBalance?: number) => act('/api/paper/reset', 'POST', { initialBalance }), [act]);
+
+  return { portfolio, history, error, reload, closePosition, createRule, updateRule, deleteRule, reset };
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { RSISettings } from '@/types/settings';
+import { DEFAULT_RSI_SETTINGS } from '@/lib/settings';
+
+// RSI settings from /api/settings; defaults are used until the server answers
+export function useRSISettings() {
+  const [settings, setSettings] = useState<RSISettings>(DEFAULT_RSI_SETTINGS);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/settings')
+      .then(response => {
+        if (!response.ok) throw new Error(`API Error: ${response.status} - ${response.statusText}`);
+        return response.json();
+      })
+      .then((data: { rsi: RSISettings }) => {
+        if (!cancelled) setSettings(data.rsi);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load settings');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Resolves to null on success, or the server's reasons for rejecting the settings
+  const saveSettings = useCallback(async (next: RSISettings): Promise<string[] | null> => {
+    const response = await fetch('/api/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rsi: next }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return data.details ?? [data.error ?? `API Error: ${response.status}`];
+    }
+    setSettings(data.rsi);
+    setError(null);
+    return null;
+  }, []);
+
+  return { settings, error, saveSettings };
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Market, SymbolDetail } from '@/types/trading';
+
+const REFRESH_MS = 60000; // Candles only change when one closes
+
+// One pair's candles and RSI series from /api/symbol/[symbol]; a null symbol loads nothing
+export function useSymbolDetail(symbol: string | null, market: Market, interval: string, limit: number = 120) {
+  const [detail, setDetail] = useState<SymbolDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setDetail(null);
+    setError(null);
+    if (!symbol) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({ market, interval, limit: String(limit) });
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/symbol/${encodeURIComponent(symbol)}?${params}`);
+        const data = await response.json();
+        if (cancelled) return;
+        if (!response.ok) throw new Error(data.error ?? `API Error: ${response.status} - ${response.statusText}`);
+        setDetail(data);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load symbol detail');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [symbol, market, interval, limit]);
+
+  return { detail, error, loading };
+}
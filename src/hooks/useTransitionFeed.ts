@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Market, SignalTransition, TransitionKind } from '@/types/trading';
+
+export interface TransitionFeedFilter {
+  market?: Market;
+  kind?: TransitionKind;
+}
+
+// Newest signal transitions: the backlog from /api/events, then live ones from
+// /api/events/stream. The backlog is reloaded whenever the stream (re)connects,
+// so nothing recorded while it was down goes missing.
+export function useTransitionFeed(filter: TransitionFeedFilter = {}, limit: number = 50) {
+  const [events, setEvents] = useState<SignalTransition[]>([]);
+  const [live, setLive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { market, kind } = filter;
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (market) params.set('market', market);
+    if (kind) params.set('kind', kind);
+
+    const loadBacklog = () => {
+      fetch(`/api/events?${params}`)
+        .then(response => {
+          if (!response.ok) throw new Error(`API Error: ${response.status} - ${response.statusText}`);
+          return response.json();
+        })
+        .then((page: { events: SignalTransition[] }) => {
+          if (cancelled) return;
+          setEvents(page.events);
+          setError(null);
+        })
+        .catch(err => {
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load signal history');
+        });
+    };
+
+    const source = new EventSource('/api/events/stream');
+    source.onopen = () => {
+      setLive(true);
+      loadBacklog();
+    };
+    source.onerror = () => setLive(false);
+    source.onmessage = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as SignalTransition;
+      if ((market && event.market !== market) || (kind && event.kind !== kind)) return;
+      setEvents(current => current.some(existing => existing.id === event.id)
+        ? current
+        : [event, ...current].slice(0, limit));
+    };
+
+    return () => {
+      cancelled = true;
+      source.close();
+    };
+  }, [market, kind, limit]);
+
+  return { events, live, error };
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Watchlist, WatchlistFormat, WatchlistImportReport, WatchlistInput, WatchlistView } from '@/types/watchlists';
+
+const VIEW_REFRESH_MS = 5000; // Watchlisted symbols aren't in the top-50 market streams
+
+// Resolves to the saved watchlist, or the server's reasons for rejecting the request
+type SaveResult = { watchlist: Watchlist; problems: null } | { watchlist: null; problems: string[] };
+
+async function send(url: string, method: string, body?: WatchlistInput): Promise<SaveResult> {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (response.status === 204) return { watchlist: null, problems: [] };
+
+  const data = await response.json();
+  if (!response.ok) {
+    return { watchlist: null, problems: data.details ?? [data.error ?? `API Error: ${response.status}`] };
+  }
+  return { watchlist: data.watchlist, problems: null };
+}
+
+// Every watchlist from /api/watchlists, with create/update/delete
+export function useWatchlists() {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetch('/api/watchlists');
+      if (!response.ok) throw new Error(`API Error: ${response.status} - ${response.statusText}`);
+      const data: { watchlists: Watchlist[] } = await response.json();
+      setWatchlists(data.watchlists);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load watchlists');
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const createWatchlist = useCallback(async (input: WatchlistInput) => {
+    const result = await send('/api/watchlists', 'POST', input);
+    await reload();
+    return result;
+  }, [reload]);
+
+  const updateWatchlist = useCallback(async (id: string, input: WatchlistInput) => {
+    const result = await send(`/api/watchlists/${id}`, 'PATCH', input);
+    await reload();
+    return result;
+  }, [reload]);
+
+  const deleteWatchlist = useCallback(async (id: string) => {
+    await send(`/api/watchlists/${id}`, 'DELETE');
+    await reload();
+  }, [reload]);
+
+  // A file's contents as a new watchlist; the format is detected when left out
+  const importWatchlist = useCallback(async (
+    text: string,
+    name: string,
+    format?: WatchlistFormat
+  ): Promise<{ report: WatchlistImportReport; problems: null } | { report: null; problems: string[] }> => {
+    const params = new URLSearchParams({ name });
+    if (format) params.set('format', format);
+    const response = await fetch(`/api/watchlists/import?${params}`, { method: 'POST', body: text });
+    const data = await response.json();
+    await reload();
+
+    if (!response.ok) {
+      return { report: null, problems: data.details ?? [data.error ?? `API Error: ${response.status}`] };
+    }
+    return { report: data, problems: null };
+  }, [reload]);
+
+  return { watchlists, error, createWatchlist, updateWatchlist, deleteWatchlist, importWatchlist };
+}
+
+// Live rows of one watchlist, polled from /api/watchlists/[id]; refresh() reloads right away after edits
+export function useWatchlistView(id: string | null) {
+  const [view, setView] = useState<WatchlistView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    setView(null);
+    setError(null);
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/watchlists/${id}`);
+        const data = await response.json();
+        if (cancelled) return;
+        if (!response.ok) throw new Error(data.error ?? `API Error: ${response.status} - ${response.statusText}`);
+        setView(data);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load watchlist');
+      }
+    };
+
+    load();
+    const timer = setInterval(load, VIEW_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [id, refreshCount]);
+
+  const refresh = useCallback(() => setRefreshCount(count => count + 1), []);
+
+  return { view, error, refresh };
+}
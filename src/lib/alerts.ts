@@ -0,0 +1,337 @@
+import { randomUUID } from 'crypto';
+import { Market, TradingPair, TradingSignal } from '@/types/trading';
+import {
+  AlertCondition,
+  AlertOperator,
+  AlertRule,
+  AlertRuleInput,
+  AlertScope,
+  AlertTrigger,
+} from '@/types/alerts';
+import { numericFieldValue, numericFields } from './screener';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const RULES_FILE = 'alerts/rules.json';
+const MARKETS: Market[] = ['spot', 'futures'];
+const SIGNALS: TradingSignal[] = ['STRONG_BUY', 'BUY', 'NEUTRAL', 'SELL', 'STRONG_SELL'];
+const OPERATORS: AlertOperator[] = ['crosses_above', 'crosses_below', 'above', 'below'];
+const DEFAULT_COOLDOWN_MS = 15 * 60 * 1000;
+const RECENT_TRIGGERS = 200;
+
+// Fields a threshold condition can watch: the screener's numeric fields
+export const alertFields = numericFields;
+export const alertFieldValue = numericFieldValue;
+
+// RSI and the score sit on a fixed 0..100 / -100..100 scale, so they get a default
+// dead band; other fields are unit-dependent and default to none
+function defaultHysteresis(condition: AlertCondition): number {
+  if (condition.kind !== 'threshold') return 0;
+  if (condition.field.startsWith('rsi')) return 2;
+  if (condition.field === 'confluenceScore') return 5;
+  return 0;
+}
+
+// "rsi1h crosses below 30", "price above 65000", "signal becomes STRONG_SELL"
+export function parseAlertCondition(text: string): AlertCondition | null {
+  const words = text.trim().split(/\s+/);
+
+  if (words.length === 3 && words[0].toLowerCase() === 'signal' && words[1].toLowerCase() === 'becomes') {
+    const signal = words[2].toUpperCase() as TradingSignal;
+    return SIGNALS.includes(signal) ? { kind: 'signal', signal } : null;
+  }
+
+  const crosses = words[1]?.toLowerCase() === 'crosses';
+  const [field, rawOperator, rawValue] = crosses ? [words[0], `crosses_${words[2]}`, words[3]] : words;
+  if (words.length !== (crosses ? 4 : 3)) return null;
+
+  const operator = rawOperator.toLowerCase() as AlertOperator;
+  const value = Number(rawValue);
+  if (!OPERATORS.includes(operator) || rawValue.trim() === '' || !Number.isFinite(value)) return null;
+  return { kind: 'threshold', field, operator, value };
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  if (condition.kind === 'signal') return `signal becomes ${condition.signal}`;
+  return `${condition.field} ${condition.operator.replace('_', ' ')} ${condition.value}`;
+}
+
+function formatValue(value: number): string {
+  return String(Number(value.toPrecision(6)));
+}
+
+function validateCondition(condition: unknown, problems: string[]) {
+  if (typeof condition !== 'object' || condition === null) {
+    problems.push('condition must be an object');
+    return;
+  }
+
+  const { kind } = condition as AlertCondition;
+  if (kind === 'signal') {
+    if (!SIGNALS.includes((condition as { signal: TradingSignal }).signal)) {
+      problems.push(`condition.signal must be one of ${SIGNALS.join(', ')}`);
+    }
+  } else if (kind === 'threshold') {
+    const { field, operator, value } = condition as { field: unknown; operator: unknown; value: unknown };
+    if (typeof field !== 'string' || !alertFields().includes(field)) {
+      problems.push(`condition.field must be one of ${alertFields().join(', ')}`);
+    }
+    if (!OPERATORS.includes(operator as AlertOperator)) {
+      problems.push(`condition.operator must be one of ${OPERATORS.join(', ')}`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      problems.push('condition.value must be a number');
+    }
+  } else {
+    problems.push("condition.kind must be 'threshold' or 'signal'");
+  }
+}
+
+function validateScope(scope: unknown, problems: string[]) {
+  if (typeof scope !== 'object' || scope === null || Array.isArray(scope)) {
+    problems.push('scope must be an object');
+    return;
+  }
+
+  const { markets, symbols } = scope as AlertScope;
+  if (markets !== undefined && (!Array.isArray(markets) || markets.some(market => !MARKETS.includes(market)))) {
+    problems.push(`scope.markets must be a list of ${MARKETS.join(', ')}`);
+  }
+  if (symbols !== undefined && (!Array.isArray(symbols) || symbols.some(symbol => typeof symbol !== 'string' || !symbol))) {
+    problems.push('scope.symbols must be a list of symbols');
+  }
+}
+
+// Problems with a rule payload (empty when valid). Updates may leave out the condition.
+export function validateAlertRuleInput(input: unknown, requireCondition: boolean = true): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['rule must be an object'];
+  }
+
+  const problems: string[] = [];
+  const rule = input as AlertRuleInput;
+
+  if (rule.when !== undefined) {
+    if (rule.condition !== undefined) problems.push('give either when or condition, not both');
+    else if (typeof rule.when !== 'string' || !parseAlertCondition(rule.when)) {
+      problems.push(`when must look like "rsi1h crosses below 30", "price above 65000" or "signal becomes STRONG_SELL"`);
+    } else {
+      validateCondition(parseAlertCondition(rule.when), problems);
+    }
+  } else if (rule.condition !== undefined) {
+    validateCondition(rule.condition, problems);
+  } else if (requireCondition) {
+    problems.push('condition (or when) is required');
+  }
+
+  if (rule.name !== undefined && (typeof rule.name !== 'string' || !rule.name.trim())) {
+    problems.push('name must be a non-empty string');
+  }
+  if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') {
+    problems.push('enabled must be true or false');
+  }
+  if (rule.scope !== undefined) validateScope(rule.scope, problems);
+  for (const key of ['cooldownMs', 'hysteresis'] as const) {
+    const value = rule[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      problems.push(`${key} must be a number ≥ 0`);
+    }
+  }
+  return problems;
+}
+
+// A full rule from validated input, on top of `existing` for updates
+export function buildAlertRule(input: AlertRuleInput, existing?: AlertRule): AlertRule {
+  const condition = (input.when ? parseAlertCondition(input.when) : input.condition) ?? existing?.condition;
+  if (!condition) throw new Error('Alert rule needs a condition');
+  const conditionChanged = existing !== undefined && condition !== existing.condition;
+  // Generated names follow the condition; names someone typed are kept
+  const customName = existing && existing.name !== describeCondition(existing.condition) ? existing.name : undefined;
+
+  return {
+    id: existing?.id ?? randomUUID(),
+    name: input.name?.trim() ?? customName ?? describeCondition(condition),
+    enabled: input.enabled ?? existing?.enabled ?? true,
+    scope: {
+      markets: input.scope?.markets ?? existing?.scope.markets,
+      symbols: (input.scope?.symbols ?? existing?.scope.symbols)?.map(symbol => symbol.toUpperCase()),
+    },
+    condition,
+    cooldownMs: input.cooldownMs ?? existing?.cooldownMs ?? DEFAULT_COOLDOWN_MS,
+    hysteresis: input.hysteresis ?? (conditionChanged ? undefined : existing?.hysteresis) ?? defaultHysteresis(condition),
+    createdAt: existing?.createdAt ?? Date.now(),
+  };
+}
+
+function inScope(rule: AlertRule, pair: TradingPair): boolean {
+  const { markets, symbols } = rule.scope;
+  if (markets && markets.length > 0 && !markets.includes(pair.market)) return false;
+  if (symbols && symbols.length > 0 && !symbols.includes(pair.symbol)) return false;
+  return true;
+}
+
+interface RuleState {
+  armed: boolean;        // Threshold rules: may fire on the next excursion past the threshold
+  lastSignal?: TradingSignal;
+  lastFiredAt: number;
+}
+
+// Alert rules, persisted to data/alerts/rules.json and evaluated against every
+// pair update. State is kept per rule/market/symbol: a threshold rule fires once
+// when the value goes past its threshold and re-arms only after the value comes
+// back by `hysteresis`; a firing inside `cooldownMs` of the last one is dropped.
+export class AlertEngine {
+  private rules: Map<string, AlertRule> = new Map();
+  private states: Map<string, RuleState> = new Map();
+  private recent: AlertTrigger[] = [];
+  private listeners: Set<(trigger: AlertTrigger) => void> = new Set();
+
+  constructor() {
+    for (const rule of readJsonFile<AlertRule[]>(RULES_FILE, [])) {
+      this.rules.set(rule.id, rule);
+    }
+  }
+
+  public listRules(): AlertRule[] {
+    return Array.from(this.rules.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  public getRule(id: string): AlertRule | null {
+    return this.rules.get(id) ?? null;
+  }
+
+  public async createRule(input: AlertRuleInput): Promise<AlertRule> {
+    const rule = buildAlertRule(input);
+    this.rules.set(rule.id, rule);
+    await this.save();
+    return rule;
+  }
+
+  public async updateRule(id: string, input: AlertRuleInput): Promise<AlertRule | null> {
+    const existing = this.rules.get(id);
+    if (!existing) return null;
+
+    const rule = buildAlertRule(input, existing);
+    this.rules.set(id, rule);
+    this.resetState(id);
+    await this.save();
+    return rule;
+  }
+
+  public async deleteRule(id: string): Promise<boolean> {
+    if (!this.rules.delete(id)) return false;
+    this.resetState(id);
+    await this.save();
+    return true;
+  }
+
+  // Newest first
+  public recentTriggers(limit: number = 50): AlertTrigger[] {
+    return this.recent.slice(-limit).reverse();
+  }
+
+  // Returns the function that stops listening
+  public onTrigger(listener: (trigger: AlertTrigger) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Run every enabled rule against a fresh pair update
+  public evaluate(pair: TradingPair, now: number = Date.now()) {
+    for (const rule of this.rules.values()) {
+      if (!rule.enabled || !inScope(rule, pair)) continue;
+
+      const trigger = this.evaluateRule(rule, pair, now);
+      if (trigger) this.emit(trigger);
+    }
+  }
+
+  private evaluateRule(rule: AlertRule, pair: TradingPair, now: number): AlertTrigger | null {
+    const key = `${rule.id}:${pair.market}:${pair.symbol}`;
+    const { condition } = rule;
+    let state = this.states.get(key);
+
+    if (condition.kind === 'signal') {
+      // The first update only records the signal; "becomes" needs a change
+      if (!state) {
+        this.states.set(key, { armed: true, lastSignal: pair.signal, lastFiredAt: -Infinity });
+        return null;
+      }
+      const becameTarget = pair.signal === condition.signal && state.lastSignal !== condition.signal;
+      state.lastSignal = pair.signal;
+      if (!becameTarget || now - state.lastFiredAt < rule.cooldownMs) return null;
+
+      state.lastFiredAt = now;
+      return this.trigger(rule, pair, `${pair.symbol} signal became ${pair.signal.replace('_', ' ')}`, pair.signal, now);
+    }
+
+    const value = alertFieldValue(pair, condition.field);
+    if (value === null || !Number.isFinite(value)) return null;
+
+    const upward = condition.operator === 'above' || condition.operator === 'crosses_above';
+    const past = upward ? value > condition.value : value < condition.value;
+    const backInside = upward
+      ? value <= condition.value - rule.hysteresis
+      : value >= condition.value + rule.hysteresis;
+
+    if (!state) {
+      // crosses_* rules wait until the value has been on the other side
+      state = { armed: !condition.operator.startsWith('crosses'), lastFiredAt: -Infinity };
+      this.states.set(key, state);
+    }
+    if (!state.armed) {
+      if (backInside) state.armed = true;
+      return null;
+    }
+    if (!past) return null;
+
+    // This excursion is used up whether or not the cooldown lets it through
+    state.armed = false;
+    if (now - state.lastFiredAt < rule.cooldownMs) return null;
+
+    state.lastFiredAt = now;
+    const verb = condition.operator.startsWith('crosses')
+      ? `crossed ${upward ? 'above' : 'below'}`
+      : `is ${upward ? 'above' : 'below'}`;
+    const message = `${pair.symbol} ${condition.field} ${verb} ${condition.value} (${formatValue(value)})`;
+    return this.trigger(rule, pair, message, value, now);
+  }
+
+  private trigger(rule: AlertRule, pair: TradingPair, message: string, value: number | string, now: number): AlertTrigger {
+    return {
+      id: randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      market: pair.market,
+      symbol: pair.symbol,
+      message,
+      value,
+      timestamp: now,
+    };
+  }
+
+  private emit(trigger: AlertTrigger) {
+    console.log(`🔔 [${trigger.market}] ${trigger.ruleName}: ${trigger.message}`);
+    this.recent.push(trigger);
+    if (this.recent.length > RECENT_TRIGGERS) this.recent.shift();
+
+    for (const listener of this.listeners) {
+      try {
+        listener(trigger);
+      } catch (error) {
+        console.error('❌ Error notifying alert listener:', error);
+      }
+    }
+  }
+
+  private resetState(ruleId: string) {
+    for (const key of this.states.keys()) {
+      if (key.startsWith(`${ruleId}:`)) this.states.delete(key);
+    }
+  }
+
+  private save(): Promise<void> {
+    return writeJsonFile(RULES_FILE, this.listRules());
+  }
+}
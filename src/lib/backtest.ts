@@ -0,0 +1,395 @@
+// Replays an entry/exit rule over closed candles. Pure (no Node APIs, no REST):
+// candles come from the store or the request, and the page imports the field
+// list and defaults from here.
+import { Candle } from '@/types/exchange';
+import { Market, RSIByTimeframe, TradingPair, TradingSignal } from '@/types/trading';
+import { RSISettings } from '@/types/settings';
+import {
+  BacktestDirection,
+  BacktestReport,
+  BacktestRequest,
+  BacktestRule,
+  BacktestStats,
+  BacktestSymbolResult,
+  BacktestTrade,
+  EquityPoint,
+} from '@/types/backtest';
+import { ScreenerExpression } from '@/types/screener';
+import { expressionFields, matchesScreener, parseScreenerExpression } from './screener';
+import { evaluateSignal } from './signals';
+import { rsiSeries } from './rsi';
+import { resolveRSIConfig } from './settings';
+import { RSI_TIMEFRAMES, emptyRSI, intervalToMs, rsiColumnId } from './timeframes';
+
+const MARKETS: Market[] = ['spot', 'futures'];
+const DIRECTIONS: BacktestDirection[] = ['long', 'short'];
+const SYMBOL_PATTERN = /^[A-Z0-9]{2,30}$/;
+const MAX_SYMBOLS = 20;
+const MAX_IMPORTED_CANDLES = 5000; // Per symbol
+const MAX_COST_BPS = 1000;
+
+export const BACKTEST_DEFAULTS = {
+  direction: 'long' as BacktestDirection,
+  feeBps: 10,
+  slippageBps: 5,
+  initialCapital: 10_000,
+};
+
+const ENTRY_SIGNALS: Record<BacktestDirection, TradingSignal[]> = {
+  long: ['BUY', 'STRONG_BUY'],
+  short: ['SELL', 'STRONG_SELL'],
+};
+
+// Fields a replayed pair carries. 24h stats and indicators aren't rebuilt from history.
+export function backtestFields(): string[] {
+  return ['market', 'symbol', 'signal', 'price', 'confluenceScore', 'confluenceStrength', ...RSI_TIMEFRAMES.map(rsiColumnId)];
+}
+
+function parseTime(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return NaN;
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+function parseRuleExpression(text: unknown, path: string, problems: string[]): ScreenerExpression | null {
+  if (typeof text !== 'string' || !text.trim()) {
+    problems.push(`${path} must be a non-empty expression, e.g. "rsi1h<30"`);
+    return null;
+  }
+  const { expression, problems: syntax } = parseScreenerExpression(text);
+  problems.push(...syntax.map(problem => `${path}: ${problem}`));
+  if (!expression) return null;
+
+  const unavailable = expressionFields(expression).filter(field => !backtestFields().includes(field));
+  if (unavailable.length > 0) {
+    problems.push(`${path}: ${unavailable.join(', ')} can't be replayed (use ${backtestFields().join(', ')})`);
+  }
+  return expression;
+}
+
+function validateRule(rule: unknown, problems: string[]): BacktestRule {
+  if (rule === undefined) return { kind: 'policy' };
+  const { kind, entry, exit } = (rule ?? {}) as { kind?: unknown; entry?: unknown; exit?: unknown };
+  if (kind === 'policy') return { kind };
+  if (kind !== 'custom') {
+    problems.push("rule.kind must be 'policy' or 'custom'");
+    return { kind: 'policy' };
+  }
+  parseRuleExpression(entry, 'rule.entry', problems);
+  parseRuleExpression(exit, 'rule.exit', problems);
+  return { kind, entry: String(entry), exit: String(exit) };
+}
+
+function validateCandles(candles: unknown, problems: string[]): Record<string, Candle[]> | undefined {
+  if (candles === undefined) return undefined;
+  if (typeof candles !== 'object' || candles === null || Array.isArray(candles)) {
+    problems.push('candles must map each symbol to its list of candles');
+    return undefined;
+  }
+
+  const result: Record<string, Candle[]> = {};
+  for (const [symbol, list] of Object.entries(candles)) {
+    if (!Array.isArray(list) || list.length === 0 || list.length > MAX_IMPORTED_CANDLES) {
+      problems.push(`candles.${symbol} must be a list of 1 to ${MAX_IMPORTED_CANDLES} candles`);
+      continue;
+    }
+    const bad = list.findIndex(candle => {
+      const fields = ['openTime', 'closeTime', 'open', 'high', 'low', 'close'].map(key => (candle ?? {})[key]);
+      if (!fields.every(value => typeof value === 'number' && Number.isFinite(value))) return true;
+      const [openTime, closeTime, open, , , close] = fields as number[];
+      return open <= 0 || close <= 0 || closeTime < openTime;
+    });
+    if (bad !== -1) {
+      problems.push(`candles.${symbol}[${bad}] needs numeric openTime, closeTime, open, high, low and close`);
+      continue;
+    }
+    // Oldest first, one candle per open time (the last one sent wins)
+    const byOpenTime = new Map((list as Candle[]).map(candle => [candle.openTime, { ...candle, volume: candle.volume ?? 0 }]));
+    result[symbol.toUpperCase()] = Array.from(byOpenTime.values()).sort((a, b) => a.openTime - b.openTime);
+  }
+  return result;
+}
+
+function validateNumber(value: unknown, name: string, min: number, max: number, fallback: number, problems: string[]): number {
+  if (value === undefined) return fallback;
+  if (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max) return value;
+  problems.push(`${name} must be a number from ${min} to ${max}`);
+  return fallback;
+}
+
+// Body of POST /api/backtest with defaults filled in; request is null when there are problems.
+// Symbols default to the imported ones.
+export function parseBacktestRequest(input: unknown): { request: BacktestRequest | null; problems: string[] } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { request: null, problems: ['backtest request must be an object'] };
+  }
+
+  const problems: string[] = [];
+  const body = input as Record<string, unknown>;
+
+  if (!MARKETS.includes(body.market as Market)) problems.push(`market must be one of ${MARKETS.join(', ')}`);
+  if (!RSI_TIMEFRAMES.includes(body.interval as string)) problems.push(`interval must be one of ${RSI_TIMEFRAMES.join(', ')}`);
+  const direction = body.direction ?? BACKTEST_DEFAULTS.direction;
+  if (!DIRECTIONS.includes(direction as BacktestDirection)) problems.push(`direction must be one of ${DIRECTIONS.join(', ')}`);
+
+  const candles = validateCandles(body.candles, problems);
+  const rawSymbols = body.symbols ?? (candles ? Object.keys(candles) : undefined);
+  let symbols: string[] = [];
+  if (!Array.isArray(rawSymbols) || rawSymbols.length === 0 || rawSymbols.length > MAX_SYMBOLS) {
+    problems.push(`symbols must be a list of 1 to ${MAX_SYMBOLS} symbols`);
+  } else {
+    symbols = [...new Set(rawSymbols.map(symbol => String(symbol).trim().toUpperCase()))];
+    const invalid = symbols.filter(symbol => !SYMBOL_PATTERN.test(symbol));
+    if (invalid.length > 0) problems.push(`symbols must be exchange symbols such as BTCUSDT (got ${invalid.join(', ')})`);
+  }
+
+  const rule = validateRule(body.rule, problems);
+  const feeBps = validateNumber(body.feeBps, 'feeBps', 0, MAX_COST_BPS, BACKTEST_DEFAULTS.feeBps, problems);
+  const slippageBps = validateNumber(body.slippageBps, 'slippageBps', 0, MAX_COST_BPS, BACKTEST_DEFAULTS.slippageBps, problems);
+  const initialCapital = validateNumber(body.initialCapital, 'initialCapital', 1, 1e12, BACKTEST_DEFAULTS.initialCapital, problems);
+
+  const [from, to] = (['from', 'to'] as const).map(key => {
+    if (body[key] === undefined || body[key] === null || body[key] === '') return null;
+    const time = parseTime(body[key]);
+    if (Number.isFinite(time)) return time;
+    problems.push(`${key} must be epoch milliseconds or an ISO date`);
+    return null;
+  });
+  if (from !== null && to !== null && from >= to) problems.push('from must be before to');
+
+  if (problems.length > 0) return { request: null, problems };
+  return {
+    request: {
+      market: body.market as Market,
+      symbols,
+      interval: body.interval as string,
+      rule,
+      direction: direction as BacktestDirection,
+      feeBps,
+      slippageBps,
+      initialCapital,
+      from,
+      to,
+      candles,
+    },
+    problems,
+  };
+}
+
+// The RSI each timeframe showed when every base candle closed: the value at the
+// newest of its own closed candles, or null if that candle is missing (no lookahead)
+function rsiAtCloses(base: Candle[], candles: Candle[], timeframe: string, period: number): (number | null)[] {
+  const series = rsiSeries(candles, timeframe, period);
+  const duration = intervalToMs(timeframe);
+  let index = -1;
+  return base.map(candle => {
+    while (index + 1 < candles.length && candles[index + 1].closeTime <= candle.closeTime) index++;
+    if (index === -1 || candle.closeTime - candles[index].closeTime >= duration) return null;
+    return series[index].rsi;
+  });
+}
+
+interface OpenPosition {
+  entryTime: number;
+  entryPrice: number;
+  quantity: number;
+  entryFee: number;
+  committed: number; // Equity when the position was opened
+  bars: number;
+}
+
+function tradeStats(trades: BacktestTrade[]): Pick<BacktestStats, 'trades' | 'winRate' | 'profitFactor' | 'averageTradePct'> {
+  const grossProfit = trades.filter(trade => trade.pnl > 0).reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossLoss = -trades.filter(trade => trade.pnl < 0).reduce((sum, trade) => sum + trade.pnl, 0);
+  return {
+    trades: trades.length,
+    winRate: trades.length > 0 ? (trades.filter(trade => trade.pnl > 0).length / trades.length) * 100 : null,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    averageTradePct: trades.length > 0 ? trades.reduce((sum, trade) => sum + trade.returnPct, 0) / trades.length : null,
+  };
+}
+
+function maxDrawdownPct(equity: EquityPoint[], initialCapital: number): number {
+  let peak = initialCapital;
+  let drawdown = 0;
+  for (const point of equity) {
+    peak = Math.max(peak, point.equity);
+    drawdown = Math.max(drawdown, ((peak - point.equity) / peak) * 100);
+  }
+  return drawdown;
+}
+
+// One symbol: the rule is checked on every closed base candle and acts at the next
+// candle's open, slipped against the trade, with fees on both sides. All equity goes
+// into each position, unlevered; one still open at the end closes at the last close.
+function replaySymbol(
+  request: BacktestRequest,
+  symbol: string,
+  base: Candle[],
+  rsiByTimeframe: Map<string, (number | null)[]>,
+  settings: RSISettings,
+  shouldEnter: (pair: TradingPair) => boolean,
+  shouldExit: (pair: TradingPair) => boolean
+): BacktestSymbolResult {
+  const { market, direction, initialCapital } = request;
+  const sign = direction === 'long' ? 1 : -1;
+  const fee = request.feeBps / 10_000;
+  const slippage = request.slippageBps / 10_000;
+  const start = request.from === null ? 0 : base.findIndex(candle => candle.openTime >= request.from!);
+  const end = request.to === null ? base.length : base.findIndex(candle => candle.openTime > request.to!);
+  const window = base.slice(start === -1 ? base.length : start, end === -1 ? base.length : end);
+  const offset = start === -1 ? base.length : start;
+
+  let cash = initialCapital;
+  let position: OpenPosition | null = null;
+  let pending: 'enter' | 'exit' | null = null;
+  let barsInPosition = 0;
+  const trades: BacktestTrade[] = [];
+  const equity: EquityPoint[] = [];
+
+  const close = (time: number, price: number, exitReason: BacktestTrade['exitReason']) => {
+    const open = position!;
+    const exitPrice = price * (1 - sign * slippage);
+    const exitFee = open.quantity * exitPrice * fee;
+    const gross = sign * open.quantity * (exitPrice - open.entryPrice);
+    cash += gross - exitFee;
+    const pnl = gross - exitFee - open.entryFee;
+    trades.push({
+      side: direction,
+      entryTime: open.entryTime,
+      entryPrice: open.entryPrice,
+      exitTime: time,
+      exitPrice,
+      fees: open.entryFee + exitFee,
+      pnl,
+      returnPct: (pnl / open.committed) * 100,
+      bars: open.bars,
+      exitReason,
+    });
+    position = null;
+  };
+
+  window.forEach((candle, index) => {
+    if (pending === 'enter' && cash > 0) {
+      const entryPrice = candle.open * (1 + sign * slippage);
+      const notional = cash / (1 + fee);
+      const entryFee = notional * fee;
+      position = { entryTime: candle.openTime, entryPrice, quantity: notional / entryPrice, entryFee, committed: cash, bars: 0 };
+      cash -= entryFee;
+    } else if (pending === 'exit' && position) {
+      close(candle.openTime, candle.open, 'signal');
+    }
+    pending = null;
+
+    const held: OpenPosition | null = position;
+    if (held) {
+      held.bars++;
+      barsInPosition++;
+    }
+    equity.push({
+      time: candle.closeTime,
+      equity: cash + (held ? sign * held.quantity * (candle.close - held.entryPrice) : 0),
+    });
+
+    const rsi: RSIByTimeframe = emptyRSI();
+    for (const [timeframe, values] of rsiByTimeframe) rsi[timeframe] = values[offset + index];
+    const pair: TradingPair = {
+      symbol,
+      market,
+      price: candle.close,
+      change24h: 0,
+      volume24h: 0,
+      high24h: 0,
+      low24h: 0,
+      rsi,
+      indicators: {},
+      divergences: [],
+      ...evaluateSignal(rsi, timeframe => resolveRSIConfig(settings, market, timeframe).bands),
+    };
+    if (!held && shouldEnter(pair)) pending = 'enter';
+    else if (held && shouldExit(pair)) pending = 'exit';
+  });
+
+  const last = window[window.length - 1];
+  if (position && last) {
+    close(last.closeTime, last.close, 'end_of_data');
+    equity[equity.length - 1] = { time: last.closeTime, equity: cash };
+  }
+
+  const finalEquity = equity.length > 0 ? equity[equity.length - 1].equity : initialCapital;
+  return {
+    symbol,
+    candles: window.length,
+    firstTime: window[0]?.openTime ?? null,
+    lastTime: last?.closeTime ?? null,
+    buyAndHoldReturnPct: last ? (last.close / window[0].open - 1) * 100 : null,
+    stats: {
+      ...tradeStats(trades),
+      totalReturnPct: (finalEquity / initialCapital - 1) * 100,
+      maxDrawdownPct: maxDrawdownPct(equity, initialCapital),
+      exposurePct: window.length > 0 ? (barsInPosition / window.length) * 100 : 0,
+    },
+    trades,
+    equity,
+  };
+}
+
+function ruleMatchers(rule: BacktestRule, direction: BacktestDirection) {
+  if (rule.kind === 'policy') {
+    const exitDirection: BacktestDirection = direction === 'long' ? 'short' : 'long';
+    return {
+      shouldEnter: (pair: TradingPair) => ENTRY_SIGNALS[direction].includes(pair.signal),
+      shouldExit: (pair: TradingPair) => ENTRY_SIGNALS[exitDirection].includes(pair.signal),
+    };
+  }
+  // Already validated by parseBacktestRequest
+  const entry = parseScreenerExpression(rule.entry).expression!;
+  const exit = parseScreenerExpression(rule.exit).expression!;
+  return {
+    shouldEnter: (pair: TradingPair) => matchesScreener(entry, pair),
+    shouldExit: (pair: TradingPair) => matchesScreener(exit, pair),
+  };
+}
+
+// `storedCandles` reads the local store; imported candles replace it on the request's
+// interval, and other timeframes then have no RSI (the policy votes with that one alone)
+export function runBacktest(
+  request: BacktestRequest,
+  settings: RSISettings,
+  storedCandles: (symbol: string, interval: string) => Candle[]
+): BacktestReport {
+  const { candles: imported, ...echo } = request;
+  const { shouldEnter, shouldExit } = ruleMatchers(request.rule, request.direction);
+  const results: BacktestSymbolResult[] = [];
+  const missing: string[] = [];
+
+  for (const symbol of request.symbols) {
+    const base = imported ? imported[symbol] ?? [] : storedCandles(symbol, request.interval);
+    if (base.length === 0) {
+      missing.push(symbol);
+      continue;
+    }
+
+    const timeframes = imported ? [request.interval] : RSI_TIMEFRAMES;
+    const rsiByTimeframe = new Map(timeframes.map(timeframe => {
+      const period = resolveRSIConfig(settings, request.market, timeframe).period;
+      const candles = timeframe === request.interval ? base : storedCandles(symbol, timeframe);
+      return [timeframe, rsiAtCloses(base, candles, timeframe, period)] as const;
+    }));
+    results.push(replaySymbol(request, symbol, base, rsiByTimeframe, settings, shouldEnter, shouldExit));
+  }
+
+  const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+  return {
+    request: echo,
+    source: imported ? 'imported' : 'stored',
+    summary: {
+      ...tradeStats(results.flatMap(result => result.trades)),
+      totalReturnPct: average(results.map(result => result.stats.totalReturnPct)),
+      maxDrawdownPct: Math.max(0, ...results.map(result => result.stats.maxDrawdownPct)),
+      exposurePct: average(results.map(result => result.stats.exposurePct)),
+    },
+    results,
+    missing,
+  };
+}
@@ -0,0 +1,155 @@
+import { Market } from '@/types/trading';
+import { Candle } from '@/types/exchange';
+import { nextOpenTime } from './timeframes';
+
+export interface CandleSeries {
+  market: Market;
+  symbol: string;
+  interval: string;
+  candles: Candle[];
+}
+
+// Missing candles between two stored ones: open times in [from, to)
+export interface CandleGap {
+  from: number;
+  to: number;
+}
+
+// Closed candles per market/symbol/interval, keyed and ordered by open time.
+// Streamed and REST candles are merged into the same series, so a candle
+// seen twice is stored once and later versions replace earlier ones.
+export class CandleStore {
+  private series: Map<string, Candle[]> = new Map();
+
+  constructor(private readonly maxCandles: number = 500) {}
+
+  private key(market: Market, symbol: string, interval: string): string {
+    return `${market}:${symbol}:${interval}`;
+  }
+
+  // Insert or replace one candle; returns the gap before it if candles are missing
+  public upsert(market: Market, symbol: string, interval: string, candle: Candle): CandleGap | null {
+    const key = this.key(market, symbol, interval);
+    const candles = this.series.get(key);
+
+    if (!candles || candles.length === 0) {
+      this.series.set(key, [candle]);
+      return null;
+    }
+
+    const last = candles[candles.length - 1];
+    let gap: CandleGap | null = null;
+
+    if (candle.openTime > last.openTime) {
+      const expected = nextOpenTime(last.openTime, interval);
+      if (candle.openTime > expected) {
+        gap = { from: expected, to: candle.openTime };
+      }
+      candles.push(candle);
+    } else {
+      const index = this.indexOf(candles, candle.openTime);
+      if (candles[index]?.openTime === candle.openTime) {
+        candles[index] = candle;
+      } else {
+        candles.splice(index, 0, candle);
+      }
+    }
+
+    this.trim(candles);
+    return gap;
+  }
+
+  // Merge a batch (e.g. a REST backfill) into the series
+  public merge(market: Market, symbol: string, interval: string, batch: Candle[]) {
+    if (batch.length === 0) return;
+
+    const key = this.key(market, symbol, interval);
+    const byOpenTime: Map<number, Candle> = new Map();
+    for (const candle of this.series.get(key) ?? []) byOpenTime.set(candle.openTime, candle);
+    for (const candle of batch) byOpenTime.set(candle.openTime, candle);
+
+    const candles = Array.from(byOpenTime.values()).sort((a, b) => a.openTime - b.openTime);
+    this.trim(candles);
+    this.series.set(key, candles);
+  }
+
+  public getCandles(market: Market, symbol: string, interval: string): Candle[] {
+    return [...(this.series.get(this.key(market, symbol, interval)) ?? [])];
+  }
+
+  // Longest gap-free run ending at the newest candle, optionally capped to `limit`
+  public getContiguousCandles(market: Market, symbol: string, interval: string, limit?: number): Candle[] {
+    const candles = this.series.get(this.key(market, symbol, interval));
+    if (!candles || candles.length === 0) return [];
+
+    let start = candles.length - 1;
+    const floor = limit ? Math.max(0, candles.length - limit) : 0;
+    while (start > floor && nextOpenTime(candles[start - 1].openTime, interval) === candles[start].openTime) {
+      start--;
+    }
+    return candles.slice(start);
+  }
+
+  public lastCandle(market: Market, symbol: string, interval: string): Candle | null {
+    const candles = this.series.get(this.key(market, symbol, interval));
+    return candles && candles.length > 0 ? candles[candles.length - 1] : null;
+  }
+
+  // Gaps inside the stored series
+  public findGaps(market: Market, symbol: string, interval: string): CandleGap[] {
+    const candles = this.series.get(this.key(market, symbol, interval)) ?? [];
+    const gaps: CandleGap[] = [];
+    for (let i = 1; i < candles.length; i++) {
+      const expected = nextOpenTime(candles[i - 1].openTime, interval);
+      if (candles[i].openTime > expected) {
+        gaps.push({ from: expected, to: candles[i].openTime });
+      }
+    }
+    return gaps;
+  }
+
+  // True when a newer candle than the last stored one should already have closed
+  public isStale(market: Market, symbol: string, interval: string, now: number = Date.now()): boolean {
+    const last = this.lastCandle(market, symbol, interval);
+    if (!last) return true;
+    return nextOpenTime(nextOpenTime(last.openTime, interval), interval) <= now;
+  }
+
+  public has(market: Market, symbol: string, interval: string): boolean {
+    return (this.series.get(this.key(market, symbol, interval))?.length ?? 0) > 0;
+  }
+
+  public delete(market: Market, symbol: string, interval: string) {
+    this.series.delete(this.key(market, symbol, interval));
+  }
+
+  // Every stored series (the candle arrays are the store's own, treat them as read-only)
+  public *allSeries(): IterableIterator<CandleSeries> {
+    for (const [key, candles] of this.series) {
+      const [market, symbol, interval] = key.split(':');
+      yield { market: market as Market, symbol, interval, candles };
+    }
+  }
+
+  public clear() {
+    this.series.clear();
+  }
+
+  // Binary search for the first index whose openTime is >= openTime
+  private indexOf(candles: Candle[], openTime: number): number {
+    let low = 0;
+    let high = candles.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (candles[mid].openTime < openTime) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  private trim(candles: Candle[]) {
+    if (candles.length > this.maxCandles) {
+      candles.splice(0, candles.length - this.maxCandles);
+    }
+  }
+}
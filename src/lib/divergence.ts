@@ -0,0 +1,148 @@
+import { Divergence, DivergenceKind, DivergencePivot, Market } from '@/types/trading';
+import { Candle } from '@/types/exchange';
+import { CandleStore } from './candleStore';
+import { WilderRSI } from './rsi';
+
+export interface DivergenceOptions {
+  leftBars: number;   // Candles before a pivot that must be higher (lows) / lower (highs)
+  rightBars: number;  // Candles after a pivot that confirm it
+  minSpacing: number; // Candles between the two compared pivots
+  maxSpacing: number;
+  maxAge: number;     // Candles since the newer pivot for the divergence to still be reported
+  pivotWindow: number; // Candles an RSI pivot may sit from its price pivot and still be paired with it
+}
+
+// TradingView's divergence indicator defaults
+const DEFAULT_OPTIONS: DivergenceOptions = {
+  leftBars: 5,
+  rightBars: 5,
+  minSpacing: 5,
+  maxSpacing: 60,
+  maxAge: 15,
+  pivotWindow: 3,
+};
+
+// Indexes of confirmed swing lows or highs in a series
+function findPivots(values: number[], type: 'low' | 'high', options: DivergenceOptions): number[] {
+  const pivots: number[] = [];
+  const beats = (a: number, b: number) => (type === 'low' ? a < b : a > b);
+
+  for (let i = options.leftBars; i < values.length - options.rightBars; i++) {
+    let isPivot = true;
+    for (let j = i - options.leftBars; j <= i + options.rightBars && isPivot; j++) {
+      if (j === i) continue;
+      // Strict on the left, ties allowed on the right so a flat bottom yields its first candle
+      isPivot = j < i ? beats(values[i], values[j]) : !beats(values[j], values[i]);
+    }
+    if (isPivot) pivots.push(i);
+  }
+  return pivots;
+}
+
+function classify(type: 'low' | 'high', older: DivergencePivot, newer: DivergencePivot): DivergenceKind | null {
+  if (type === 'low') {
+    if (newer.price < older.price && newer.rsi > older.rsi) return 'regular_bullish';
+    if (newer.price > older.price && newer.rsi < older.rsi) return 'hidden_bullish';
+  } else {
+    if (newer.price > older.price && newer.rsi < older.rsi) return 'regular_bearish';
+    if (newer.price < older.price && newer.rsi > older.rsi) return 'hidden_bearish';
+  }
+  return null;
+}
+
+// RSI of the RSI pivot of the same type nearest a price pivot, within the window.
+// RSI often turns a candle or two before or after price; with no RSI swing nearby,
+// the RSI at the price pivot itself is used.
+function pairedRSI(priceIndex: number, rsiPivots: number[], rsis: (number | null)[], window: number): number {
+  let nearest: number | null = null;
+  for (const index of rsiPivots) {
+    const distance = Math.abs(index - priceIndex);
+    if (distance <= window && (nearest === null || distance < Math.abs(nearest - priceIndex))) nearest = index;
+  }
+  return rsis[nearest ?? priceIndex] as number;
+}
+
+// Regular and hidden divergences between the latest two close pivots and the RSI
+// pivots paired with them. Expects a gap-free, oldest-first series of closed candles.
+export function detectDivergences(
+  candles: Candle[],
+  timeframe: string,
+  rsiPeriod: number = 14,
+  options: DivergenceOptions = DEFAULT_OPTIONS
+): Divergence[] {
+  const closes = candles.map(candle => candle.close);
+  const rsi = new WilderRSI(rsiPeriod);
+  const rsis = closes.map(close => {
+    rsi.push(close);
+    return rsi.value();
+  });
+
+  const rsiValues = rsis.map(value => value ?? NaN); // Warm-up candles never form a pivot
+
+  const divergences: Divergence[] = [];
+  for (const type of ['low', 'high'] as const) {
+    const pivots = findPivots(closes, type, options).filter(index => rsis[index] !== null);
+    const rsiPivots = findPivots(rsiValues, type, options);
+    if (pivots.length < 2) continue;
+
+    const olderIndex = pivots[pivots.length - 2];
+    const newerIndex = pivots[pivots.length - 1];
+    const spacing = newerIndex - olderIndex;
+    if (spacing < options.minSpacing || spacing > options.maxSpacing) continue;
+    if (closes.length - 1 - newerIndex > options.maxAge) continue;
+
+    const toPivot = (index: number): DivergencePivot => ({
+      time: candles[index].openTime,
+      price: closes[index],
+      rsi: pairedRSI(index, rsiPivots, rsis, options.pivotWindow),
+    });
+    const older = toPivot(olderIndex);
+    const newer = toPivot(newerIndex);
+    const kind = classify(type, older, newer);
+    if (kind) divergences.push({ timeframe, kind, pivots: [older, newer] });
+  }
+  return divergences;
+}
+
+// Divergences per market/symbol/interval over a CandleStore. Pivots only move
+// when a candle closes, so detection runs once per newest candle.
+export class DivergenceTracker {
+  private cache: Map<string, { lastOpenTime: number; period: number; divergences: Divergence[] }> = new Map();
+
+  constructor(
+    private readonly candleStore: CandleStore,
+    private readonly periodFor: (market: Market, interval: string) => number = () => 14
+  ) {}
+
+  private key(market: Market, symbol: string, interval: string): string {
+    return `${market}:${symbol}:${interval}`;
+  }
+
+  public get(market: Market, symbol: string, interval: string): Divergence[] {
+    const key = this.key(market, symbol, interval);
+    const last = this.candleStore.lastCandle(market, symbol, interval);
+    if (!last) {
+      this.cache.delete(key);
+      return [];
+    }
+
+    const period = this.periodFor(market, interval);
+    const cached = this.cache.get(key);
+    if (cached && cached.lastOpenTime === last.openTime && cached.period === period) return cached.divergences;
+
+    // Only the gap-free tail is used, like RSI
+    const candles = this.candleStore.getContiguousCandles(market, symbol, interval);
+    const divergences = detectDivergences(candles, interval, period);
+    this.cache.set(key, { lastOpenTime: last.openTime, period, divergences });
+    return divergences;
+  }
+
+  // Call after candles were merged into the middle of a series or a candle was replaced
+  public invalidate(market: Market, symbol: string, interval: string) {
+    this.cache.delete(this.key(market, symbol, interval));
+  }
+
+  public clear() {
+    this.cache.clear();
+  }
+}
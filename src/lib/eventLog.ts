@@ -0,0 +1,150 @@
+import { Market, SignalTransition, TradingSignal, TransitionKind } from '@/types/trading';
+
+const MAX_EVENTS = 10000; // Kept in memory; older ones stay on disk until retention drops them
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const MARKETS: Market[] = ['spot', 'futures'];
+const KINDS: TransitionKind[] = ['signal', 'rsi_zone'];
+const SIGNALS: TradingSignal[] = ['STRONG_BUY', 'BUY', 'NEUTRAL', 'SELL', 'STRONG_SELL'];
+
+export interface TransitionQuery {
+  market?: Market;
+  symbol?: string;
+  kind?: TransitionKind;
+  timeframe?: string;
+  to?: TradingSignal;
+  since?: number; // Epoch ms, inclusive
+  until?: number; // Epoch ms, exclusive
+  limit: number;
+  cursor?: string; // Id of the last event on the previous page
+}
+
+export interface TransitionPage {
+  events: SignalTransition[]; // Newest first
+  total: number;              // Events matching the filters, across all pages
+  nextCursor: string | null;
+}
+
+function parseTime(value: string): number {
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+// Query string of GET /api/events; times are epoch ms or ISO dates
+export function parseTransitionQuery(params: URLSearchParams): { query: TransitionQuery; problems: string[] } {
+  const problems: string[] = [];
+  const query: TransitionQuery = { limit: DEFAULT_PAGE_SIZE };
+
+  const market = params.get('market');
+  if (market) {
+    if (MARKETS.includes(market as Market)) query.market = market as Market;
+    else problems.push(`market must be one of ${MARKETS.join(', ')}`);
+  }
+  const kind = params.get('kind');
+  if (kind) {
+    if (KINDS.includes(kind as TransitionKind)) query.kind = kind as TransitionKind;
+    else problems.push(`kind must be one of ${KINDS.join(', ')}`);
+  }
+  const to = params.get('to');
+  if (to) {
+    if (SIGNALS.includes(to.toUpperCase() as TradingSignal)) query.to = to.toUpperCase() as TradingSignal;
+    else problems.push(`to must be one of ${SIGNALS.join(', ')}`);
+  }
+  const symbol = params.get('symbol');
+  if (symbol) query.symbol = symbol.toUpperCase();
+  const timeframe = params.get('timeframe');
+  if (timeframe) query.timeframe = timeframe;
+
+  for (const key of ['since', 'until'] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    const time = parseTime(value);
+    if (Number.isFinite(time)) query[key] = time;
+    else problems.push(`${key} must be epoch milliseconds or an ISO date`);
+  }
+
+  const limit = params.get('limit');
+  if (limit) {
+    const value = Number(limit);
+    if (Number.isInteger(value) && value >= 1 && value <= MAX_PAGE_SIZE) query.limit = value;
+    else problems.push(`limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+  }
+  const cursor = params.get('cursor');
+  if (cursor) query.cursor = cursor;
+
+  return { query, problems };
+}
+
+function matches(event: SignalTransition, query: TransitionQuery): boolean {
+  return (!query.market || event.market === query.market)
+    && (!query.symbol || event.symbol === query.symbol)
+    && (!query.kind || event.kind === query.kind)
+    && (!query.timeframe || event.timeframe === query.timeframe)
+    && (!query.to || event.to === query.to)
+    && (query.since === undefined || event.timestamp >= query.since)
+    && (query.until === undefined || event.timestamp < query.until);
+}
+
+// Recent signal transitions in arrival order, with filtered, cursor-paginated
+// reads and listeners for live feeds. Persistence is up to the caller.
+export class TransitionLog {
+  private events: SignalTransition[] = [];
+  private listeners: Set<(event: SignalTransition) => void> = new Set();
+
+  // Replace the log with events restored from disk (oldest first)
+  public load(events: SignalTransition[]) {
+    this.events = events.slice(-MAX_EVENTS);
+  }
+
+  public add(event: SignalTransition) {
+    this.events.push(event);
+    if (this.events.length > MAX_EVENTS) this.events.shift();
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ Error notifying transition listener:', error);
+      }
+    }
+  }
+
+  // Every event in memory, oldest first
+  public all(): SignalTransition[] {
+    return [...this.events];
+  }
+
+  // null when the cursor isn't among the matching events (trimmed since, or from
+  // another filter), so the client restarts rather than re-reading the first page
+  public query(query: TransitionQuery): TransitionPage | null {
+    const matching: SignalTransition[] = [];
+    for (let i = this.events.length - 1; i >= 0; i--) {
+      if (matches(this.events[i], query)) matching.push(this.events[i]);
+    }
+
+    let start = 0;
+    if (query.cursor) {
+      const index = matching.findIndex(event => event.id === query.cursor);
+      if (index === -1) return null;
+      start = index + 1;
+    }
+    const events = matching.slice(start, start + query.limit);
+    const hasMore = start + query.limit < matching.length;
+    return {
+      events,
+      total: matching.length,
+      nextCursor: hasMore ? events[events.length - 1].id : null,
+    };
+  }
+
+  // Returns the function that stops listening
+  public listen(listener: (event: SignalTransition) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public clear() {
+    this.events = [];
+  }
+}
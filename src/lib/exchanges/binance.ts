@@ -0,0 +1,249 @@
+import { Market, MarketTicker } from '@/types/trading';
+import {
+  Candle,
+  ExchangeAdapter,
+  KlineRange,
+  KlineUpdate,
+  StreamLimits,
+  SubscriptionAck,
+  SubscriptionAction,
+  SymbolInfo,
+} from '@/types/exchange';
+import { api, rateLimiter } from '../http';
+
+const REST_BASE: Record<Market, string> = {
+  spot: 'https://api.binance.com/api/v3',
+  futures: 'https://fapi.binance.com/fapi/v1',
+};
+
+const STREAM_BASE: Record<Market, string> = {
+  spot: 'wss://stream.binance.com:9443',
+  futures: 'wss://fstream.binance.com',
+};
+
+// https://developers.binance.com/docs/binance-spot-api-docs/web-socket-streams
+// https://developers.binance.com/docs/derivatives/usds-margined-futures/websocket-market-streams
+// Futures is kept at the older 200-stream cap to leave headroom on fstream
+const STREAM_LIMITS: Record<Market, StreamLimits> = {
+  spot: { maxStreamsPerConnection: 1024, maxMessagesPerSecond: 5, maxConnectionsPerWindow: 300, connectionWindowMs: 5 * 60 * 1000 },
+  futures: { maxStreamsPerConnection: 200, maxMessagesPerSecond: 10, maxConnectionsPerWindow: 300, connectionWindowMs: 5 * 60 * 1000 },
+};
+
+// Leveraged tokens (BTCUP, ETHBEAR, ...) track a multiple of another asset's
+// price, so their RSI is meaningless next to the underlying pair
+const LEVERAGED_TOKEN_PATTERN = /(UP|DOWN|BULL|BEAR)USDT$/;
+
+// REST /ticker/24hr payload
+interface BinanceTickerData {
+  symbol: string;
+  priceChange: string;
+  priceChangePercent: string;
+  weightedAvgPrice: string;
+  prevClosePrice: string;
+  lastPrice: string;
+  lastQty: string;
+  bidPrice: string;
+  askPrice: string;
+  openPrice: string;
+  highPrice: string;
+  lowPrice: string;
+  volume: string;
+  quoteVolume: string;
+  openTime: number;
+  closeTime: number;
+  firstId: number;
+  lastId: number;
+  count: number;
+}
+
+// !ticker@arr stream payload
+interface BinanceStreamTicker {
+  s: string;  // symbol
+  c: string;  // close price
+  v: string;  // volume (base asset)
+  q: string;  // quote volume (USDT)
+  P: string;  // price change percent
+  h: string;  // high price
+  l: string;  // low price
+}
+
+// <symbol>@kline_<interval> stream payload
+interface BinanceStreamKline {
+  e: string;  // event type
+  s: string;  // symbol
+  k: {
+    s: string;  // symbol
+    i: string;  // interval
+    c: string;  // close price
+    o: string;  // open price
+    h: string;  // high price
+    l: string;  // low price
+    v: string;  // volume
+    t: number;  // kline start time
+    T: number;  // kline close time
+    x: boolean; // is this kline closed?
+  }
+}
+
+// /stream?streams= wraps every payload with the stream it came from
+interface BinanceCombinedMessage<T> {
+  stream: string;
+  data: T;
+}
+
+// Reply to a SUBSCRIBE/UNSUBSCRIBE request
+interface BinanceControlResponse {
+  id: number;
+  result?: null;
+  code?: number;
+  msg?: string;
+  error?: { code: number; msg: string };
+}
+
+type BinanceKlineResponse = [
+  number, // openTime
+  string, // open
+  string, // high
+  string, // low
+  string, // close
+  string, // volume
+  number, // closeTime
+  string, // quoteAssetVolume
+  number, // numberOfTrades
+  string, // takerBuyBaseAssetVolume
+  string, // takerBuyQuoteAssetVolume
+  string  // ignore
+];
+
+interface BinanceExchangeInfo {
+  symbols: Array<{
+    symbol: string;
+    status: string;
+    baseAsset: string;
+    quoteAsset: string;
+  }>;
+}
+
+export class BinanceAdapter implements ExchangeAdapter {
+  readonly id = 'binance';
+  readonly name = 'Binance';
+
+  isTrackedSymbol(symbol: string): boolean {
+    return symbol.endsWith('USDT') && !LEVERAGED_TOKEN_PATTERN.test(symbol);
+  }
+
+  async fetchSymbols(market: Market): Promise<SymbolInfo[]> {
+    const response = await rateLimiter.execute(() =>
+      api.get<BinanceExchangeInfo>(`${REST_BASE[market]}/exchangeInfo`)
+    );
+
+    return response.data.symbols.map(info => ({
+      symbol: info.symbol,
+      market,
+      baseAsset: info.baseAsset,
+      quoteAsset: info.quoteAsset,
+      trading: info.status === 'TRADING',
+    }));
+  }
+
+  tickerStreamUrl(market: Market): string {
+    return `${STREAM_BASE[market]}/ws/!ticker@arr`;
+  }
+
+  parseTickerMessage(raw: string): MarketTicker[] {
+    const tickers: BinanceStreamTicker[] = JSON.parse(raw);
+    return tickers.map(ticker => ({
+      symbol: ticker.s,
+      price: parseFloat(ticker.c),
+      volume24h: parseFloat(ticker.q),  // Use quote volume (USDT)
+      change24h: parseFloat(ticker.P),
+      high24h: parseFloat(ticker.h),
+      low24h: parseFloat(ticker.l),
+    }));
+  }
+
+  async fetchTickers(market: Market): Promise<MarketTicker[]> {
+    const response = await rateLimiter.execute(() =>
+      api.get<BinanceTickerData[]>(`${REST_BASE[market]}/ticker/24hr`)
+    );
+
+    return response.data.map(ticker => ({
+      symbol: ticker.symbol,
+      price: parseFloat(ticker.lastPrice),
+      volume24h: parseFloat(ticker.quoteVolume),
+      change24h: parseFloat(ticker.priceChangePercent),
+      high24h: parseFloat(ticker.highPrice),
+      low24h: parseFloat(ticker.lowPrice),
+    }));
+  }
+
+  streamLimits(market: Market): StreamLimits {
+    return STREAM_LIMITS[market];
+  }
+
+  klineStreamName(symbol: string, interval: string): string {
+    return `${symbol.toLowerCase()}@kline_${interval}`;
+  }
+
+  klineStreamUrl(market: Market, streams: string[]): string {
+    return `${STREAM_BASE[market]}/stream?streams=${streams.join('/')}`;
+  }
+
+  parseKlineMessage(raw: string): KlineUpdate | null {
+    const envelope: BinanceCombinedMessage<BinanceStreamKline> = JSON.parse(raw);
+    const message = envelope.data;
+    if (!message || message.e !== 'kline' || !message.k) return null;
+
+    const kline = message.k;
+    return {
+      symbol: message.s,
+      interval: kline.i,
+      candle: {
+        openTime: kline.t,
+        closeTime: kline.T,
+        open: parseFloat(kline.o),
+        high: parseFloat(kline.h),
+        low: parseFloat(kline.l),
+        close: parseFloat(kline.c),
+        volume: parseFloat(kline.v),
+      },
+      closed: kline.x,
+    };
+  }
+
+  subscriptionMessage(action: SubscriptionAction, streams: string[], id: number): string {
+    return JSON.stringify({
+      method: action === 'subscribe' ? 'SUBSCRIBE' : 'UNSUBSCRIBE',
+      params: streams,
+      id,
+    });
+  }
+
+  parseSubscriptionAck(raw: string): SubscriptionAck | null {
+    const message: BinanceControlResponse = JSON.parse(raw);
+    if (typeof message.id !== 'number' || 'stream' in message) return null;
+
+    if (message.error) return { id: message.id, error: message.error.msg };
+    if (message.code !== undefined) return { id: message.id, error: message.msg ?? `code ${message.code}` };
+    return { id: message.id, error: null };
+  }
+
+  async fetchKlines(market: Market, symbol: string, interval: string, limit: number, range: KlineRange = {}): Promise<Candle[]> {
+    const response = await rateLimiter.execute(() =>
+      api.get<BinanceKlineResponse[]>(`${REST_BASE[market]}/klines`, {
+        params: { symbol, interval, limit, ...range },
+        timeout: 8000, // 8 second timeout for klines requests
+      })
+    );
+
+    return (response.data ?? []).map(kline => ({
+      openTime: kline[0],
+      closeTime: kline[6],
+      open: parseFloat(kline[1]),
+      high: parseFloat(kline[2]),
+      low: parseFloat(kline[3]),
+      close: parseFloat(kline[4]),
+      volume: parseFloat(kline[5]),
+    }));
+  }
+}
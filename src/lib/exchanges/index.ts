@@ -0,0 +1,18 @@
+import { ExchangeAdapter } from '@/types/exchange';
+import { BinanceAdapter } from './binance';
+
+// Registered venue adapters, keyed by adapter id
+const adapters: Record<string, () => ExchangeAdapter> = {
+  binance: () => new BinanceAdapter(),
+};
+
+// Resolve an adapter by id (defaults to the EXCHANGE env var, then Binance)
+export function getExchangeAdapter(id: string = process.env.EXCHANGE || 'binance'): ExchangeAdapter {
+  const factory = adapters[id.toLowerCase()];
+  if (!factory) {
+    throw new Error(`Unknown exchange adapter "${id}". Available: ${Object.keys(adapters).join(', ')}`);
+  }
+  return factory();
+}
+
+export { BinanceAdapter };
@@ -0,0 +1,297 @@
+// Forward returns of signal transitions: each event's price joined with the stored
+// candles that closed 1h, 4h, 1d and 7d later, aggregated by signal, timeframe,
+// market and volume so the RSI bands can be tuned against what actually followed.
+import { Market, SignalTransition, TradingSignal, TransitionKind } from '@/types/trading';
+import { Candle } from '@/types/exchange';
+import {
+  ForwardOutcome,
+  ForwardReturnDimension,
+  ForwardReturnGroup,
+  ForwardReturnReport,
+  HorizonStats,
+} from '@/types/analytics';
+import { CandleStore } from './candleStore';
+import { TransitionLog } from './eventLog';
+import { RSI_TIMEFRAMES, intervalToMs } from './timeframes';
+
+export const FORWARD_HORIZONS = ['1h', '4h', '1d', '7d'];
+export const FORWARD_RETURN_DIMENSIONS: ForwardReturnDimension[] = ['signal', 'timeframe', 'market', 'volume'];
+
+// 24h quote volume when the event fired, smallest first; each bucket starts at `min`
+export const VOLUME_BUCKETS: { label: string; min: number }[] = [
+  { label: '<10M', min: 0 },
+  { label: '10M-50M', min: 10e6 },
+  { label: '50M-250M', min: 50e6 },
+  { label: '250M+', min: 250e6 },
+];
+
+const MARKETS: Market[] = ['spot', 'futures'];
+const KINDS: TransitionKind[] = ['signal', 'rsi_zone'];
+const DEFAULT_GROUP_BY: ForwardReturnDimension[] = ['signal', 'timeframe'];
+const SETTLE_GRACE_MS = 24 * 60 * 60 * 1000; // Time for late candles (refills) before a missing return is final
+const BULLISH: TradingSignal[] = ['BUY', 'STRONG_BUY'];
+const BEARISH: TradingSignal[] = ['SELL', 'STRONG_SELL'];
+const SIGNAL_ORDER: TradingSignal[] = ['STRONG_BUY', 'BUY', 'NEUTRAL', 'SELL', 'STRONG_SELL'];
+
+export interface ForwardReturnQuery {
+  groupBy: ForwardReturnDimension[];
+  market?: Market;
+  kind?: TransitionKind;
+  since?: number; // Epoch ms, inclusive
+  until?: number; // Epoch ms, exclusive
+}
+
+export function volumeBucket(volume: number | undefined): string {
+  if (volume === undefined) return 'unknown';
+  return [...VOLUME_BUCKETS].reverse().find(bucket => volume >= bucket.min)?.label ?? VOLUME_BUCKETS[0].label;
+}
+
+function parseTime(value: string): number {
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+// Query string of GET /api/analytics/forward-returns: groupBy (comma-separated
+// dimensions, default signal,timeframe), market, kind, since and until
+export function parseForwardReturnQuery(params: URLSearchParams): { query: ForwardReturnQuery; problems: string[] } {
+  const problems: string[] = [];
+  const query: ForwardReturnQuery = { groupBy: DEFAULT_GROUP_BY };
+
+  const groupBy = params.get('groupBy');
+  if (groupBy !== null) {
+    const dimensions = groupBy.split(',').map(part => part.trim()).filter(Boolean);
+    const unknown = dimensions.filter(dimension => !FORWARD_RETURN_DIMENSIONS.includes(dimension as ForwardReturnDimension));
+    if (unknown.length > 0) problems.push(`groupBy takes ${FORWARD_RETURN_DIMENSIONS.join(', ')} (got ${unknown.join(', ')})`);
+    else query.groupBy = [...new Set(dimensions)] as ForwardReturnDimension[];
+  }
+  const market = params.get('market');
+  if (market) {
+    if (MARKETS.includes(market as Market)) query.market = market as Market;
+    else problems.push(`market must be one of ${MARKETS.join(', ')}`);
+  }
+  const kind = params.get('kind');
+  if (kind) {
+    if (KINDS.includes(kind as TransitionKind)) query.kind = kind as TransitionKind;
+    else problems.push(`kind must be one of ${KINDS.join(', ')}`);
+  }
+  for (const key of ['since', 'until'] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    const time = parseTime(value);
+    if (Number.isFinite(time)) query[key] = time;
+    else problems.push(`${key} must be epoch milliseconds or an ISO date`);
+  }
+
+  return { query, problems };
+}
+
+// Close of the last candle closed by `time`, or null when that candle isn't stored
+function closeAt(candles: Candle[], interval: string, time: number): number | null {
+  let low = 0;
+  let high = candles.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (candles[middle].closeTime <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  if (found === -1 || time - candles[found].closeTime >= intervalToMs(interval)) return null;
+  return candles[found].close;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function horizonStats(outcomes: ForwardOutcome[], horizon: string, now: number): HorizonStats {
+  const samples = outcomes.filter(outcome => outcome.returns[horizon] !== null);
+  const returns = samples.map(outcome => outcome.returns[horizon] as number);
+  const hits = samples.filter(outcome => {
+    const move = outcome.returns[horizon] as number;
+    return (BULLISH.includes(outcome.signal) && move > 0) || (BEARISH.includes(outcome.signal) && move < 0);
+  });
+  const directional = samples.filter(outcome => outcome.signal !== 'NEUTRAL');
+
+  return {
+    samples: samples.length,
+    pending: outcomes.filter(outcome => outcome.timestamp + intervalToMs(horizon) > now).length,
+    hitRate: directional.length > 0 ? (hits.length / directional.length) * 100 : null,
+    medianReturnPct: median(returns),
+    meanReturnPct: returns.length > 0 ? returns.reduce((sum, value) => sum + value, 0) / returns.length : null,
+  };
+}
+
+function dimensionValue(outcome: ForwardOutcome, dimension: ForwardReturnDimension): string {
+  switch (dimension) {
+    case 'signal':
+      return outcome.signal;
+    case 'timeframe':
+      return outcome.timeframe;
+    case 'market':
+      return outcome.market;
+    case 'volume':
+      return outcome.volumeBucket;
+  }
+}
+
+// Signals strongest-buy first, timeframes shortest first, volume smallest first
+function dimensionRank(dimension: ForwardReturnDimension, value: string): number {
+  switch (dimension) {
+    case 'signal':
+      return SIGNAL_ORDER.indexOf(value as TradingSignal);
+    case 'timeframe':
+      return value === 'pair' ? -1 : RSI_TIMEFRAMES.indexOf(value);
+    case 'market':
+      return MARKETS.indexOf(value as Market);
+    case 'volume': {
+      const index = VOLUME_BUCKETS.findIndex(bucket => bucket.label === value);
+      return index === -1 ? VOLUME_BUCKETS.length : index;
+    }
+  }
+}
+
+export function aggregateForwardReturns(
+  outcomes: ForwardOutcome[],
+  groupBy: ForwardReturnDimension[],
+  now: number = Date.now()
+): ForwardReturnGroup[] {
+  const groups: Map<string, ForwardOutcome[]> = new Map();
+  for (const outcome of outcomes) {
+    const key = JSON.stringify(groupBy.map(dimension => dimensionValue(outcome, dimension)));
+    const members = groups.get(key);
+    if (members) members.push(outcome);
+    else groups.set(key, [outcome]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, members]) => {
+      const values: string[] = JSON.parse(key);
+      return {
+        key: Object.fromEntries(groupBy.map((dimension, index) => [dimension, values[index]])),
+        events: members.length,
+        horizons: Object.fromEntries(FORWARD_HORIZONS.map(horizon => [horizon, horizonStats(members, horizon, now)])),
+      };
+    })
+    .sort((a, b) => {
+      for (const dimension of groupBy) {
+        const difference = dimensionRank(dimension, a.key[dimension]!) - dimensionRank(dimension, b.key[dimension]!);
+        if (difference !== 0) return difference;
+      }
+      return 0;
+    });
+}
+
+// Joins the transition log with the candle store. run() is the periodic job:
+// outcomes whose horizons have all passed are settled and kept, the rest are
+// recomputed, and events that left the log are dropped.
+export class ForwardReturnAnalytics {
+  private outcomes: Map<string, ForwardOutcome> = new Map();
+  private settled: Set<string> = new Set();
+  private lastRun: number | null = null;
+
+  constructor(
+    private readonly candleStore: CandleStore,
+    private readonly log: TransitionLog
+  ) {}
+
+  public run(now: number = Date.now()) {
+    const candleCache: Map<string, Candle[]> = new Map();
+    const candlesFor = (market: Market, symbol: string, interval: string) => {
+      const key = `${market}:${symbol}:${interval}`;
+      let candles = candleCache.get(key);
+      if (!candles) {
+        candles = this.candleStore.getCandles(market, symbol, interval);
+        candleCache.set(key, candles);
+      }
+      return candles;
+    };
+
+    const outcomes: Map<string, ForwardOutcome> = new Map();
+    let computed = 0;
+    for (const event of this.log.all()) {
+      const existing = this.outcomes.get(event.id);
+      if (existing && this.settled.has(event.id)) {
+        outcomes.set(event.id, existing);
+        continue;
+      }
+      const outcome = this.resolve(event, now, candlesFor);
+      outcomes.set(event.id, outcome);
+      computed++;
+      const settled = FORWARD_HORIZONS.every(horizon =>
+        outcome.returns[horizon] !== null || now - event.timestamp > intervalToMs(horizon) + SETTLE_GRACE_MS
+      );
+      if (settled) this.settled.add(event.id);
+    }
+
+    for (const id of this.settled) {
+      if (!outcomes.has(id)) this.settled.delete(id);
+    }
+    this.outcomes = outcomes;
+    this.lastRun = now;
+    console.log(`📐 Forward returns: ${outcomes.size} events (${computed} recomputed, ${this.settled.size} settled)`);
+  }
+
+  public report(query: ForwardReturnQuery, now: number = Date.now()): ForwardReturnReport {
+    const outcomes = Array.from(this.outcomes.values()).filter(outcome =>
+      (!query.market || outcome.market === query.market)
+      && (!query.kind || outcome.kind === query.kind)
+      && (query.since === undefined || outcome.timestamp >= query.since)
+      && (query.until === undefined || outcome.timestamp < query.until)
+    );
+
+    return {
+      generatedAt: this.lastRun,
+      horizons: FORWARD_HORIZONS,
+      groupBy: query.groupBy,
+      events: outcomes.length,
+      groups: aggregateForwardReturns(outcomes, query.groupBy, now),
+    };
+  }
+
+  public clear() {
+    this.outcomes.clear();
+    this.settled.clear();
+    this.lastRun = null;
+  }
+
+  // The price each horizon later comes from the finest stored timeframe no longer
+  // than the horizon, so a 1h return isn't read off a daily candle
+  private resolve(
+    event: SignalTransition,
+    now: number,
+    candlesFor: (market: Market, symbol: string, interval: string) => Candle[]
+  ): ForwardOutcome {
+    const returns: Record<string, number | null> = {};
+    for (const horizon of FORWARD_HORIZONS) {
+      const horizonMs = intervalToMs(horizon);
+      const target = event.timestamp + horizonMs;
+      let price: number | null = null;
+      if (target <= now) {
+        for (const interval of RSI_TIMEFRAMES.filter(timeframe => intervalToMs(timeframe) <= horizonMs)) {
+          price = closeAt(candlesFor(event.market, event.symbol, interval), interval, target);
+          if (price !== null) break;
+        }
+      }
+      returns[horizon] = price === null ? null : (price / event.price - 1) * 100;
+    }
+
+    return {
+      eventId: event.id,
+      kind: event.kind,
+      market: event.market,
+      symbol: event.symbol,
+      signal: event.to,
+      timeframe: event.timeframe ?? 'pair',
+      volumeBucket: volumeBucket(event.volume24h),
+      timestamp: event.timestamp,
+      price: event.price,
+      returns,
+    };
+  }
+}
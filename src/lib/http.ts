@@ -0,0 +1,77 @@
+import axios, { AxiosError } from 'axios';
+
+// Configure axios with timeouts and retry logic
+export const api = axios.create({
+  timeout: 10000, // 10 second timeout
+  headers: {
+    'User-Agent': 'crypto-rsi-dashboard/2.0.0',
+  },
+});
+
+// Add retry interceptor
+api.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const config = error.config as (AxiosError['config'] & { __retryCount?: number });
+    if (!config) return Promise.reject(error);
+
+    // Retry logic for network errors and 5xx errors
+    if (
+      (!error.response || (error.response.status >= 500 && error.response.status < 600) || 
+       error.code === 'ETIMEDOUT' || error.code === 'ECONNRESET') &&
+      !config.__retryCount
+    ) {
+      config.__retryCount = 1;
+      console.warn(`Retrying request to ${config.url} due to ${error.code || error.message}`);
+      
+      // Wait 1 second before retry
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      return api.request(config);
+    }
+    
+    return Promise.reject(error);
+  }
+);
+
+// Rate limiting - simple queue to avoid overwhelming the API
+export class RateLimiter {
+  private queue: Array<() => void> = [];
+  private processing = false;
+  private lastRequest = 0;
+  private minInterval = 100; // Minimum 100ms between requests
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.queue.push(async () => {
+        try {
+          const now = Date.now();
+          const timeSinceLastRequest = now - this.lastRequest;
+          if (timeSinceLastRequest < this.minInterval) {
+            await new Promise(r => setTimeout(r, this.minInterval - timeSinceLastRequest));
+          }
+          
+          this.lastRequest = Date.now();
+          const result = await fn();
+          resolve(result);
+        } catch (error) {
+          reject(error);
+        }
+      });
+      
+      this.processQueue();
+    });
+  }
+
+  private async processQueue() {
+    if (this.processing || this.queue.length === 0) return;
+    
+    this.processing = true;
+    while (this.queue.length > 0) {
+      const task = this.queue.shift()!;
+      await task();
+    }
+    this.processing = false;
+  }
+}
+
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,40 @@
+import { Candle } from '@/types/exchange';
+import { Indicator, IndicatorValues } from '@/types/indicators';
+import { finite, round } from './math';
+
+// Average True Range with Wilder's smoothing, also given as a % of the close
+export class ATR implements Indicator {
+  readonly id = 'atr';
+  readonly name = 'Average True Range';
+  readonly outputs = [
+    { key: 'atr', label: 'ATR', format: 'price' as const },
+    { key: 'atrPercent', label: 'ATR %', format: 'percent' as const },
+  ];
+
+  constructor(private readonly period: number = 14) {}
+
+  compute(candles: Candle[]): IndicatorValues {
+    if (candles.length < this.period) return { atr: null, atrPercent: null };
+
+    let atr = 0;
+    for (let i = 0; i < candles.length; i++) {
+      const { high, low } = candles[i];
+      const prevClose = i > 0 ? candles[i - 1].close : null;
+      const trueRange = prevClose === null
+        ? high - low
+        : Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+
+      if (i < this.period) {
+        atr += trueRange / this.period;
+      } else {
+        atr = (atr * (this.period - 1) + trueRange) / this.period;
+      }
+    }
+
+    const close = candles[candles.length - 1].close;
+    return {
+      atr: finite(atr),
+      atrPercent: close === 0 ? null : round((atr / close) * 100),
+    };
+  }
+}
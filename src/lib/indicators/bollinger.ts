@@ -0,0 +1,32 @@
+import { Candle } from '@/types/exchange';
+import { Indicator, IndicatorValues } from '@/types/indicators';
+import { last, round, smaSeries, stdDevSeries } from './math';
+
+// Bollinger Bands reduced to %B (0 = lower band, 1 = upper band) and bandwidth (% of the middle band)
+export class BollingerBands implements Indicator {
+  readonly id = 'bollinger';
+  readonly name = 'Bollinger Bands';
+  readonly outputs = [
+    { key: 'bbPercentB', label: 'Bollinger %B', format: 'number' as const },
+    { key: 'bbBandwidth', label: 'Bollinger Bandwidth', format: 'percent' as const },
+  ];
+
+  constructor(private readonly period: number = 20, private readonly multiplier: number = 2) {}
+
+  compute(candles: Candle[]): IndicatorValues {
+    const closes = candles.map(candle => candle.close);
+    const middle = last(smaSeries(closes, this.period));
+    const deviation = last(stdDevSeries(closes, this.period));
+    const close = last(closes);
+    if (middle === null || deviation === null || close === null) {
+      return { bbPercentB: null, bbBandwidth: null };
+    }
+
+    const upper = middle + this.multiplier * deviation;
+    const lower = middle - this.multiplier * deviation;
+    return {
+      bbPercentB: upper === lower ? null : round((close - lower) / (upper - lower), 4),
+      bbBandwidth: middle === 0 ? null : round(((upper - lower) / middle) * 100),
+    };
+  }
+}
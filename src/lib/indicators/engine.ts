@@ -0,0 +1,44 @@
+import { Market } from '@/types/trading';
+import { IndicatorValues } from '@/types/indicators';
+import { CandleStore } from '../candleStore';
+import { INDICATORS, computeIndicators } from '.';
+
+// Indicator values per market/symbol/interval over a CandleStore's closed candles.
+// Values only change when a candle closes, so they are computed once per newest
+// candle and reused for every ticker update in between.
+export class IndicatorEngine {
+  private cache: Map<string, { lastOpenTime: number; values: IndicatorValues }> = new Map();
+
+  constructor(private readonly candleStore: CandleStore, private readonly indicators = INDICATORS) {}
+
+  private key(market: Market, symbol: string, interval: string): string {
+    return `${market}:${symbol}:${interval}`;
+  }
+
+  public get(market: Market, symbol: string, interval: string): IndicatorValues {
+    const key = this.key(market, symbol, interval);
+    const last = this.candleStore.lastCandle(market, symbol, interval);
+    if (!last) {
+      this.cache.delete(key);
+      return computeIndicators([], this.indicators);
+    }
+
+    const cached = this.cache.get(key);
+    if (cached && cached.lastOpenTime === last.openTime) return cached.values;
+
+    // Only the gap-free tail is used, like RSI
+    const candles = this.candleStore.getContiguousCandles(market, symbol, interval);
+    const values = computeIndicators(candles, this.indicators);
+    this.cache.set(key, { lastOpenTime: last.openTime, values });
+    return values;
+  }
+
+  // Call after candles were merged into the middle of a series or a candle was replaced
+  public invalidate(market: Market, symbol: string, interval: string) {
+    this.cache.delete(this.key(market, symbol, interval));
+  }
+
+  public clear() {
+    this.cache.clear();
+  }
+}
@@ -0,0 +1,52 @@
+import { Candle } from '@/types/exchange';
+import { Indicator, IndicatorOutput, IndicatorValues } from '@/types/indicators';
+import { StochRSI } from './stochRsi';
+import { MACD } from './macd';
+import { MovingAverageCross } from './movingAverageCross';
+import { BollingerBands } from './bollinger';
+import { ATR } from './atr';
+
+// Registered indicators, keyed by indicator id
+const indicators: Record<string, () => Indicator> = {
+  stochrsi: () => new StochRSI(),
+  macd: () => new MACD(),
+  macross: () => new MovingAverageCross(),
+  bollinger: () => new BollingerBands(),
+  atr: () => new ATR(),
+};
+
+// Comma-separated indicator ids to enable (all of them when unset); unknown ids are dropped
+export function getIndicators(ids: string | undefined = process.env.NEXT_PUBLIC_INDICATORS): Indicator[] {
+  const requested = ids === undefined
+    ? Object.keys(indicators)
+    : ids.split(',').map(id => id.trim().toLowerCase()).filter(Boolean);
+
+  return requested.flatMap(id => {
+    const factory = indicators[id];
+    if (!factory) {
+      console.warn(`⚠️ Unknown indicator "${id}". Available: ${Object.keys(indicators).join(', ')}`);
+      return [];
+    }
+    return [factory()];
+  });
+}
+
+// Enabled indicators; shared by the server (values) and the table (columns)
+export const INDICATORS = getIndicators();
+
+export const INDICATOR_OUTPUTS: IndicatorOutput[] = INDICATORS.flatMap(indicator => indicator.outputs);
+
+export function computeIndicators(candles: Candle[], enabled: Indicator[] = INDICATORS): IndicatorValues {
+  const values: IndicatorValues = {};
+  for (const indicator of enabled) {
+    try {
+      Object.assign(values, indicator.compute(candles));
+    } catch (error) {
+      console.error(`❌ Indicator ${indicator.id} failed:`, error instanceof Error ? error.message : error);
+      for (const output of indicator.outputs) values[output.key] = null;
+    }
+  }
+  return values;
+}
+
+export { StochRSI, MACD, MovingAverageCross, BollingerBands, ATR };
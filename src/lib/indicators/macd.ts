@@ -0,0 +1,41 @@
+import { Candle } from '@/types/exchange';
+import { Indicator, IndicatorValues } from '@/types/indicators';
+import { defined, emaSeries, finite, last } from './math';
+
+// Moving Average Convergence Divergence: fast EMA minus slow EMA, with an EMA signal line
+export class MACD implements Indicator {
+  readonly id = 'macd';
+  readonly name = 'MACD';
+  readonly outputs = [
+    { key: 'macd', label: 'MACD', format: 'price' as const },
+    { key: 'macdSignal', label: 'MACD Signal', format: 'price' as const },
+    { key: 'macdHistogram', label: 'MACD Histogram', format: 'price' as const },
+  ];
+
+  constructor(
+    private readonly fastPeriod: number = 12,
+    private readonly slowPeriod: number = 26,
+    private readonly signalPeriod: number = 9
+  ) {}
+
+  compute(candles: Candle[]): IndicatorValues {
+    const closes = candles.map(candle => candle.close);
+    const fast = emaSeries(closes, this.fastPeriod);
+    const slow = emaSeries(closes, this.slowPeriod);
+
+    const macdLine = defined(closes.map((_, i) => {
+      const fastValue = fast[i];
+      const slowValue = slow[i];
+      return fastValue !== null && slowValue !== null ? fastValue - slowValue : null;
+    }));
+    const signalLine = defined(emaSeries(macdLine, this.signalPeriod));
+
+    const macd = last(macdLine);
+    const signal = last(signalLine);
+    return {
+      macd: finite(macd),
+      macdSignal: finite(signal),
+      macdHistogram: macd !== null && signal !== null ? finite(macd - signal) : null,
+    };
+  }
+}
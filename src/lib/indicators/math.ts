@@ -0,0 +1,62 @@
+// Series helpers shared by the built-in indicators. Every function returns an
+// array aligned with its input, with null where the window isn't full yet.
+
+export function smaSeries(values: number[], period: number): (number | null)[] {
+  const result: (number | null)[] = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    result.push(i >= period - 1 ? sum / period : null);
+  }
+  return result;
+}
+
+// EMA seeded with the SMA of the first `period` values
+export function emaSeries(values: number[], period: number): (number | null)[] {
+  const result: (number | null)[] = [];
+  const alpha = 2 / (period + 1);
+  let ema: number | null = null;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (ema === null) {
+      sum += values[i];
+      if (i === period - 1) ema = sum / period;
+    } else {
+      ema = values[i] * alpha + ema * (1 - alpha);
+    }
+    result.push(ema);
+  }
+  return result;
+}
+
+// Population standard deviation of the trailing window ending at each index
+export function stdDevSeries(values: number[], period: number): (number | null)[] {
+  return values.map((_, i) => {
+    if (i < period - 1) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    const mean = window.reduce((sum, value) => sum + value, 0) / period;
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period;
+    return Math.sqrt(variance);
+  });
+}
+
+// Drop the leading nulls of a series
+export function defined(values: (number | null)[]): number[] {
+  return values.filter((value): value is number => value !== null);
+}
+
+export function last<T>(values: T[]): T | null {
+  return values.length > 0 ? values[values.length - 1] : null;
+}
+
+// Oscillator-style outputs are rounded like RSI; price levels are left as-is
+export function round(value: number | null, decimals: number = 2): number | null {
+  if (value === null || !Number.isFinite(value)) return null;
+  const rounded = parseFloat(value.toFixed(decimals));
+  return rounded === 0 ? 0 : rounded; // No -0 from float drift
+}
+
+export function finite(value: number | null): number | null {
+  return value !== null && Number.isFinite(value) ? value : null;
+}
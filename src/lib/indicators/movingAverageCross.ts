@@ -0,0 +1,51 @@
+import { Candle } from '@/types/exchange';
+import { Indicator, IndicatorOutput, IndicatorValues } from '@/types/indicators';
+import { emaSeries, finite, last, smaSeries } from './math';
+
+// Fast EMA against slow SMA. `maCross` counts candles since the last crossover,
+// positive after the EMA crossed above the SMA and negative after it crossed
+// below (±1 = crossed on the newest candle); null when no cross is in range.
+export class MovingAverageCross implements Indicator {
+  readonly id = 'macross';
+  readonly name = 'EMA/SMA Cross';
+  readonly outputs: IndicatorOutput[];
+
+  constructor(private readonly emaPeriod: number = 20, private readonly smaPeriod: number = 50) {
+    this.outputs = [
+      { key: `ema${emaPeriod}`, label: `EMA ${emaPeriod}`, format: 'price' },
+      { key: `sma${smaPeriod}`, label: `SMA ${smaPeriod}`, format: 'price' },
+      { key: 'maCross', label: `EMA ${emaPeriod}/SMA ${smaPeriod} Cross`, format: 'number' },
+    ];
+  }
+
+  compute(candles: Candle[]): IndicatorValues {
+    const closes = candles.map(candle => candle.close);
+    const ema = emaSeries(closes, this.emaPeriod);
+    const sma = smaSeries(closes, this.smaPeriod);
+
+    // Sign of EMA - SMA wherever both exist, newest last
+    const sides: number[] = [];
+    for (let i = 0; i < closes.length; i++) {
+      const emaValue = ema[i];
+      const smaValue = sma[i];
+      if (emaValue !== null && smaValue !== null) sides.push(Math.sign(emaValue - smaValue));
+    }
+
+    let maCross: number | null = null;
+    const side = last(sides);
+    if (side) {
+      for (let i = sides.length - 2; i >= 0; i--) {
+        if (sides[i] !== side) {
+          maCross = side * (sides.length - 1 - i);
+          break;
+        }
+      }
+    }
+
+    return {
+      [`ema${this.emaPeriod}`]: finite(last(ema)),
+      [`sma${this.smaPeriod}`]: finite(last(sma)),
+      maCross,
+    };
+  }
+}
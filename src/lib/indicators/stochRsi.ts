@@ -0,0 +1,47 @@
+import { Candle } from '@/types/exchange';
+import { Indicator, IndicatorValues } from '@/types/indicators';
+import { WilderRSI } from '../rsi';
+import { last, round, smaSeries, defined } from './math';
+
+// Stochastic RSI: where RSI sits within its own recent range, smoothed into %K and %D
+export class StochRSI implements Indicator {
+  readonly id = 'stochrsi';
+  readonly name = 'Stochastic RSI';
+  readonly outputs = [
+    { key: 'stochRsiK', label: 'StochRSI %K', format: 'number' as const },
+    { key: 'stochRsiD', label: 'StochRSI %D', format: 'number' as const },
+  ];
+
+  constructor(
+    private readonly rsiPeriod: number = 14,
+    private readonly stochPeriod: number = 14,
+    private readonly kSmoothing: number = 3,
+    private readonly dSmoothing: number = 3
+  ) {}
+
+  compute(candles: Candle[]): IndicatorValues {
+    const rsi = new WilderRSI(this.rsiPeriod);
+    const rsis: number[] = [];
+    for (const candle of candles) {
+      rsi.push(candle.close);
+      const value = rsi.value();
+      if (value !== null) rsis.push(value);
+    }
+
+    const stoch: number[] = [];
+    for (let i = this.stochPeriod - 1; i < rsis.length; i++) {
+      const window = rsis.slice(i - this.stochPeriod + 1, i + 1);
+      const low = Math.min(...window);
+      const high = Math.max(...window);
+      // A flat window has no range to sit in; treat it as mid-range
+      stoch.push(high === low ? 50 : ((rsis[i] - low) / (high - low)) * 100);
+    }
+
+    const k = defined(smaSeries(stoch, this.kSmoothing));
+    const d = defined(smaSeries(k, this.dSmoothing));
+    return {
+      stochRsiK: round(last(k)),
+      stochRsiD: round(last(d)),
+    };
+  }
+}
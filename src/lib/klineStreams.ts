@@ -0,0 +1,480 @@
+import WebSocket from 'ws';
+import { Market } from '@/types/trading';
+import { ExchangeAdapter, KlineUpdate, SubscriptionAction } from '@/types/exchange';
+
+interface PendingRequest {
+  id: number;
+  action: SubscriptionAction;
+  streams: string[];
+  timer: NodeJS.Timeout | null; // null while still queued for sending
+}
+
+interface KlineShard {
+  id: number;
+  streams: Set<string>;       // Streams this shard should carry
+  active: Set<string>;        // Streams the venue has confirmed on the open socket
+  pending: Map<number, PendingRequest>;
+  sendQueue: PendingRequest[];
+  sendTimer: NodeJS.Timeout | null;
+  lastSentAt: number;
+  ws: WebSocket | null;
+  reconnectTimer: NodeJS.Timeout | null;
+  reconnectAttempts: number;
+  retryTimer: NodeJS.Timeout | null; // Reconcile scheduled after a failed subscription request
+  retryAttempts: number;             // Failed requests since the last acknowledged one
+}
+
+interface StreamTarget {
+  symbol: string;
+  interval: string;
+}
+
+export interface KlinePoolStatus {
+  connections: number;
+  connected: number;
+  streams: number;
+  pendingRequests: number;
+  symbols: string[];
+}
+
+interface KlineStreamPoolOptions {
+  onKline: (update: KlineUpdate) => void;
+  onShardDown?: (symbols: string[]) => void;
+  onShardReconnect?: (symbols: string[]) => void;
+}
+
+// Keeps every kline stream of one market open, split across as few combined
+// stream connections as the venue's per-connection limits allow. Symbol set
+// changes are applied with SUBSCRIBE/UNSUBSCRIBE frames on the open sockets.
+// A stream moved between shards keeps flowing from its old shard until the new
+// shard's subscription is acknowledged, so streams that stay are never interrupted.
+export class KlineStreamPool {
+  private shards: Map<number, KlineShard> = new Map();
+  private targets: Map<string, StreamTarget> = new Map();
+  private owners: Map<string, number> = new Map(); // stream -> shard whose messages we accept
+  private nextShardId = 0;
+  private nextRequestId = 1;
+  private lastConnectAt = 0;
+  private closed = false;
+  private readonly maxReconnectDelay = 30000;
+  private readonly initialReconnectDelay = 1000;
+  private readonly ackTimeout = 10000;
+
+  constructor(
+    private readonly adapter: ExchangeAdapter,
+    private readonly market: Market,
+    private readonly options: KlineStreamPoolOptions
+  ) {}
+
+  // Replace the tracked symbol set and rebalance shards to match it
+  public setSymbols(symbols: string[], intervals: string[]) {
+    this.closed = false;
+
+    const desired: Map<string, StreamTarget> = new Map();
+    for (const symbol of symbols) {
+      for (const interval of intervals) {
+        desired.set(this.adapter.klineStreamName(symbol, interval), { symbol, interval });
+      }
+    }
+    this.targets = desired;
+
+    const { maxStreamsPerConnection } = this.adapter.streamLimits(this.market);
+    const changed: Set<KlineShard> = new Set();
+    const assigned: Set<string> = new Set();
+
+    // Drop streams that fell out of the tracked set
+    for (const shard of this.shards.values()) {
+      for (const stream of shard.streams) {
+        if (desired.has(stream)) {
+          assigned.add(stream);
+        } else {
+          shard.streams.delete(stream);
+          changed.add(shard);
+        }
+      }
+    }
+
+    // Fill spare capacity on existing shards before opening new ones
+    const unassigned = Array.from(desired.keys()).filter(stream => !assigned.has(stream));
+    for (const shard of this.shards.values()) {
+      while (unassigned.length > 0 && this.capacityUsed(shard) < maxStreamsPerConnection) {
+        shard.streams.add(unassigned.shift()!);
+        changed.add(shard);
+      }
+    }
+    while (unassigned.length > 0) {
+      const shard = this.createShard();
+      for (const stream of unassigned.splice(0, maxStreamsPerConnection)) {
+        shard.streams.add(stream);
+      }
+      changed.add(shard);
+    }
+
+    this.compactShards(maxStreamsPerConnection, changed);
+
+    for (const shard of changed) {
+      this.applyShard(shard);
+    }
+
+    if (changed.size > 0) {
+      console.log(`📊 ${this.market} kline pool: ${desired.size} streams across ${this.shards.size} connections (${changed.size} rebalanced)`);
+    }
+  }
+
+  // A draining shard still carries its old streams until their new owner confirms
+  private capacityUsed(shard: KlineShard): number {
+    let used = shard.streams.size;
+    for (const stream of shard.active) {
+      if (!shard.streams.has(stream)) used++;
+    }
+    return used;
+  }
+
+  // Merge the emptiest shards into the others once fewer connections would do
+  private compactShards(maxStreamsPerConnection: number, changed: Set<KlineShard>) {
+    const required = Math.ceil(this.targets.size / maxStreamsPerConnection);
+    const donors: Set<number> = new Set();
+
+    while (this.shards.size - donors.size > Math.max(required, 1)) {
+      const [emptiest, ...rest] = Array.from(this.shards.values())
+        .filter(shard => !donors.has(shard.id))
+        .sort((a, b) => a.streams.size - b.streams.size);
+
+      for (const shard of rest) {
+        for (const stream of emptiest.streams) {
+          if (this.capacityUsed(shard) >= maxStreamsPerConnection) break;
+          shard.streams.add(stream);
+          emptiest.streams.delete(stream);
+          changed.add(shard);
+          changed.add(emptiest);
+        }
+      }
+
+      // Nothing could move; the remaining shards are full
+      if (emptiest.streams.size > 0) break;
+
+      changed.add(emptiest);
+      donors.add(emptiest.id);
+    }
+  }
+
+  // Bring one shard's connection in line with its assigned streams
+  private applyShard(shard: KlineShard) {
+    if (shard.streams.size === 0 && !this.ownsAnyStream(shard)) {
+      this.closeShard(shard);
+      return;
+    }
+
+    if (shard.ws?.readyState === WebSocket.OPEN) {
+      this.reconcile(shard);
+    } else if (!shard.ws && !shard.reconnectTimer && shard.streams.size > 0) {
+      this.connectShard(shard);
+    }
+    // A socket that is still connecting reconciles once it opens
+  }
+
+  private ownsAnyStream(shard: KlineShard): boolean {
+    for (const owner of this.owners.values()) {
+      if (owner === shard.id) return true;
+    }
+    return false;
+  }
+
+  private createShard(): KlineShard {
+    const shard: KlineShard = {
+      id: this.nextShardId++,
+      streams: new Set(),
+      active: new Set(),
+      pending: new Map(),
+      sendQueue: [],
+      sendTimer: null,
+      lastSentAt: 0,
+      ws: null,
+      reconnectTimer: null,
+      reconnectAttempts: 0,
+      retryTimer: null,
+      retryAttempts: 0,
+    };
+    this.shards.set(shard.id, shard);
+    return shard;
+  }
+
+  // Space connection attempts so bursts stay under the venue's connection limit
+  private nextConnectDelay(): number {
+    const { maxConnectionsPerWindow, connectionWindowMs } = this.adapter.streamLimits(this.market);
+    const minGap = Math.ceil(connectionWindowMs / maxConnectionsPerWindow);
+    const now = Date.now();
+    const connectAt = Math.max(now, this.lastConnectAt + minGap);
+    this.lastConnectAt = connectAt;
+    return connectAt - now;
+  }
+
+  private connectShard(shard: KlineShard) {
+    this.disposeSocket(shard);
+
+    const delay = this.nextConnectDelay();
+    shard.reconnectTimer = setTimeout(() => {
+      shard.reconnectTimer = null;
+      if (this.closed || !this.shards.has(shard.id)) return;
+      if (shard.streams.size === 0) {
+        this.closeShard(shard);
+        return;
+      }
+      this.openSocket(shard);
+    }, delay);
+  }
+
+  private openSocket(shard: KlineShard) {
+    const streams = Array.from(shard.streams);
+    const ws = new WebSocket(this.adapter.klineStreamUrl(this.market, streams));
+    shard.ws = ws;
+
+    ws.on('open', () => {
+      const reconnected = shard.reconnectAttempts > 0;
+      shard.reconnectAttempts = 0;
+      console.log(`✅ Connected ${this.market} kline shard ${shard.id} (${streams.length} streams)`);
+      if (reconnected) this.options.onShardReconnect?.(this.symbolsForShard(shard));
+
+      // Streams in the connection URL are live as soon as the socket opens
+      this.confirmSubscribed(shard, streams);
+      this.reconcile(shard);
+    });
+
+    ws.on('message', (data) => {
+      try {
+        this.handleMessage(shard, data.toString());
+      } catch (error) {
+        console.error(`❌ Error processing ${this.market} kline data on shard ${shard.id}:`, error);
+      }
+    });
+
+    ws.on('close', () => {
+      // Sockets replaced during a rebalance or shutdown are not reconnected
+      if (shard.ws !== ws || this.closed) return;
+
+      this.resetSession(shard);
+      shard.ws = null;
+
+      if (shard.streams.size === 0) {
+        this.closeShard(shard);
+        return;
+      }
+
+      const delay = Math.min(this.initialReconnectDelay * Math.pow(2, shard.reconnectAttempts), this.maxReconnectDelay);
+      shard.reconnectAttempts++;
+      console.log(`🔌 ${this.market} kline shard ${shard.id} disconnected, reconnecting in ${delay}ms...`);
+
+      shard.reconnectTimer = setTimeout(() => {
+        shard.reconnectTimer = null;
+        this.connectShard(shard);
+      }, delay);
+    });
+
+    ws.on('error', (error) => {
+      console.error(`❌ ${this.market} kline shard ${shard.id} WebSocket error:`, error);
+      this.options.onShardDown?.(this.symbolsForShard(shard));
+    });
+  }
+
+  private handleMessage(shard: KlineShard, raw: string) {
+    const update = this.adapter.parseKlineMessage(raw);
+    if (update) {
+      // Drop duplicates while a stream is mid-handoff between two shards
+      const stream = this.adapter.klineStreamName(update.symbol, update.interval);
+      if (this.owners.get(stream) === shard.id) {
+        this.options.onKline(update);
+      }
+      return;
+    }
+
+    const ack = this.adapter.parseSubscriptionAck(raw);
+    if (ack) this.handleAck(shard, ack.id, ack.error);
+  }
+
+  // Diff the shard's assigned streams against what is live and queue the changes
+  private reconcile(shard: KlineShard) {
+    if (shard.ws?.readyState !== WebSocket.OPEN) return;
+
+    // Fully drained: every stream it carried has a confirmed new owner
+    if (shard.streams.size === 0 && !this.ownsAnyStream(shard)) {
+      this.closeShard(shard);
+      return;
+    }
+
+    const inFlight: Set<string> = new Set();
+    for (const request of shard.pending.values()) {
+      for (const stream of request.streams) inFlight.add(stream);
+    }
+
+    const toSubscribe = Array.from(shard.streams)
+      .filter(stream => !shard.active.has(stream) && !inFlight.has(stream));
+
+    // Only release a stream once nobody needs it here: it left the tracked set,
+    // or another shard has confirmed it took the stream over
+    const toUnsubscribe = Array.from(shard.active).filter(stream =>
+      !shard.streams.has(stream) &&
+      !inFlight.has(stream) &&
+      (!this.targets.has(stream) || this.owners.get(stream) !== shard.id)
+    );
+
+    if (toSubscribe.length > 0) this.enqueue(shard, 'subscribe', toSubscribe);
+    if (toUnsubscribe.length > 0) {
+      for (const stream of toUnsubscribe) {
+        if (this.owners.get(stream) === shard.id) this.owners.delete(stream);
+      }
+      this.enqueue(shard, 'unsubscribe', toUnsubscribe);
+    }
+  }
+
+  private enqueue(shard: KlineShard, action: SubscriptionAction, streams: string[]) {
+    const request: PendingRequest = { id: this.nextRequestId++, action, streams, timer: null };
+    shard.pending.set(request.id, request);
+    shard.sendQueue.push(request);
+    this.flushQueue(shard);
+  }
+
+  // Send queued frames no faster than the venue's per-connection message limit,
+  // keeping one slot per second free for pong replies
+  private flushQueue(shard: KlineShard) {
+    if (shard.sendTimer || shard.sendQueue.length === 0) return;
+
+    const { maxMessagesPerSecond } = this.adapter.streamLimits(this.market);
+    const minGap = Math.ceil(1000 / Math.max(1, maxMessagesPerSecond - 1));
+    const wait = Math.max(0, shard.lastSentAt + minGap - Date.now());
+
+    shard.sendTimer = setTimeout(() => {
+      shard.sendTimer = null;
+      const request = shard.sendQueue.shift();
+      if (!request || shard.ws?.readyState !== WebSocket.OPEN) return;
+
+      shard.ws.send(this.adapter.subscriptionMessage(request.action, request.streams, request.id));
+      shard.lastSentAt = Date.now();
+      request.timer = setTimeout(() => this.handleAck(shard, request.id, 'timed out waiting for acknowledgement'), this.ackTimeout);
+
+      this.flushQueue(shard);
+    }, wait);
+  }
+
+  private handleAck(shard: KlineShard, id: number, error: string | null) {
+    const request = shard.pending.get(id);
+    if (!request) return;
+
+    if (request.timer) clearTimeout(request.timer);
+    shard.pending.delete(id);
+
+    if (error) {
+      console.warn(`⚠️ ${this.market} kline shard ${shard.id} ${request.action} #${id} failed: ${error}`);
+      // Leave the live set untouched; the next reconcile retries the diff, backing off
+      // so a request the venue keeps rejecting doesn't get the IP rate-limited
+      if (!shard.retryTimer) {
+        const delay = Math.min(this.initialReconnectDelay * Math.pow(2, shard.retryAttempts), this.maxReconnectDelay);
+        shard.retryAttempts++;
+        shard.retryTimer = setTimeout(() => {
+          shard.retryTimer = null;
+          this.reconcile(shard);
+        }, delay);
+      }
+      return;
+    }
+
+    shard.retryAttempts = 0;
+
+    if (request.action === 'subscribe') {
+      this.confirmSubscribed(shard, request.streams);
+    } else {
+      for (const stream of request.streams) shard.active.delete(stream);
+    }
+
+    this.reconcile(shard);
+  }
+
+  // Mark streams live on a shard and take ownership of them from any previous shard
+  private confirmSubscribed(shard: KlineShard, streams: string[]) {
+    const previousOwners: Set<number> = new Set();
+
+    for (const stream of streams) {
+      shard.active.add(stream);
+      if (!shard.streams.has(stream)) continue;
+
+      const previous = this.owners.get(stream);
+      this.owners.set(stream, shard.id);
+      if (previous !== undefined && previous !== shard.id) previousOwners.add(previous);
+    }
+
+    // The old shards can now release what this one took over
+    for (const id of previousOwners) {
+      const previous = this.shards.get(id);
+      if (previous) this.reconcile(previous);
+    }
+  }
+
+  private resetSession(shard: KlineShard) {
+    for (const request of shard.pending.values()) {
+      if (request.timer) clearTimeout(request.timer);
+    }
+    shard.pending.clear();
+    shard.sendQueue = [];
+    if (shard.sendTimer) {
+      clearTimeout(shard.sendTimer);
+      shard.sendTimer = null;
+    }
+    if (shard.retryTimer) {
+      clearTimeout(shard.retryTimer);
+      shard.retryTimer = null;
+    }
+    shard.active.clear();
+  }
+
+  private symbolsForShard(shard: KlineShard): string[] {
+    const symbols: Set<string> = new Set();
+    for (const stream of shard.streams) {
+      const target = this.targets.get(stream);
+      if (target) symbols.add(target.symbol);
+    }
+    return Array.from(symbols);
+  }
+
+  private disposeSocket(shard: KlineShard) {
+    if (shard.reconnectTimer) {
+      clearTimeout(shard.reconnectTimer);
+      shard.reconnectTimer = null;
+    }
+    this.resetSession(shard);
+    if (shard.ws) {
+      const ws = shard.ws;
+      shard.ws = null;
+      ws.removeAllListeners('message');
+      ws.removeAllListeners('error');
+      ws.on('error', () => {}); // Late errors from a socket we are abandoning
+      ws.close();
+    }
+  }
+
+  private closeShard(shard: KlineShard) {
+    this.disposeSocket(shard);
+    this.shards.delete(shard.id);
+    for (const [stream, owner] of this.owners) {
+      if (owner === shard.id) this.owners.delete(stream);
+    }
+    console.log(`🔌 Closed ${this.market} kline shard ${shard.id}`);
+  }
+
+  public getStatus(): KlinePoolStatus {
+    const shards = Array.from(this.shards.values());
+    return {
+      connections: shards.length,
+      connected: shards.filter(shard => shard.ws?.readyState === WebSocket.OPEN).length,
+      streams: this.targets.size,
+      pendingRequests: shards.reduce((sum, shard) => sum + shard.pending.size, 0),
+      symbols: Array.from(new Set(Array.from(this.targets.values()).map(target => target.symbol))),
+    };
+  }
+
+  public close() {
+    this.closed = true;
+    for (const shard of Array.from(this.shards.values())) {
+      this.closeShard(shard);
+    }
+    this.targets.clear();
+  }
+}
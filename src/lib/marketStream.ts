@@ -0,0 +1,137 @@
+import { Market, MarketDelta, TradingPair, WebSocketMessage } from '@/types/trading';
+import { BinanceWebSocketManager, websocketManager } from './websocket';
+
+const MARKETS: Market[] = ['spot', 'futures'];
+const STREAM_PAIR_LIMIT = 50;     // Same top-N as the tables
+const HISTORY_SIZE = 300;         // Deltas kept per market for resuming clients
+const STATUS_CHECK_MS = 5000;
+
+export interface StreamEvent {
+  id: string; // `${epoch}:${sequence}`, sent as the SSE event id
+  message: WebSocketMessage;
+}
+
+interface SequencedEvent extends StreamEvent {
+  sequence: number;
+}
+
+type StreamListener = (event: StreamEvent) => void;
+
+// Turns the manager's full-list subscribe() callbacks into per-pair deltas with
+// sequence numbers, shared by every open stream. Recent deltas are kept so a
+// client reconnecting with its last event id gets only what it missed; ids from
+// before a server restart (another epoch) fall back to a fresh snapshot.
+export class MarketStreamHub {
+  private readonly epoch = Date.now().toString(36);
+  private started = false;
+  private statusTimer: NodeJS.Timeout | null = null;
+  private sequence: Record<Market, number> = { spot: 0, futures: 0 };
+  private pairs: Record<Market, Map<string, { pair: TradingPair; json: string }>> = {
+    spot: new Map(),
+    futures: new Map()
+  };
+  private history: Record<Market, SequencedEvent[]> = { spot: [], futures: [] };
+  private listeners: Record<Market, Set<StreamListener>> = { spot: new Set(), futures: new Set() };
+  private connected: Record<Market, boolean> = { spot: false, futures: false };
+
+  constructor(private readonly manager: BinanceWebSocketManager) {}
+
+  private start() {
+    if (this.started) return;
+    this.started = true;
+    this.manager.subscribe(this.handleUpdate);
+    this.statusTimer = setInterval(() => this.checkConnections(), STATUS_CHECK_MS);
+  }
+
+  private handleUpdate = (market: Market, sortedPairs: TradingPair[]) => {
+    const current = this.pairs[market];
+    const next: Map<string, { pair: TradingPair; json: string }> = new Map();
+    const updated: TradingPair[] = [];
+
+    for (const pair of sortedPairs.slice(0, STREAM_PAIR_LIMIT)) {
+      const json = JSON.stringify(pair);
+      if (current.get(pair.symbol)?.json !== json) updated.push(pair);
+      next.set(pair.symbol, { pair, json });
+    }
+    const removed = Array.from(current.keys()).filter(symbol => !next.has(symbol));
+
+    this.pairs[market] = next;
+    if (updated.length === 0 && removed.length === 0) return;
+
+    const delta: MarketDelta = { updated, removed };
+    this.publish(market, { type: 'market_update', market, data: delta, timestamp: new Date().toISOString() });
+  };
+
+  private checkConnections() {
+    const status = this.manager.getConnectionStatus();
+    for (const market of MARKETS) {
+      if (status[market] === this.connected[market]) continue;
+      this.connected[market] = status[market];
+      this.publish(market, {
+        type: 'connection_status',
+        market,
+        data: { connected: status[market] },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  private publish(market: Market, message: WebSocketMessage) {
+    const sequence = ++this.sequence[market];
+    const event: SequencedEvent = { id: `${this.epoch}:${sequence}`, sequence, message };
+
+    const history = this.history[market];
+    history.push(event);
+    if (history.length > HISTORY_SIZE) history.shift();
+
+    for (const listener of this.listeners[market]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ Error notifying stream listener:', error);
+      }
+    }
+  }
+
+  // Every streamed pair, as of the latest event id
+  public snapshot(market: Market): StreamEvent {
+    this.start();
+    const pairs = Array.from(this.pairs[market].values(), ({ pair }) => pair);
+    return {
+      id: `${this.epoch}:${this.sequence[market]}`,
+      message: { type: 'snapshot', market, data: pairs, timestamp: new Date().toISOString() }
+    };
+  }
+
+  // Events after `lastEventId`, or null when they are no longer (or were never) kept
+  public replay(market: Market, lastEventId: string): StreamEvent[] | null {
+    this.start();
+    const [epoch, rawSequence] = lastEventId.split(':');
+    const sequence = Number(rawSequence);
+    if (epoch !== this.epoch || !Number.isInteger(sequence) || sequence > this.sequence[market]) return null;
+
+    const history = this.history[market];
+    const oldest = history[0]?.sequence ?? this.sequence[market] + 1;
+    if (sequence < oldest - 1) return null;
+
+    return history.filter(event => event.sequence > sequence);
+  }
+
+  // Returns the function that stops listening
+  public listen(market: Market, listener: StreamListener): () => void {
+    this.start();
+    this.listeners[market].add(listener);
+    return () => {
+      this.listeners[market].delete(listener);
+    };
+  }
+
+  public close() {
+    if (this.statusTimer) clearInterval(this.statusTimer);
+    this.statusTimer = null;
+    this.manager.unsubscribe(this.handleUpdate);
+    this.started = false;
+  }
+}
+
+export const marketStream = new MarketStreamHub(websocketManager);
@@ -0,0 +1,362 @@
+import { createHmac, randomUUID } from 'crypto';
+import { SignalTransition, TransitionKind } from '@/types/trading';
+import { AlertTrigger } from '@/types/alerts';
+import {
+  DeadLetter,
+  DeliveryResult,
+  NotificationEvent,
+  NotificationEventType,
+  WebhookPreset,
+  WebhookTarget,
+  WebhookTargetView,
+} from '@/types/notifications';
+import { JsonlFile, readJsonFile } from './storage';
+
+const TARGETS_FILE = 'notifications/webhooks.json';
+const DEAD_LETTER_FILE = 'notifications/dead-letter.jsonl';
+const EVENT_TYPES: NotificationEventType[] = ['signal_transition', 'alert', 'test'];
+const PRESET_NAMES: WebhookPreset[] = ['json', 'slack', 'discord', 'telegram'];
+const TRANSITION_KINDS: TransitionKind[] = ['signal', 'rsi_zone'];
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// Request bodies per preset; strings are rendered with renderTemplate()
+const PRESETS: Record<WebhookPreset, unknown> = {
+  json: '{{event}}',
+  slack: { text: '*{{title}}*\n{{text}}' },
+  discord: { content: '**{{title}}**\n{{text}}' },
+  telegram: { chat_id: '{{chat_id}}', text: '{{title}}\n{{text}}' },
+};
+
+export interface RetryPolicy {
+  baseDelayMs: number; // Doubled after every failed attempt
+  maxDelayMs: number;
+  timeoutMs: number;   // Per request
+}
+
+const DEFAULT_RETRY: RetryPolicy = { baseDelayMs: 1000, maxDelayMs: 60000, timeoutMs: 10000 };
+
+export function transitionEvent(transition: SignalTransition): NotificationEvent {
+  const { market, symbol, timeframe, from, to, value, price } = transition;
+  const reading = transition.kind === 'rsi_zone' ? `${timeframe} RSI ${value.toFixed(2)}` : `signal score ${value}`;
+  return {
+    id: randomUUID(),
+    type: 'signal_transition',
+    timestamp: transition.timestamp,
+    market,
+    symbol,
+    title: `${symbol} ${timeframe ?? 'signal'}: ${from} → ${to}`,
+    text: `${market} ${symbol} ${reading} at ${price}`,
+    data: transition,
+  };
+}
+
+export function alertEvent(trigger: AlertTrigger): NotificationEvent {
+  return {
+    id: randomUUID(),
+    type: 'alert',
+    timestamp: trigger.timestamp,
+    market: trigger.market,
+    symbol: trigger.symbol,
+    title: trigger.ruleName,
+    text: trigger.message,
+    data: trigger,
+  };
+}
+
+export function testEvent(): NotificationEvent {
+  return {
+    id: randomUUID(),
+    type: 'test',
+    timestamp: Date.now(),
+    market: null,
+    symbol: null,
+    title: 'Test notification',
+    text: 'Webhook delivery from the RSI dashboard is working',
+    data: null,
+  };
+}
+
+// Values a template can use: {{id}}, {{type}}, {{title}}, {{text}}, {{market}},
+// {{symbol}}, {{time}} (ISO), {{timestamp}}, {{event}} (the whole event), every
+// field of the transition or alert ({{kind}}, {{timeframe}}, {{from}}, {{to}},
+// {{value}}, {{price}}, {{message}}, ...) and the target's params
+function templateValues(event: NotificationEvent, target: WebhookTarget): Record<string, unknown> {
+  return {
+    ...target.params,
+    ...(event.data ?? {}),
+    id: event.id,
+    type: event.type,
+    title: event.title,
+    text: event.text,
+    market: event.market,
+    symbol: event.symbol,
+    time: new Date(event.timestamp).toISOString(),
+    timestamp: event.timestamp,
+    event,
+  };
+}
+
+// A string that is a single placeholder keeps the value's type (numbers stay
+// numbers, {{event}} becomes an object); placeholders inside text are stringified
+export function renderTemplate(template: unknown, values: Record<string, unknown>): unknown {
+  if (typeof template === 'string') {
+    const whole = template.match(/^\{\{(\w+)\}\}$/);
+    if (whole) return values[whole[1]] ?? null;
+    return template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+      const value = values[key];
+      return value === undefined || value === null ? '' : String(value);
+    });
+  }
+  if (Array.isArray(template)) return template.map(item => renderTemplate(item, values));
+  if (typeof template === 'object' && template !== null) {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderTemplate(value, values)]));
+  }
+  return template;
+}
+
+// Receivers recompute this over `${X-Signature-Timestamp}.${raw body}` and compare
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Problems with one target definition (empty when valid)
+export function validateWebhookTarget(input: unknown, path: string = 'target'): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return [`${path} must be an object`];
+
+  const problems: string[] = [];
+  const target = input as WebhookTarget;
+  if (typeof target.id !== 'string' || !target.id) problems.push(`${path}.id is required`);
+  try {
+    const { protocol } = new URL(target.url);
+    if (protocol !== 'http:' && protocol !== 'https:') problems.push(`${path}.url must be http(s)`);
+  } catch {
+    problems.push(`${path}.url must be a valid URL`);
+  }
+  if (target.preset !== undefined && !PRESET_NAMES.includes(target.preset)) {
+    problems.push(`${path}.preset must be one of ${PRESET_NAMES.join(', ')}`);
+  }
+  if (target.events !== undefined && (!Array.isArray(target.events) || target.events.some(type => !EVENT_TYPES.includes(type)))) {
+    problems.push(`${path}.events must be a list of ${EVENT_TYPES.join(', ')}`);
+  }
+  for (const key of ['params', 'headers'] as const) {
+    const value = target[key];
+    if (value !== undefined && (typeof value !== 'object' || value === null || Object.values(value).some(v => typeof v !== 'string'))) {
+      problems.push(`${path}.${key} must map names to strings`);
+    }
+  }
+  if (target.kinds !== undefined && (!Array.isArray(target.kinds) || target.kinds.some(kind => !TRANSITION_KINDS.includes(kind)))) {
+    problems.push(`${path}.kinds must be a list of ${TRANSITION_KINDS.join(', ')}`);
+  }
+  for (const key of ['timeframes', 'symbols'] as const) {
+    const value = target[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim()))) {
+      problems.push(`${path}.${key} must be a list of non-empty strings`);
+    }
+  }
+  if (target.secret !== undefined && typeof target.secret !== 'string') problems.push(`${path}.secret must be a string`);
+  if (target.maxAttempts !== undefined && (!Number.isInteger(target.maxAttempts) || target.maxAttempts < 1)) {
+    problems.push(`${path}.maxAttempts must be a whole number ≥ 1`);
+  }
+  return problems;
+}
+
+// Fill in defaults so a target can be written with just id and url. Chat tools get
+// only pair signal changes unless asked for more: every candle close would otherwise
+// post an RSI zone change per symbol and timeframe, and end in 429s.
+export function normalizeWebhookTarget(target: WebhookTarget): WebhookTarget {
+  const preset = target.preset ?? 'json';
+  return {
+    ...target,
+    name: target.name || target.id,
+    enabled: target.enabled ?? true,
+    events: target.events ?? ['signal_transition', 'alert'],
+    preset,
+    kinds: target.kinds ?? (preset === 'json' ? undefined : ['signal']),
+    symbols: target.symbols?.map(symbol => symbol.trim().toUpperCase()),
+  };
+}
+
+// Whether an event passes a target's type, kind, timeframe and symbol filters
+function targetWants(target: WebhookTarget, event: NotificationEvent): boolean {
+  if (!target.events.includes(event.type)) return false;
+  if (target.symbols && event.symbol && !target.symbols.includes(event.symbol)) return false;
+  if (event.type !== 'signal_transition') return true;
+
+  const transition = event.data as SignalTransition;
+  if (target.kinds && !target.kinds.includes(transition.kind)) return false;
+  if (target.timeframes && transition.timeframe !== null && !target.timeframes.includes(transition.timeframe)) return false;
+  return true;
+}
+
+function loadTargets(): WebhookTarget[] {
+  const stored = readJsonFile<unknown>(TARGETS_FILE, []);
+  if (!Array.isArray(stored)) {
+    console.warn(`⚠️ Ignoring ${TARGETS_FILE}: expected a list of targets`);
+    return [];
+  }
+
+  return stored.flatMap((target, index) => {
+    const problems = validateWebhookTarget(target, `targets[${index}]`);
+    if (problems.length > 0) {
+      console.warn(`⚠️ Skipping webhook target in ${TARGETS_FILE}: ${problems.join('; ')}`);
+      return [];
+    }
+    return [normalizeWebhookTarget(target as WebhookTarget)];
+  });
+}
+
+// Credentials often live in the URL path (Slack, Discord, Telegram), so views show the origin only
+function maskUrl(url: string): string {
+  const { origin, pathname } = new URL(url);
+  return pathname === '/' ? origin : `${origin}/…`;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Only transient failures are retried; other 4xx answers won't change on a retry
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+interface DispatcherOptions {
+  targets?: WebhookTarget[];                // Defaults to data/notifications/webhooks.json
+  retry?: Partial<RetryPolicy>;
+  fetch?: typeof fetch;
+  deadLetters?: JsonlFile<DeadLetter>;
+}
+
+// Posts notification events to webhook targets. Each target has its own queue,
+// so a slow or failing endpoint delays only its own messages and chat tools see
+// them in order. Failed deliveries are retried with exponential backoff and end
+// up in data/notifications/dead-letter.jsonl when they run out of attempts.
+export class NotificationDispatcher {
+  private readonly targets: WebhookTarget[];
+  private readonly retry: RetryPolicy;
+  private readonly fetch: typeof fetch;
+  private readonly deadLetters: JsonlFile<DeadLetter>;
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  constructor(options: DispatcherOptions = {}) {
+    this.targets = (options.targets ?? loadTargets()).map(normalizeWebhookTarget);
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.fetch = options.fetch ?? fetch;
+    this.deadLetters = options.deadLetters ?? new JsonlFile<DeadLetter>(DEAD_LETTER_FILE, 0);
+
+    if (this.targets.length > 0) {
+      console.log(`📣 ${this.targets.length} webhook target(s) configured`);
+    }
+  }
+
+  public listTargets(): WebhookTargetView[] {
+    return this.targets.map(({ secret, ...target }) => ({ ...target, url: maskUrl(target.url), hasSecret: Boolean(secret) }));
+  }
+
+  public getTarget(id: string): WebhookTarget | null {
+    return this.targets.find(target => target.id === id) ?? null;
+  }
+
+  public enabledTargets(): WebhookTarget[] {
+    return this.targets.filter(target => target.enabled);
+  }
+
+  // Queue an event for every enabled target whose filters it passes
+  public dispatch(event: NotificationEvent) {
+    for (const target of this.enabledTargets()) {
+      if (targetWants(target, event)) this.enqueue(target, event);
+    }
+  }
+
+  // Queue an event for one target and wait for the outcome
+  public enqueue(target: WebhookTarget, event: NotificationEvent): Promise<DeliveryResult> {
+    const previous = this.queues.get(target.id) ?? Promise.resolve();
+    const delivery = previous.then(() => this.deliver(target, event));
+    const queued = delivery.catch(() => undefined);
+    this.queues.set(target.id, queued);
+    queued.then(() => {
+      if (this.queues.get(target.id) === queued) this.queues.delete(target.id);
+    });
+    return delivery;
+  }
+
+  public async deliver(target: WebhookTarget, event: NotificationEvent): Promise<DeliveryResult> {
+    const template = target.template ?? PRESETS[target.preset];
+    const body = JSON.stringify(renderTemplate(template, templateValues(event, target)));
+    const maxAttempts = target.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+    let status: number | undefined;
+    let error = '';
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let retryAfterMs: number | null = null;
+      try {
+        const timestamp = Date.now();
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          'User-Agent': 'crypto-rsi-dashboard-webhooks',
+          'X-Webhook-Id': event.id,
+          'X-Webhook-Event': event.type,
+          ...target.headers,
+        };
+        if (target.secret) {
+          headers['X-Signature-Timestamp'] = String(timestamp);
+          headers['X-Signature-256'] = `sha256=${signPayload(target.secret, timestamp, body)}`;
+        }
+
+        const response = await this.fetch(target.url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(this.retry.timeoutMs),
+        });
+        status = response.status;
+        if (response.ok) return { targetId: target.id, ok: true, attempts: attempt, status };
+
+        error = `HTTP ${response.status} ${response.statusText}`.trim();
+        if (!isRetryable(response.status)) return this.deadLetter(target, event, attempt, status, error);
+        const retryAfter = Number(response.headers.get('retry-after'));
+        if (Number.isFinite(retryAfter) && retryAfter > 0) retryAfterMs = retryAfter * 1000;
+      } catch (err) {
+        status = undefined;
+        error = err instanceof Error ? err.message : String(err);
+      }
+
+      if (attempt < maxAttempts) {
+        const backoff = Math.min(this.retry.baseDelayMs * 2 ** (attempt - 1), this.retry.maxDelayMs);
+        await sleep(Math.min(retryAfterMs ?? backoff, this.retry.maxDelayMs));
+      }
+    }
+
+    return this.deadLetter(target, event, maxAttempts, status, error);
+  }
+
+  private deadLetter(
+    target: WebhookTarget,
+    event: NotificationEvent,
+    attempts: number,
+    status: number | undefined,
+    error: string
+  ): DeliveryResult {
+    console.warn(`⚠️ Webhook ${target.name} gave up on "${event.title}" after ${attempts} attempt(s): ${error}`);
+    this.deadLetters.append({
+      event,
+      targetId: target.id,
+      targetName: target.name,
+      attempts,
+      status,
+      error,
+      failedAt: Date.now(),
+    });
+    return { targetId: target.id, ok: false, attempts, status, error };
+  }
+
+  // Newest first
+  public async recentDeadLetters(limit: number = 50): Promise<DeadLetter[]> {
+    await this.deadLetters.flush();
+    return this.deadLetters.readAll().slice(-limit).reverse();
+  }
+
+  // Wait for everything queued so far
+  public async flush() {
+    await Promise.all(this.queues.values());
+    await this.deadLetters.flush();
+  }
+}
@@ -0,0 +1,475 @@
+import { randomUUID } from 'crypto';
+import { Market, TradingPair } from '@/types/trading';
+import { ScreenerExpression } from '@/types/screener';
+import { EquityPoint } from '@/types/backtest';
+import {
+  PaperAccount,
+  PaperHistory,
+  PaperOrderInput,
+  PaperPortfolioView,
+  PaperPosition,
+  PaperPositionView,
+  PaperRule,
+  PaperRuleInput,
+  PaperSide,
+  PaperTrade,
+  PaperTradeAction,
+} from '@/types/paper';
+import { matchesScreener, parseScreenerExpression } from './screener';
+import { JsonlFile, readJsonFile, writeJsonFile } from './storage';
+
+const PORTFOLIO_FILE = 'paper/portfolio.json';
+const MARKETS: Market[] = ['spot', 'futures'];
+const SIDES: PaperSide[] = ['long', 'short'];
+const SYMBOL_PATTERN = /^[A-Z0-9]{2,30}$/;
+const DEFAULT_BALANCE = 10_000;
+const MAX_LEVERAGE = 125;
+const MAX_RULE_POSITIONS = 50;
+const FEE_RATE: Record<Market, number> = { spot: 0.001, futures: 0.0005 }; // Taker fees
+const MAINTENANCE_MARGIN_RATE = 0.005; // Share of the notional an isolated position must keep
+const EQUITY_INTERVAL_MS = 5 * 60 * 1000;
+const EQUITY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // Equity points older than this are dropped
+const MAX_EQUITY_POINTS = EQUITY_RETENTION_MS / EQUITY_INTERVAL_MS;
+const RECENT_TRADES = 1000;
+
+interface StoredPortfolio {
+  account: PaperAccount;
+  positions: PaperPosition[];
+  rules: PaperRule[];
+}
+
+// Result of opening or closing a position: the trade made, or why it couldn't be
+type TradeResult = { trade: PaperTrade; problems: null } | { trade: null; problems: string[] };
+
+// Price at which an isolated position's margin plus P&L falls to the maintenance
+// margin. At 1x a long can't get there (the price would have to reach 0).
+export function liquidationPrice(side: PaperSide, entryPrice: number, leverage: number): number | null {
+  const price = side === 'long'
+    ? (entryPrice * (1 - 1 / leverage)) / (1 - MAINTENANCE_MARGIN_RATE)
+    : (entryPrice * (1 + 1 / leverage)) / (1 + MAINTENANCE_MARGIN_RATE);
+  return price > 0 ? price : null;
+}
+
+function unrealizedPnl(position: PaperPosition, price: number): number {
+  const sign = position.side === 'long' ? 1 : -1;
+  return sign * position.quantity * (price - position.entryPrice);
+}
+
+function newAccount(initialBalance: number = DEFAULT_BALANCE): PaperAccount {
+  return { initialBalance, balance: initialBalance, realizedPnl: 0, feesPaid: 0, createdAt: Date.now() };
+}
+
+function validateLeverage(market: unknown, leverage: unknown, path: string, problems: string[]) {
+  if (leverage === undefined) return;
+  if (typeof leverage !== 'number' || !Number.isInteger(leverage) || leverage < 1 || leverage > MAX_LEVERAGE) {
+    problems.push(`${path} must be a whole number from 1 to ${MAX_LEVERAGE}`);
+  } else if (market === 'spot' && leverage !== 1) {
+    problems.push(`${path} must be 1 on spot`);
+  }
+}
+
+function validateSide(market: unknown, side: unknown, path: string, problems: string[]) {
+  if (!SIDES.includes(side as PaperSide)) problems.push(`${path} must be one of ${SIDES.join(', ')}`);
+  else if (market === 'spot' && side === 'short') problems.push('spot positions can only be long');
+}
+
+// Problems with a manual order (empty when valid)
+export function validatePaperOrder(input: unknown): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['order must be an object'];
+  }
+
+  const problems: string[] = [];
+  const { market, symbol, side, margin, leverage } = input as Partial<PaperOrderInput>;
+  if (!MARKETS.includes(market as Market)) problems.push(`market must be one of ${MARKETS.join(', ')}`);
+  if (typeof symbol !== 'string' || !SYMBOL_PATTERN.test(symbol.trim().toUpperCase())) {
+    problems.push('symbol must be an exchange symbol such as BTCUSDT');
+  }
+  validateSide(market, side, 'side', problems);
+  if (typeof margin !== 'number' || !Number.isFinite(margin) || margin <= 0) problems.push('margin must be a number > 0');
+  validateLeverage(market, leverage, 'leverage', problems);
+  return problems;
+}
+
+function validateExpression(text: unknown, path: string, problems: string[]) {
+  if (typeof text !== 'string' || !text.trim()) {
+    problems.push(`${path} must be a non-empty screener expression`);
+    return;
+  }
+  problems.push(...parseScreenerExpression(text).problems.map(problem => `${path}: ${problem}`));
+}
+
+// Problems with a rule payload (empty when valid). Updates may leave out any field;
+// market, side and leverage are checked against each other as they'll be saved.
+export function validatePaperRuleInput(input: unknown, existing?: PaperRule): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['rule must be an object'];
+  }
+
+  const problems: string[] = [];
+  const rule = input as PaperRuleInput;
+  const market = rule.market ?? existing?.market;
+
+  if (rule.name !== undefined && (typeof rule.name !== 'string' || !rule.name.trim())) {
+    problems.push('name must be a non-empty string');
+  }
+  if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') problems.push('enabled must be true or false');
+  if (!MARKETS.includes(market as Market)) problems.push(`market must be one of ${MARKETS.join(', ')}`);
+  if (rule.symbols !== undefined && (!Array.isArray(rule.symbols)
+    || rule.symbols.some(symbol => typeof symbol !== 'string' || !SYMBOL_PATTERN.test(symbol.trim().toUpperCase())))) {
+    problems.push('symbols must be a list of exchange symbols such as BTCUSDT');
+  }
+  validateSide(market, rule.side ?? existing?.side ?? 'long', 'side', problems);
+  // A futures rule moved to spot drops its leverage to 1, so only a leverage sent with it is checked
+  validateLeverage(market, rule.leverage ?? (market === 'futures' ? existing?.leverage : undefined), 'leverage', problems);
+  if (rule.margin !== undefined && (typeof rule.margin !== 'number' || !Number.isFinite(rule.margin) || rule.margin <= 0)) {
+    problems.push('margin must be a number > 0');
+  } else if (rule.margin === undefined && !existing) {
+    problems.push('margin is required');
+  }
+  if (rule.maxPositions !== undefined && (!Number.isInteger(rule.maxPositions) || rule.maxPositions < 1 || rule.maxPositions > MAX_RULE_POSITIONS)) {
+    problems.push(`maxPositions must be a whole number from 1 to ${MAX_RULE_POSITIONS}`);
+  }
+  for (const key of ['entry', 'exit'] as const) {
+    if (rule[key] !== undefined || !existing) validateExpression(rule[key], key, problems);
+  }
+  return problems;
+}
+
+// A full rule from validated input, on top of `existing` for updates
+function buildPaperRule(input: PaperRuleInput, existing?: PaperRule): PaperRule {
+  const market = input.market ?? existing?.market ?? 'spot';
+  const entry = (input.entry ?? existing?.entry ?? '').trim();
+  return {
+    id: existing?.id ?? randomUUID(),
+    name: input.name?.trim() ?? existing?.name ?? entry,
+    enabled: input.enabled ?? existing?.enabled ?? true,
+    market,
+    symbols: (input.symbols ?? existing?.symbols ?? []).map(symbol => symbol.trim().toUpperCase()),
+    side: input.side ?? existing?.side ?? 'long',
+    leverage: market === 'spot' ? 1 : input.leverage ?? existing?.leverage ?? 1,
+    margin: input.margin ?? existing?.margin ?? 0,
+    maxPositions: input.maxPositions ?? existing?.maxPositions ?? 1,
+    entry,
+    exit: (input.exit ?? existing?.exit ?? '').trim(),
+    createdAt: existing?.createdAt ?? Date.now(),
+  };
+}
+
+interface CompiledRule {
+  entry: ScreenerExpression | null;
+  exit: ScreenerExpression | null;
+}
+
+// Paper positions, rules and balance in data/paper/portfolio.json, every fill in
+// data/paper/trades.jsonl and equity every 5 minutes for 30 days in data/paper/equity.jsonl.
+// Positions are marked to the live ticker price that `priceOf` reads; evaluate()
+// runs on every pair update to liquidate futures positions and to apply the rules.
+export class PaperPortfolio {
+  private account: PaperAccount;
+  private positions: Map<string, PaperPosition> = new Map();
+  private rules: Map<string, PaperRule> = new Map();
+  private compiled: Map<string, CompiledRule> = new Map();
+  private entryStates: Map<string, boolean> = new Map(); // rule:market:symbol -> entry matched on the last update
+  private trades: PaperTrade[];
+  private equity: EquityPoint[];
+  private lastEquityAt = 0;
+  private saving: Promise<void> = Promise.resolve();
+  private tradeFile = new JsonlFile<PaperTrade>('paper/trades.jsonl');
+  private equityFile = new JsonlFile<EquityPoint>('paper/equity.jsonl');
+
+  constructor(private readonly priceOf: (market: Market, symbol: string) => number | null) {
+    const stored = readJsonFile<StoredPortfolio | null>(PORTFOLIO_FILE, null);
+    this.account = stored?.account ?? newAccount();
+    for (const position of stored?.positions ?? []) this.positions.set(position.id, position);
+    for (const rule of stored?.rules ?? []) this.setRule(rule);
+    this.trades = this.tradeFile.readAll().slice(-RECENT_TRADES);
+    this.equity = this.recentEquity(this.equityFile.readAll(), Date.now());
+  }
+
+  public view(): PaperPortfolioView {
+    const positions: PaperPositionView[] = this.listPositions().map(position => {
+      const markPrice = this.priceOf(position.market, position.symbol);
+      const pnl = markPrice === null ? null : unrealizedPnl(position, markPrice);
+      return {
+        ...position,
+        markPrice,
+        unrealizedPnl: pnl,
+        roePct: pnl === null ? null : (pnl / position.margin) * 100,
+      };
+    });
+    const unrealized = positions.reduce((sum, position) => sum + (position.unrealizedPnl ?? 0), 0);
+    const marginInUse = positions.reduce((sum, position) => sum + position.margin, 0);
+
+    return {
+      account: { ...this.account },
+      equity: this.account.balance + marginInUse + unrealized,
+      unrealizedPnl: unrealized,
+      marginInUse,
+      positions,
+      rules: this.listRules(),
+    };
+  }
+
+  // The last `limit` trades, and the equity points from `since` on (all 30 days by default)
+  public history(limit: number = 200, since?: number): PaperHistory {
+    return {
+      trades: this.trades.slice(-limit).reverse(),
+      equity: since === undefined ? [...this.equity] : this.equity.filter(point => point.time >= since),
+    };
+  }
+
+  // Symbols with an open position on one market
+  public symbols(market: Market): Set<string> {
+    return new Set(this.listPositions().filter(position => position.market === market).map(position => position.symbol));
+  }
+
+  public getPosition(id: string): PaperPosition | null {
+    return this.positions.get(id) ?? null;
+  }
+
+  // Opens at the current ticker price; margin plus the entry fee come out of the balance
+  public async open(order: PaperOrderInput, ruleId: string | null = null, now: number = Date.now()): Promise<TradeResult> {
+    const result = this.openPosition(order, ruleId, now);
+    if (result.trade) await this.save();
+    return result;
+  }
+
+  public async close(id: string, now: number = Date.now()): Promise<TradeResult | null> {
+    const position = this.positions.get(id);
+    if (!position) return null;
+
+    const price = this.priceOf(position.market, position.symbol);
+    if (price === null) return { trade: null, problems: [`No ${position.market} price for ${position.symbol} yet`] };
+
+    const trade = this.closePosition(position, price, 'close', now);
+    await this.save();
+    return { trade, problems: null };
+  }
+
+  // Start over with an empty portfolio; rules are kept but their triggers re-arm
+  public async reset(initialBalance: number = this.account.initialBalance) {
+    this.account = newAccount(initialBalance);
+    this.positions.clear();
+    this.entryStates.clear();
+    this.trades = [];
+    this.equity = [];
+    this.lastEquityAt = 0;
+    await Promise.all([this.tradeFile.clear(), this.equityFile.clear()]);
+    await this.save();
+  }
+
+  public listRules(): PaperRule[] {
+    return Array.from(this.rules.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  public getRule(id: string): PaperRule | null {
+    return this.rules.get(id) ?? null;
+  }
+
+  public async createRule(input: PaperRuleInput): Promise<PaperRule> {
+    const rule = buildPaperRule(input);
+    this.setRule(rule);
+    await this.save();
+    return rule;
+  }
+
+  // Open positions stay with the rule, so its exit still applies to them
+  public async updateRule(id: string, input: PaperRuleInput): Promise<PaperRule | null> {
+    const existing = this.rules.get(id);
+    if (!existing) return null;
+
+    const rule = buildPaperRule(input, existing);
+    this.setRule(rule);
+    this.resetEntryStates(id);
+    await this.save();
+    return rule;
+  }
+
+  // Positions the rule opened are left open, to be closed by hand
+  public async deleteRule(id: string): Promise<boolean> {
+    if (!this.rules.delete(id)) return false;
+    this.compiled.delete(id);
+    this.resetEntryStates(id);
+    await this.save();
+    return true;
+  }
+
+  // Liquidate positions the new price went through, then run the rules for this pair
+  public evaluate(pair: TradingPair, now: number = Date.now()) {
+    let changed = false;
+
+    for (const position of this.listPositions()) {
+      if (position.market !== pair.market || position.symbol !== pair.symbol || position.liquidationPrice === null) continue;
+      const breached = position.side === 'long' ? pair.price <= position.liquidationPrice : pair.price >= position.liquidationPrice;
+      if (!breached) continue;
+      this.closePosition(position, position.liquidationPrice, 'liquidation', now);
+      changed = true;
+    }
+
+    for (const rule of this.rules.values()) {
+      if (!rule.enabled || rule.market !== pair.market) continue;
+      if (rule.symbols.length > 0 && !rule.symbols.includes(pair.symbol)) continue;
+      changed = this.applyRule(rule, pair, now) || changed;
+    }
+
+    if (changed) this.save();
+    this.recordEquity(now);
+  }
+
+  private applyRule(rule: PaperRule, pair: TradingPair, now: number): boolean {
+    const { entry, exit } = this.compiled.get(rule.id) ?? { entry: null, exit: null };
+    const ruleOpen = this.listPositions().filter(position => position.ruleId === rule.id);
+    const held = ruleOpen.find(position => position.market === pair.market && position.symbol === pair.symbol);
+
+    if (held) {
+      if (!exit || !matchesScreener(exit, pair)) return false;
+      this.closePosition(held, pair.price, 'close', now);
+      return true;
+    }
+
+    // Entries need the expression to become true, so a rule doesn't re-enter right after its exit
+    const key = `${rule.id}:${pair.market}:${pair.symbol}`;
+    const matched = entry !== null && matchesScreener(entry, pair);
+    const previous = this.entryStates.get(key);
+    this.entryStates.set(key, matched);
+    if (!matched || previous !== false || ruleOpen.length >= rule.maxPositions) return false;
+
+    const result = this.openPosition(
+      { market: rule.market, symbol: pair.symbol, side: rule.side, margin: rule.margin, leverage: rule.leverage },
+      rule.id,
+      now
+    );
+    if (result.problems) console.warn(`⚠️ Paper rule "${rule.name}" skipped ${pair.symbol}: ${result.problems.join('; ')}`);
+    return result.trade !== null;
+  }
+
+  private openPosition(order: PaperOrderInput, ruleId: string | null, now: number): TradeResult {
+    const symbol = order.symbol.trim().toUpperCase();
+    const price = this.priceOf(order.market, symbol);
+    if (price === null) return { trade: null, problems: [`${symbol} is not tracked on ${order.market}`] };
+
+    const leverage = order.market === 'spot' ? 1 : order.leverage ?? 1;
+    const quantity = (order.margin * leverage) / price;
+    const fee = quantity * price * FEE_RATE[order.market];
+    if (order.margin + fee > this.account.balance) {
+      return { trade: null, problems: [`Margin plus fee (${(order.margin + fee).toFixed(2)}) exceeds the free balance (${this.account.balance.toFixed(2)})`] };
+    }
+
+    const position: PaperPosition = {
+      id: randomUUID(),
+      market: order.market,
+      symbol,
+      side: order.side,
+      quantity,
+      entryPrice: price,
+      leverage,
+      margin: order.margin,
+      entryFee: fee,
+      liquidationPrice: order.market === 'futures' ? liquidationPrice(order.side, price, leverage) : null,
+      ruleId,
+      openedAt: now,
+    };
+    this.positions.set(position.id, position);
+    this.account.balance -= order.margin + fee;
+    this.account.feesPaid += fee;
+    return { trade: this.recordTrade(position, 'open', price, fee, null, now), problems: null };
+  }
+
+  // A liquidation loses the whole margin; a close returns margin plus P&L minus the exit fee
+  private closePosition(position: PaperPosition, price: number, action: PaperTradeAction, now: number): PaperTrade {
+    this.positions.delete(position.id);
+    const fee = action === 'liquidation' ? 0 : position.quantity * price * FEE_RATE[position.market];
+    const returned = action === 'liquidation' ? 0 : position.margin + unrealizedPnl(position, price) - fee;
+    const realizedPnl = returned - position.margin - position.entryFee;
+
+    this.account.balance += returned;
+    this.account.realizedPnl += realizedPnl;
+    this.account.feesPaid += fee;
+    return this.recordTrade(position, action, price, fee, realizedPnl, now);
+  }
+
+  private recordTrade(
+    position: PaperPosition,
+    action: PaperTradeAction,
+    price: number,
+    fee: number,
+    realizedPnl: number | null,
+    now: number
+  ): PaperTrade {
+    const trade: PaperTrade = {
+      id: randomUUID(),
+      positionId: position.id,
+      action,
+      market: position.market,
+      symbol: position.symbol,
+      side: position.side,
+      quantity: position.quantity,
+      price,
+      leverage: position.leverage,
+      fee,
+      realizedPnl,
+      ruleId: position.ruleId,
+      timestamp: now,
+    };
+    this.trades.push(trade);
+    if (this.trades.length > RECENT_TRADES) this.trades.shift();
+    this.tradeFile.append(trade);
+
+    const pnl = realizedPnl === null ? '' : ` (${realizedPnl >= 0 ? '+' : ''}${realizedPnl.toFixed(2)})`;
+    console.log(`📝 Paper ${action} ${position.side} ${position.market} ${position.symbol} ${position.leverage}x at ${price}${pnl}`);
+    return trade;
+  }
+
+  private recordEquity(now: number) {
+    if (now - this.lastEquityAt < EQUITY_INTERVAL_MS) return;
+    this.lastEquityAt = now;
+    const point = { time: now, equity: this.view().equity };
+    this.equity.push(point);
+    this.equityFile.append(point);
+    if (this.equity.length > MAX_EQUITY_POINTS) this.equity = this.recentEquity(this.equity, now);
+  }
+
+  private recentEquity(points: EquityPoint[], now: number): EquityPoint[] {
+    return points.filter(point => now - point.time <= EQUITY_RETENTION_MS).slice(-MAX_EQUITY_POINTS);
+  }
+
+  // Rewrite equity.jsonl without the points that fell out of the retention window
+  public async compact(now: number = Date.now()) {
+    await this.equityFile.flush();
+    const points = this.equityFile.readAll();
+    const kept = this.recentEquity(points, now);
+    if (kept.length !== points.length) await this.equityFile.rewrite(kept);
+  }
+
+  private listPositions(): PaperPosition[] {
+    return Array.from(this.positions.values()).sort((a, b) => a.openedAt - b.openedAt);
+  }
+
+  private setRule(rule: PaperRule) {
+    this.rules.set(rule.id, rule);
+    this.compiled.set(rule.id, {
+      entry: parseScreenerExpression(rule.entry).expression,
+      exit: parseScreenerExpression(rule.exit).expression,
+    });
+  }
+
+  private resetEntryStates(ruleId: string) {
+    for (const key of this.entryStates.keys()) {
+      if (key.startsWith(`${ruleId}:`)) this.entryStates.delete(key);
+    }
+  }
+
+  public flush(): Promise<unknown> {
+    return Promise.all([this.tradeFile.flush(), this.equityFile.flush(), this.saving]);
+  }
+
+  // Writes are chained so two quick fills can't interleave their temp files
+  private save(): Promise<void> {
+    const portfolio: StoredPortfolio = { account: this.account, positions: this.listPositions(), rules: this.listRules() };
+    this.saving = this.saving
+      .then(() => writeJsonFile(PORTFOLIO_FILE, portfolio))
+      .catch(error => console.error('❌ Failed to save paper portfolio:', error instanceof Error ? error.message : error));
+    return this.saving;
+  }
+}
@@ -0,0 +1,194 @@
+import { Market, SignalTransition, TradingPair } from '@/types/trading';
+import { Candle } from '@/types/exchange';
+import { CandleStore } from './candleStore';
+import { JsonlFile, listDataFiles } from './storage';
+import { intervalToMs } from './timeframes';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const CANDLE_FILE_PATTERN = /^(spot|futures)-(\w+)\.jsonl$/;
+
+export interface RetentionPolicy {
+  candlesPerSeries: number;   // Newest candles kept per market/symbol/interval
+  candleMaxAgeMs: number;     // Series with no candle newer than this (or two of their own intervals) are dropped
+  snapshotMaxAgeMs: number;   // Pair snapshots older than this are dropped
+  transitionMaxAgeMs: number; // Signal transition events older than this are dropped
+  snapshotIntervalMs: number;
+  compactionIntervalMs: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function loadRetentionPolicy(): RetentionPolicy {
+  return {
+    candlesPerSeries: envNumber('CANDLE_RETENTION', 500),
+    candleMaxAgeMs: envNumber('CANDLE_RETENTION_DAYS', 7) * DAY_MS,
+    snapshotMaxAgeMs: envNumber('SNAPSHOT_RETENTION_HOURS', 24) * HOUR_MS,
+    transitionMaxAgeMs: envNumber('TRANSITION_RETENTION_DAYS', 30) * DAY_MS,
+    snapshotIntervalMs: envNumber('SNAPSHOT_INTERVAL_MS', 5 * 60 * 1000),
+    compactionIntervalMs: HOUR_MS,
+  };
+}
+
+interface StoredCandle extends Candle {
+  symbol: string;
+}
+
+export interface PairSnapshot {
+  timestamp: number;
+  market: Market;
+  pairs: TradingPair[];
+}
+
+// Candles, pair snapshots and signal transitions on disk, so a restart picks up where
+// the last run left off. Candles live in candles/<market>-<interval>.jsonl, snapshots in
+// snapshots/<market>.jsonl and transitions in events/transitions.jsonl; all are
+// append-only and rewritten by compact() to apply the retention policy.
+export class MarketDataPersistence {
+  private candleFiles: Map<string, JsonlFile<StoredCandle>> = new Map();
+  private snapshotFiles: Map<Market, JsonlFile<PairSnapshot>> = new Map();
+  private transitionFile = new JsonlFile<SignalTransition>('events/transitions.jsonl');
+
+  constructor(public readonly policy: RetentionPolicy = loadRetentionPolicy()) {}
+
+  private candleFile(market: Market, interval: string): JsonlFile<StoredCandle> {
+    const key = `${market}-${interval}`;
+    let file = this.candleFiles.get(key);
+    if (!file) {
+      file = new JsonlFile(`candles/${key}.jsonl`);
+      this.candleFiles.set(key, file);
+    }
+    return file;
+  }
+
+  private snapshotFile(market: Market): JsonlFile<PairSnapshot> {
+    let file = this.snapshotFiles.get(market);
+    if (!file) {
+      file = new JsonlFile(`snapshots/${market}.jsonl`, 0);
+      this.snapshotFiles.set(market, file);
+    }
+    return file;
+  }
+
+  // Merge every stored candle into the store; returns how many series were restored
+  public loadCandles(store: CandleStore): number {
+    let restored = 0;
+
+    for (const name of listDataFiles('candles')) {
+      const match = name.match(CANDLE_FILE_PATTERN);
+      if (!match) continue;
+
+      const market = match[1] as Market;
+      const interval = match[2];
+      const bySymbol: Map<string, Candle[]> = new Map();
+
+      for (const { symbol, ...candle } of this.candleFile(market, interval).readAll()) {
+        const candles = bySymbol.get(symbol);
+        if (candles) candles.push(candle);
+        else bySymbol.set(symbol, [candle]);
+      }
+
+      for (const [symbol, candles] of bySymbol) {
+        store.merge(market, symbol, interval, candles);
+        restored++;
+      }
+    }
+
+    return restored;
+  }
+
+  public recordCandles(market: Market, symbol: string, interval: string, candles: Candle[]) {
+    const file = this.candleFile(market, interval);
+    for (const candle of candles) {
+      file.append({ symbol, ...candle });
+    }
+  }
+
+  public saveSnapshot(market: Market, pairs: TradingPair[], timestamp: number = Date.now()) {
+    if (pairs.length === 0) return;
+    const file = this.snapshotFile(market);
+    file.append({ timestamp, market, pairs });
+    file.flush();
+  }
+
+  // Newest snapshot still inside the retention window
+  public loadLatestSnapshot(market: Market, now: number = Date.now()): PairSnapshot | null {
+    const snapshots = this.snapshotFile(market).readAll();
+    const latest = snapshots[snapshots.length - 1];
+    if (!latest || now - latest.timestamp > this.policy.snapshotMaxAgeMs) return null;
+    return latest;
+  }
+
+  public recordTransition(transition: SignalTransition) {
+    this.transitionFile.append(transition);
+  }
+
+  // Transitions inside the retention window, oldest first
+  public loadTransitions(now: number = Date.now()): SignalTransition[] {
+    return this.transitionFile.readAll().filter(event => now - event.timestamp <= this.policy.transitionMaxAgeMs);
+  }
+
+  // Apply the retention policy to the store and rewrite the files from what is left.
+  // The store already holds everything on disk (loadCandles runs first) trimmed to
+  // candlesPerSeries, so its contents are exactly what should be kept.
+  public async compact(store: CandleStore, now: number = Date.now()) {
+    const kept: Map<string, StoredCandle[]> = new Map();
+    let droppedSeries = 0;
+
+    for (const { market, symbol, interval, candles } of Array.from(store.allSeries())) {
+      // Weekly and monthly candles close less often than the retention window, so
+      // a series only counts as abandoned once it has missed two of its own candles
+      const last = candles[candles.length - 1];
+      const maxAge = Math.max(this.policy.candleMaxAgeMs, 2 * intervalToMs(interval));
+      if (!last || now - last.closeTime > maxAge) {
+        store.delete(market, symbol, interval);
+        droppedSeries++;
+        continue;
+      }
+
+      const key = `${market}-${interval}`;
+      const records = kept.get(key) ?? [];
+      for (const candle of candles) records.push({ symbol, ...candle });
+      kept.set(key, records);
+    }
+
+    // Files whose series were all dropped are emptied too
+    for (const name of listDataFiles('candles')) {
+      const match = name.match(CANDLE_FILE_PATTERN);
+      if (match && !kept.has(`${match[1]}-${match[2]}`)) kept.set(`${match[1]}-${match[2]}`, []);
+    }
+
+    const rewrites: Promise<void>[] = [];
+    for (const [key, records] of kept) {
+      const [market, interval] = key.split('-');
+      rewrites.push(this.candleFile(market as Market, interval).rewrite(records));
+    }
+
+    for (const market of ['spot', 'futures'] as Market[]) {
+      const file = this.snapshotFile(market);
+      await file.flush();
+      const snapshots = file.readAll();
+      const recent = snapshots.filter(snapshot => now - snapshot.timestamp <= this.policy.snapshotMaxAgeMs);
+      if (recent.length !== snapshots.length) rewrites.push(file.rewrite(recent));
+    }
+
+    await this.transitionFile.flush();
+    const transitions = this.transitionFile.readAll();
+    const keptTransitions = transitions.filter(event => now - event.timestamp <= this.policy.transitionMaxAgeMs);
+    if (keptTransitions.length !== transitions.length) rewrites.push(this.transitionFile.rewrite(keptTransitions));
+
+    await Promise.all(rewrites);
+
+    if (droppedSeries > 0) {
+      console.log(`🧹 Dropped ${droppedSeries} candle series with no data in the retention window`);
+    }
+  }
+
+  public async flush() {
+    const files = [...this.candleFiles.values(), ...this.snapshotFiles.values()];
+    await Promise.all([...files.map(file => file.flush()), this.transitionFile.flush()]);
+  }
+}
@@ -0,0 +1,157 @@
+import { Market, RSIPoint } from '@/types/trading';
+import { Candle } from '@/types/exchange';
+import { CandleStore } from './candleStore';
+import { nextOpenTime } from './timeframes';
+
+function toRSI(avgGain: number, avgLoss: number): number | null {
+  if (avgLoss === 0) return 100;
+  const rs = avgGain / avgLoss;
+  const rsi = parseFloat((100 - (100 / (1 + rs))).toFixed(2));
+
+  // Validate RSI is in correct range
+  if (rsi < 0 || rsi > 100) {
+    console.warn(`⚠️ Invalid RSI calculated: ${rsi}`);
+    return null;
+  }
+  return rsi;
+}
+
+// Running Wilder's RSI (TradingView standard). The first `period` changes seed
+// simple averages, every later close is folded in with Wilder's smoothing, so
+// each push and each preview is O(1).
+export class WilderRSI {
+  private closes = 0;
+  private lastClose = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+
+  constructor(public readonly period: number = 14) {}
+
+  public push(close: number) {
+    if (this.closes > 0) {
+      const change = close - this.lastClose;
+      const gain = change > 0 ? change : 0;
+      const loss = change < 0 ? -change : 0;
+
+      if (this.closes <= this.period) {
+        // Still seeding: accumulate sums, turned into averages on the last seed change
+        this.avgGain += gain;
+        this.avgLoss += loss;
+        if (this.closes === this.period) {
+          this.avgGain /= this.period;
+          this.avgLoss /= this.period;
+        }
+      } else {
+        this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+        this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+      }
+    }
+
+    this.lastClose = close;
+    this.closes++;
+  }
+
+  public get ready(): boolean {
+    return this.closes > this.period;
+  }
+
+  // RSI as of the last pushed close
+  public value(): number | null {
+    return this.ready ? toRSI(this.avgGain, this.avgLoss) : null;
+  }
+
+  // RSI if `price` were the next close, without committing it
+  public preview(price: number): number | null {
+    if (!this.ready) return null;
+
+    const change = price - this.lastClose;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    return toRSI(
+      (this.avgGain * (this.period - 1) + gain) / this.period,
+      (this.avgLoss * (this.period - 1) + loss) / this.period
+    );
+  }
+}
+
+// RSI at every candle's close. A gap in the candles restarts the calculation,
+// so points stay null until `period` changes have been seen again.
+export function rsiSeries(candles: Candle[], interval: string, period: number = 14): RSIPoint[] {
+  let rsi = new WilderRSI(period);
+  return candles.map((candle, index) => {
+    if (index > 0 && nextOpenTime(candles[index - 1].openTime, interval) !== candle.openTime) {
+      rsi = new WilderRSI(period);
+    }
+    rsi.push(candle.close);
+    return { time: candle.openTime, rsi: rsi.value() };
+  });
+}
+
+interface SeriesRSI {
+  rsi: WilderRSI;
+  lastOpenTime: number;
+}
+
+// Wilder RSI state per market/symbol/interval, kept in step with a CandleStore.
+// Closed candles that extend the series are committed in O(1); anything else
+// (gap refills, replaced candles, trimmed or dropped series, a new period)
+// makes the state rebuild from the store's gap-free tail the next time it is read.
+export class RSIStateStore {
+  private states: Map<string, SeriesRSI> = new Map();
+
+  constructor(
+    private readonly candleStore: CandleStore,
+    private readonly periodFor: (market: Market, interval: string) => number = () => 14
+  ) {}
+
+  private key(market: Market, symbol: string, interval: string): string {
+    return `${market}:${symbol}:${interval}`;
+  }
+
+  // Call after a closed candle was upserted into the candle store
+  public commit(market: Market, symbol: string, interval: string, candle: Candle) {
+    const key = this.key(market, symbol, interval);
+    const state = this.states.get(key);
+    if (!state) return;
+
+    if (candle.openTime === nextOpenTime(state.lastOpenTime, interval)) {
+      state.rsi.push(candle.close);
+      state.lastOpenTime = candle.openTime;
+    } else if (candle.openTime <= state.lastOpenTime) {
+      // A candle already folded in was replaced, which can't be undone incrementally
+      this.states.delete(key);
+    }
+  }
+
+  // Call after candles were merged into the middle of a series
+  public invalidate(market: Market, symbol: string, interval: string) {
+    this.states.delete(this.key(market, symbol, interval));
+  }
+
+  // RSI state whose last close is the newest stored candle, or null without enough history
+  public get(market: Market, symbol: string, interval: string): WilderRSI | null {
+    const key = this.key(market, symbol, interval);
+    const last = this.candleStore.lastCandle(market, symbol, interval);
+    if (!last) {
+      this.states.delete(key);
+      return null;
+    }
+
+    const period = this.periodFor(market, interval);
+    let state = this.states.get(key);
+    if (!state || state.lastOpenTime !== last.openTime || state.rsi.period !== period) {
+      const rsi = new WilderRSI(period);
+      for (const candle of this.candleStore.getContiguousCandles(market, symbol, interval)) {
+        rsi.push(candle.close);
+      }
+      state = { rsi, lastOpenTime: last.openTime };
+      this.states.set(key, state);
+    }
+
+    return state.rsi.ready ? state.rsi : null;
+  }
+
+  public clear() {
+    this.states.clear();
+  }
+}
@@ -0,0 +1,301 @@
+// Filter expression language shared by /api/screener and the table's advanced filter.
+// Pure (no Node APIs) so the browser parses and matches exactly like the server.
+import { Market, TradingPair, TradingSignal } from '@/types/trading';
+import {
+  ScreenerComparison,
+  ScreenerExpression,
+  ScreenerOperator,
+  ScreenerQuery,
+  ScreenerResult,
+} from '@/types/screener';
+import { RSI_TIMEFRAMES, rsiColumnId } from './timeframes';
+import { INDICATOR_OUTPUTS } from './indicators';
+
+const MARKETS: Market[] = ['spot', 'futures'];
+const SIGNALS: TradingSignal[] = ['STRONG_BUY', 'BUY', 'NEUTRAL', 'SELL', 'STRONG_SELL'];
+const PAIR_FIELDS = ['price', 'change24h', 'volume24h', 'high24h', 'low24h', 'confluenceScore', 'confluenceStrength'];
+const TEXT_FIELDS = ['market', 'symbol', 'signal'];
+const KEYWORDS = ['AND', 'OR', 'NOT'];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100; // Every tracked pair of both markets
+
+// Numeric fields of a pair, also the fields alert conditions can watch
+export function numericFields(): string[] {
+  return [...PAIR_FIELDS, ...RSI_TIMEFRAMES.map(rsiColumnId), ...INDICATOR_OUTPUTS.map(output => output.key)];
+}
+
+export function numericFieldValue(pair: TradingPair, field: string): number | null {
+  switch (field) {
+    case 'price':
+    case 'change24h':
+    case 'volume24h':
+    case 'high24h':
+    case 'low24h':
+      return pair[field];
+    case 'confluenceScore':
+      return pair.confluence?.score ?? null;
+    case 'confluenceStrength':
+      return pair.confluence?.strength ?? null;
+  }
+  const timeframe = RSI_TIMEFRAMES.find(tf => rsiColumnId(tf) === field);
+  if (timeframe) return pair.rsi[timeframe] ?? null;
+  return pair.indicators?.[field] ?? null;
+}
+
+export function screenerFields(): string[] {
+  return [...TEXT_FIELDS, ...numericFields()];
+}
+
+function fieldValue(pair: TradingPair, field: string): number | string | null {
+  switch (field) {
+    case 'market':
+      return pair.market;
+    case 'symbol':
+      return pair.symbol;
+    case 'signal':
+      return pair.signal;
+  }
+  return numericFieldValue(pair, field);
+}
+
+interface Token {
+  type: 'number' | 'word' | 'string' | 'operator' | '(' | ')';
+  text: string;
+  position: number; // 1-based column in the expression
+}
+
+class ScreenerSyntaxError extends Error {}
+
+// Words, numbers (50e6, -5, 0.25), quoted strings, parentheses and comparison operators
+const TOKEN_PATTERN = /([()])|(<=|>=|!=|==|<>|<|>|=)|(-?(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?)|([A-Za-z_]\w*)|'([^']*)'|"([^"]*)"/iy;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (true) {
+    while (index < text.length && /\s/.test(text[index])) index++;
+    if (index >= text.length) return tokens;
+
+    TOKEN_PATTERN.lastIndex = index;
+    const match = TOKEN_PATTERN.exec(text);
+    const position = index + 1;
+    if (!match) {
+      throw new ScreenerSyntaxError(text[index] === '"' || text[index] === "'"
+        ? `Unterminated string starting at position ${position}`
+        : `Unexpected character '${text[index]}' at position ${position}`);
+    }
+
+    const [raw, paren, operator, number, word, single, double] = match;
+    index += raw.length;
+    if (paren) tokens.push({ type: paren as '(' | ')', text: paren, position });
+    else if (operator) tokens.push({ type: 'operator', text: operator === '==' ? '=' : operator === '<>' ? '!=' : operator, position });
+    else if (number) tokens.push({ type: 'number', text: number, position });
+    else if (word) tokens.push({ type: 'word', text: word, position });
+    else tokens.push({ type: 'string', text: single ?? double, position });
+  }
+}
+
+const isKeyword = (token: Token | undefined, keyword?: string) =>
+  token?.type === 'word' && (keyword ? token.text.toUpperCase() === keyword : KEYWORDS.includes(token.text.toUpperCase()));
+
+// Recursive descent over: or := and (OR and)*, and := not (AND not)*,
+// not := NOT not | '(' or ')' | field operator value. Syntax errors throw;
+// unknown fields and mistyped values are collected so all of them get reported.
+class Parser {
+  readonly problems: string[] = [];
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ScreenerExpression {
+    const expression = this.parseOr();
+    const token = this.tokens[this.index];
+    if (token?.type === ')') throw new ScreenerSyntaxError(`Unmatched ')' at position ${token.position}`);
+    if (token) throw new ScreenerSyntaxError(`Expected AND or OR at position ${token.position} but found '${token.text}'`);
+    return expression;
+  }
+
+  private parseOr(): ScreenerExpression {
+    const operands = [this.parseAnd()];
+    while (this.accept('OR')) operands.push(this.parseAnd());
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands };
+  }
+
+  private parseAnd(): ScreenerExpression {
+    const operands = [this.parseNot()];
+    while (this.accept('AND')) operands.push(this.parseNot());
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+  }
+
+  private parseNot(): ScreenerExpression {
+    if (this.accept('NOT')) return { kind: 'not', operand: this.parseNot() };
+
+    const token = this.next('a condition');
+    if (token.type === '(') {
+      const expression = this.parseOr();
+      const close = this.tokens[this.index];
+      if (!close) throw new ScreenerSyntaxError(`Missing ')' for the '(' at position ${token.position}`);
+      if (close.type !== ')') throw new ScreenerSyntaxError(`Expected ')' at position ${close.position} but found '${close.text}'`);
+      this.index++;
+      return expression;
+    }
+    if (token.type !== 'word' || isKeyword(token)) {
+      throw new ScreenerSyntaxError(`Expected a field name at position ${token.position} but found '${token.text}'`);
+    }
+
+    const operator = this.next(`an operator after '${token.text}'`);
+    if (operator.type !== 'operator') {
+      throw new ScreenerSyntaxError(`Expected an operator (<, <=, >, >=, =, !=) at position ${operator.position} but found '${operator.text}'`);
+    }
+    let value = this.next(`a value after '${token.text}${operator.text}'`);
+    // Listings such as 1000PEPEUSDT tokenize as a number and a word; rejoin them when they touch
+    const rest = this.tokens[this.index];
+    if (TEXT_FIELDS.includes(token.text) && value.type === 'number' && rest?.type === 'word' && !isKeyword(rest)
+      && rest.position === value.position + value.text.length) {
+      value = { type: 'word', text: value.text + rest.text, position: value.position };
+      this.index++;
+    }
+    if (value.type !== 'number' && value.type !== 'string' && (value.type !== 'word' || isKeyword(value))) {
+      throw new ScreenerSyntaxError(`Expected a value at position ${value.position} but found '${value.text}'`);
+    }
+    return this.comparison(token, operator.text as ScreenerOperator, value);
+  }
+
+  private comparison(field: Token, operator: ScreenerOperator, value: Token): ScreenerComparison {
+    const name = field.text;
+
+    if (TEXT_FIELDS.includes(name)) {
+      const text = name === 'market' ? value.text.toLowerCase() : value.text.toUpperCase();
+      if (operator !== '=' && operator !== '!=') {
+        this.problems.push(`${name} only supports = and != (position ${field.position})`);
+      } else if (name === 'market' && !MARKETS.includes(text as Market)) {
+        this.problems.push(`market must be one of ${MARKETS.join(', ')} (position ${value.position})`);
+      } else if (name === 'signal' && !SIGNALS.includes(text as TradingSignal)) {
+        this.problems.push(`signal must be one of ${SIGNALS.join(', ')} (position ${value.position})`);
+      }
+      return { kind: 'comparison', field: name, operator, value: text };
+    }
+
+    if (!numericFields().includes(name)) {
+      const suggestion = screenerFields().find(candidate => candidate.toLowerCase() === name.toLowerCase());
+      this.problems.push(suggestion
+        ? `Unknown field '${name}' at position ${field.position}; did you mean '${suggestion}'?`
+        : `Unknown field '${name}' at position ${field.position}; expected one of ${screenerFields().join(', ')}`);
+    } else if (value.type !== 'number') {
+      this.problems.push(`${name} must be compared with a number (position ${value.position})`);
+    }
+    return { kind: 'comparison', field: name, operator, value: value.type === 'number' ? Number(value.text) : value.text };
+  }
+
+  private accept(keyword: string): boolean {
+    if (!isKeyword(this.tokens[this.index], keyword)) return false;
+    this.index++;
+    return true;
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.index++];
+    if (!token) throw new ScreenerSyntaxError(`Expected ${expected} at the end of the expression`);
+    return token;
+  }
+}
+
+// Parses e.g. "market=futures AND (rsi4h<30 OR rsi1d<25) AND NOT signal=SELL".
+// Keywords are case-insensitive, field names are not (rsi1m is minutes, rsi1M months).
+// A blank expression parses to null, which matches every pair.
+export function parseScreenerExpression(text: string): { expression: ScreenerExpression | null; problems: string[] } {
+  if (!text.trim()) return { expression: null, problems: [] };
+
+  try {
+    const parser = new Parser(tokenize(text));
+    const expression = parser.parse();
+    return parser.problems.length > 0
+      ? { expression: null, problems: parser.problems }
+      : { expression, problems: [] };
+  } catch (error) {
+    if (error instanceof ScreenerSyntaxError) return { expression: null, problems: [error.message] };
+    throw error;
+  }
+}
+
+function compare(actual: number | string, operator: ScreenerOperator, expected: number | string): boolean {
+  switch (operator) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+}
+
+// A value that isn't known yet (RSI still warming up) fails every comparison
+export function matchesScreener(expression: ScreenerExpression, pair: TradingPair): boolean {
+  switch (expression.kind) {
+    case 'and':
+      return expression.operands.every(operand => matchesScreener(operand, pair));
+    case 'or':
+      return expression.operands.some(operand => matchesScreener(operand, pair));
+    case 'not':
+      return !matchesScreener(expression.operand, pair);
+  }
+
+  const actual = fieldValue(pair, expression.field);
+  return actual !== null && compare(actual, expression.operator, expression.value);
+}
+
+// Every field an expression compares, in order of appearance
+export function expressionFields(expression: ScreenerExpression): string[] {
+  switch (expression.kind) {
+    case 'and':
+    case 'or':
+      return [...new Set(expression.operands.flatMap(expressionFields))];
+    case 'not':
+      return expressionFields(expression.operand);
+    case 'comparison':
+      return [expression.field];
+  }
+}
+
+// Query string of GET /api/screener: filter (expression), sort (field), order (asc | desc), limit
+export function parseScreenerQuery(params: URLSearchParams): { query: ScreenerQuery; problems: string[] } {
+  const { expression, problems } = parseScreenerExpression(params.get('filter') ?? '');
+  const query: ScreenerQuery = { filter: expression, sort: { field: 'volume24h', direction: 'desc' }, limit: DEFAULT_LIMIT };
+
+  const sort = params.get('sort');
+  if (sort) {
+    if (sort === 'symbol' || numericFields().includes(sort)) query.sort.field = sort;
+    else problems.push(`sort must be symbol or a numeric field (${numericFields().join(', ')})`);
+  }
+  const order = params.get('order');
+  if (order) {
+    if (order === 'asc' || order === 'desc') query.sort.direction = order;
+    else problems.push('order must be asc or desc');
+  }
+
+  const limit = params.get('limit');
+  if (limit) {
+    const value = Number(limit);
+    if (Number.isInteger(value) && value >= 1 && value <= MAX_LIMIT) query.limit = value;
+    else problems.push(`limit must be a whole number from 1 to ${MAX_LIMIT}`);
+  }
+
+  return { query, problems };
+}
+
+// Matching pairs in sort order; pairs without a value for the sort field go last
+export function runScreener(pairs: TradingPair[], query: ScreenerQuery): ScreenerResult {
+  const { filter, sort, limit } = query;
+  const matches = filter ? pairs.filter(pair => matchesScreener(filter, pair)) : [...pairs];
+  const direction = sort.direction === 'asc' ? 1 : -1;
+
+  matches.sort((a, b) => {
+    const left = fieldValue(a, sort.field);
+    const right = fieldValue(b, sort.field);
+    if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+    return (left < right ? -1 : left > right ? 1 : 0) * direction;
+  });
+
+  return { total: matches.length, pairs: matches.slice(0, limit) };
+}
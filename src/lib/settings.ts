@@ -0,0 +1,135 @@
+import { Market } from '@/types/trading';
+import { RSIBands, RSIConfig, RSIOverrides, RSISettings } from '@/types/settings';
+import { intervalToMs } from './timeframes';
+
+export const DEFAULT_RSI_SETTINGS: RSISettings = {
+  period: 14,
+  bands: { strongOversold: 20, oversold: 30, overbought: 70, strongOverbought: 80 },
+  timeframes: {},
+  markets: {},
+};
+
+const MARKETS: Market[] = ['spot', 'futures'];
+const BAND_KEYS: (keyof RSIBands)[] = ['strongOversold', 'oversold', 'overbought', 'strongOverbought'];
+
+function applyOverrides(config: RSIConfig, overrides: RSIOverrides | undefined): RSIConfig {
+  if (!overrides) return config;
+  return {
+    period: overrides.period ?? config.period,
+    bands: { ...config.bands, ...overrides.bands },
+  };
+}
+
+// Most specific wins: market+timeframe, market, timeframe, defaults
+export function resolveRSIConfig(settings: RSISettings, market: Market, timeframe: string): RSIConfig {
+  const marketOverrides = settings.markets[market];
+  let config: RSIConfig = { period: settings.period, bands: settings.bands };
+  config = applyOverrides(config, settings.timeframes[timeframe]);
+  config = applyOverrides(config, marketOverrides);
+  config = applyOverrides(config, marketOverrides?.timeframes?.[timeframe]);
+  return config;
+}
+
+function validateOverrides(overrides: unknown, path: string, problems: string[]) {
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    problems.push(`${path} must be an object`);
+    return;
+  }
+
+  const { period, bands } = overrides as RSIOverrides;
+  if (period !== undefined && (!Number.isInteger(period) || period < 2 || period > 100)) {
+    problems.push(`${path}.period must be an integer between 2 and 100`);
+  }
+  if (bands !== undefined) {
+    if (typeof bands !== 'object' || bands === null) {
+      problems.push(`${path}.bands must be an object`);
+      return;
+    }
+    for (const [key, value] of Object.entries(bands)) {
+      if (!BAND_KEYS.includes(key as keyof RSIBands)) {
+        problems.push(`${path}.bands.${key} is not a known band`);
+      } else if (typeof value !== 'number' || value < 0 || value > 100) {
+        problems.push(`${path}.bands.${key} must be a number between 0 and 100`);
+      }
+    }
+  }
+}
+
+function validateTimeframes(timeframes: unknown, path: string, problems: string[]) {
+  if (timeframes === undefined) return;
+  if (typeof timeframes !== 'object' || timeframes === null || Array.isArray(timeframes)) {
+    problems.push(`${path} must be an object keyed by timeframe`);
+    return;
+  }
+  for (const [timeframe, overrides] of Object.entries(timeframes)) {
+    try {
+      intervalToMs(timeframe);
+    } catch {
+      problems.push(`${path}.${timeframe} is not a valid timeframe`);
+      continue;
+    }
+    validateOverrides(overrides, `${path}.${timeframe}`, problems);
+  }
+}
+
+// Problems with a settings payload (empty when valid). Bands are checked on every
+// resolved market/timeframe so partial overrides can't leave them out of order.
+export function validateRSISettings(input: unknown): string[] {
+  const problems: string[] = [];
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['settings must be an object'];
+  }
+
+  const settings = input as RSISettings;
+  validateOverrides({ period: settings.period, bands: settings.bands }, 'settings', problems);
+  if (typeof settings.period !== 'number') problems.push('settings.period is required');
+  for (const key of BAND_KEYS) {
+    if (typeof settings.bands?.[key] !== 'number') problems.push(`settings.bands.${key} is required`);
+  }
+  validateTimeframes(settings.timeframes, 'timeframes', problems);
+
+  if (settings.markets !== undefined) {
+    if (typeof settings.markets !== 'object' || settings.markets === null) {
+      problems.push('markets must be an object keyed by market');
+    } else {
+      for (const [market, overrides] of Object.entries(settings.markets)) {
+        if (!MARKETS.includes(market as Market)) {
+          problems.push(`markets.${market} is not a known market`);
+          continue;
+        }
+        validateOverrides(overrides, `markets.${market}`, problems);
+        validateTimeframes(overrides?.timeframes, `markets.${market}.timeframes`, problems);
+      }
+    }
+  }
+  if (problems.length > 0) return problems;
+
+  const normalized = normalizeRSISettings(settings);
+  const timeframes = new Set([
+    '',
+    ...Object.keys(normalized.timeframes),
+    ...MARKETS.flatMap(market => Object.keys(normalized.markets[market]?.timeframes ?? {})),
+  ]);
+  for (const market of MARKETS) {
+    for (const timeframe of timeframes) {
+      const { bands } = resolveRSIConfig(normalized, market, timeframe);
+      const ordered = bands.strongOversold <= bands.oversold
+        && bands.oversold < bands.overbought
+        && bands.overbought <= bands.strongOverbought;
+      if (!ordered) {
+        problems.push(`${market}${timeframe ? ` ${timeframe}` : ''} bands must satisfy strongOversold ≤ oversold < overbought ≤ strongOverbought`);
+      }
+    }
+  }
+  return problems;
+}
+
+// Fill in the optional collections so consumers never see undefined
+export function normalizeRSISettings(settings: Partial<RSISettings>): RSISettings {
+  return {
+    period: settings.period ?? DEFAULT_RSI_SETTINGS.period,
+    bands: { ...DEFAULT_RSI_SETTINGS.bands, ...settings.bands },
+    timeframes: settings.timeframes ?? {},
+    markets: settings.markets ?? {},
+  };
+}
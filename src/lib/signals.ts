@@ -0,0 +1,125 @@
+import { RSIByTimeframe, SignalConfluence, TradingSignal } from '@/types/trading';
+import { RSIBands } from '@/types/settings';
+import { RSI_TIMEFRAMES } from './timeframes';
+import { DEFAULT_RSI_SETTINGS } from './settings';
+
+// How per-timeframe RSI readings are combined into one signal
+export interface SignalPolicy {
+  weights: Record<string, number>; // Relative weight per timeframe; 0 leaves it out
+  signalScore: number;             // |score| needed to leave NEUTRAL
+  strongScore: number;             // |score| needed for STRONG_BUY / STRONG_SELL
+}
+
+const VOTES: Record<TradingSignal, number> = {
+  STRONG_BUY: 2,
+  BUY: 1,
+  NEUTRAL: 0,
+  SELL: -1,
+  STRONG_SELL: -2,
+};
+
+const DESCRIPTIONS: Record<TradingSignal, string> = {
+  STRONG_BUY: 'deeply oversold',
+  BUY: 'oversold',
+  NEUTRAL: 'neutral',
+  SELL: 'overbought',
+  STRONG_SELL: 'deeply overbought',
+};
+
+// Get trading signal based on a single RSI reading (0 is a valid, extremely oversold reading)
+export function getRSISignal(rsi: number | null | undefined, bands: RSIBands = DEFAULT_RSI_SETTINGS.bands): TradingSignal {
+  if (rsi === null || rsi === undefined || Number.isNaN(rsi)) return 'NEUTRAL';
+  
+  if (rsi <= bands.strongOversold) return 'STRONG_BUY';
+  if (rsi <= bands.oversold) return 'BUY';
+  if (rsi >= bands.strongOverbought) return 'STRONG_SELL';
+  if (rsi >= bands.overbought) return 'SELL';
+  return 'NEUTRAL';
+}
+
+// "1h:1,4h:2,1d:3"; timeframes left out get weight 0. Without a value every
+// configured timeframe counts, longer ones more (1, 2, 3, ... shortest first).
+export function parseSignalWeights(value: string | undefined, timeframes: string[] = RSI_TIMEFRAMES): Record<string, number> {
+  if (!value) {
+    return Object.fromEntries(timeframes.map((timeframe, index) => [timeframe, index + 1]));
+  }
+
+  const weights: Record<string, number> = Object.fromEntries(timeframes.map(timeframe => [timeframe, 0]));
+  for (const entry of value.split(',')) {
+    const [timeframe, weight] = entry.split(':').map(part => part.trim());
+    const parsed = Number(weight);
+    if (!timeframes.includes(timeframe) || !Number.isFinite(parsed) || parsed < 0) {
+      console.warn(`⚠️ Ignoring signal weight "${entry}"`);
+      continue;
+    }
+    weights[timeframe] = parsed;
+  }
+  return weights;
+}
+
+export const SIGNAL_POLICY: SignalPolicy = {
+  weights: parseSignalWeights(process.env.NEXT_PUBLIC_SIGNAL_WEIGHTS),
+  signalScore: 25,
+  strongScore: 60,
+};
+
+// Weighted vote of every timeframe's RSI signal, each classified with its own
+// bands. The score runs from -100 (all weighted timeframes deeply overbought)
+// to 100 (all deeply oversold); strength is the share of that weight voting in
+// the same direction as the result.
+export function evaluateSignal(
+  rsi: RSIByTimeframe,
+  bandsFor: (timeframe: string) => RSIBands = () => DEFAULT_RSI_SETTINGS.bands,
+  policy: SignalPolicy = SIGNAL_POLICY
+): { signal: TradingSignal; confluence: SignalConfluence } {
+  const readings = Object.entries(policy.weights)
+    .filter(([timeframe, weight]) => weight > 0 && rsi[timeframe] !== null && rsi[timeframe] !== undefined)
+    .map(([timeframe, weight]) => ({ timeframe, weight, signal: getRSISignal(rsi[timeframe], bandsFor(timeframe)) }));
+
+  const totalWeight = readings.reduce((sum, reading) => sum + reading.weight, 0);
+  if (totalWeight === 0) {
+    return { signal: 'NEUTRAL', confluence: { score: 0, strength: 0, explanation: 'No RSI data yet' } };
+  }
+
+  const vote = readings.reduce((sum, reading) => sum + reading.weight * VOTES[reading.signal], 0);
+  const score = Math.round((vote / (2 * totalWeight)) * 100);
+
+  let signal: TradingSignal = 'NEUTRAL';
+  if (score >= policy.strongScore) signal = 'STRONG_BUY';
+  else if (score >= policy.signalScore) signal = 'BUY';
+  else if (score <= -policy.strongScore) signal = 'STRONG_SELL';
+  else if (score <= -policy.signalScore) signal = 'SELL';
+
+  const direction = Math.sign(VOTES[signal]);
+  const agreeingWeight = readings
+    .filter(reading => Math.sign(VOTES[reading.signal]) === direction)
+    .reduce((sum, reading) => sum + reading.weight, 0);
+
+  return {
+    signal,
+    confluence: {
+      score,
+      strength: Math.round((agreeingWeight / totalWeight) * 100),
+      explanation: explain(readings, Object.keys(policy.weights).filter(timeframe => policy.weights[timeframe] > 0)),
+    },
+  };
+}
+
+// e.g. "Oversold on 4h, 1d; neutral on 1h"
+function explain(readings: { timeframe: string; signal: TradingSignal }[], weighted: string[]): string {
+  const groups: Map<TradingSignal, string[]> = new Map();
+  for (const { timeframe, signal } of readings) {
+    groups.set(signal, [...(groups.get(signal) ?? []), timeframe]);
+  }
+
+  const parts = (Object.keys(VOTES) as TradingSignal[])
+    .filter(signal => groups.has(signal))
+    .sort((a, b) => (groups.get(b)?.length ?? 0) - (groups.get(a)?.length ?? 0))
+    .map(signal => `${DESCRIPTIONS[signal]} on ${groups.get(signal)?.join(', ')}`);
+
+  const missing = weighted.filter(timeframe => !readings.some(reading => reading.timeframe === timeframe));
+  if (missing.length > 0) parts.push(`no RSI on ${missing.join(', ')}`);
+
+  const text = parts.join('; ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+
+// Root directory for everything the server persists between restarts
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+function resolve(relativePath: string): string {
+  return path.join(DATA_DIR, relativePath);
+}
+
+// Write through a temp file so a crash never leaves a half-written file behind
+async function writeAtomic(file: string, contents: string) {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, contents, 'utf8');
+  await fs.promises.rename(tmp, file);
+}
+
+// Append-only JSON Lines file. Appends are buffered and flushed in batches;
+// rewrite() replaces the whole file, which is how retention is applied.
+export class JsonlFile<T> {
+  private buffer: string[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private readonly file: string;
+
+  constructor(relativePath: string, private readonly flushDelay: number = 2000) {
+    this.file = resolve(relativePath);
+  }
+
+  public append(record: T) {
+    this.buffer.push(JSON.stringify(record));
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.flushDelay);
+    }
+  }
+
+  public flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.buffer.length === 0) return this.writing;
+
+    const lines = this.buffer.join('\n') + '\n';
+    this.buffer = [];
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.promises.appendFile(this.file, lines, 'utf8');
+      } catch (error) {
+        console.error(`❌ Failed to append to ${this.file}:`, error instanceof Error ? error.message : error);
+      }
+    });
+    return this.writing;
+  }
+
+  // Read every record, skipping lines that were cut off mid-write
+  public readAll(): T[] {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(this.file, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const records: T[] = [];
+    for (const line of contents.split('\n')) {
+      if (!line) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        console.warn(`⚠️ Skipping corrupt line in ${this.file}`);
+      }
+    }
+    return records;
+  }
+
+  // Records still buffered are appended after the rewrite, so nothing is lost
+  public rewrite(records: T[]): Promise<void> {
+    const contents = records.map(record => JSON.stringify(record)).join('\n') + (records.length > 0 ? '\n' : '');
+    this.writing = this.writing.then(() => writeAtomic(this.file, contents)).catch(error => {
+      console.error(`❌ Failed to rewrite ${this.file}:`, error instanceof Error ? error.message : error);
+    });
+    return this.writing;
+  }
+
+  // Empty the file, dropping records that are still buffered
+  public clear(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.buffer = [];
+    return this.rewrite([]);
+  }
+}
+
+// Files directly inside a data subdirectory (empty when it doesn't exist yet)
+export function listDataFiles(relativeDir: string): string[] {
+  try {
+    return fs.readdirSync(resolve(relativeDir));
+  } catch {
+    return [];
+  }
+}
+
+export function readJsonFile<T>(relativePath: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(resolve(relativePath), 'utf8'));
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeJsonFile(relativePath: string, data: unknown): Promise<void> {
+  return writeAtomic(resolve(relativePath), JSON.stringify(data, null, 2));
+}
@@ -0,0 +1,74 @@
+// Kline interval helpers shared by the candle store, the stream manager and the table
+import { RSIByTimeframe } from '@/types/trading';
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Nominal length of an interval such as '15m', '4h' or '1w' ('1M' is treated as 30 days)
+export function intervalToMs(interval: string): number {
+  const match = /^(\d+)([smhdwM])$/.exec(interval);
+  if (!match) throw new Error(`Unsupported interval "${interval}"`);
+
+  const count = parseInt(match[1], 10);
+  const unit = match[2];
+  if (unit === 'M') return count * 30 * UNIT_MS.d;
+  return count * UNIT_MS[unit];
+}
+
+// Open time of the candle that follows the one opening at openTime
+export function nextOpenTime(openTime: number, interval: string): number {
+  const match = /^(\d+)M$/.exec(interval);
+  if (!match) return openTime + intervalToMs(interval);
+
+  // Monthly candles open on the first day of each calendar month (UTC)
+  const date = new Date(openTime);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + parseInt(match[1], 10), 1);
+}
+
+const DEFAULT_RSI_TIMEFRAMES = ['1h', '4h', '1d'];
+
+// Comma-separated intervals, e.g. "5m,15m,1h,4h,1d,1w"; invalid entries are dropped
+// and the rest ordered from shortest to longest
+export function parseTimeframes(value: string | undefined): string[] {
+  const timeframes = (value ?? '')
+    .split(',')
+    .map(timeframe => timeframe.trim())
+    .filter(timeframe => {
+      if (!timeframe) return false;
+      try {
+        intervalToMs(timeframe);
+        return true;
+      } catch {
+        console.warn(`⚠️ Ignoring unsupported RSI timeframe "${timeframe}"`);
+        return false;
+      }
+    });
+
+  const unique = Array.from(new Set(timeframes)).sort((a, b) => intervalToMs(a) - intervalToMs(b));
+  return unique.length > 0 ? unique : DEFAULT_RSI_TIMEFRAMES;
+}
+
+// Timeframes RSI is streamed, stored and shown for. NEXT_PUBLIC_ so the table
+// builds the same columns the server computes.
+export const RSI_TIMEFRAMES = parseTimeframes(process.env.NEXT_PUBLIC_RSI_TIMEFRAMES);
+
+export function emptyRSI(): RSIByTimeframe {
+  return Object.fromEntries(RSI_TIMEFRAMES.map(timeframe => [timeframe, null]));
+}
+
+// Table column id for a timeframe's RSI ('1h' -> 'rsi1h')
+export function rsiColumnId(timeframe: string): string {
+  return `rsi${timeframe}`;
+}
+
+// Timeframe the technical indicators run on (default 1d); must be one of the RSI
+// timeframes since only those are streamed, else the longest configured one is used
+const requestedIndicatorTimeframe = process.env.NEXT_PUBLIC_INDICATOR_TIMEFRAME || '1d';
+export const INDICATOR_TIMEFRAME = RSI_TIMEFRAMES.includes(requestedIndicatorTimeframe)
+  ? requestedIndicatorTimeframe
+  : RSI_TIMEFRAMES[RSI_TIMEFRAMES.length - 1];
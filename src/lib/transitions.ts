@@ -0,0 +1,97 @@
+import { randomUUID } from 'crypto';
+import { Market, SignalTransition, TradingPair, TradingSignal } from '@/types/trading';
+import { Candle } from '@/types/exchange';
+
+// How long a pair's new overall signal must hold before it counts as a transition
+const SIGNAL_CONFIRM_MS = 30 * 1000;
+
+interface PendingSignal {
+  confirmed: TradingSignal;
+  pending: TradingSignal | null;
+  since: number;
+}
+
+// Detects signal changes per market/symbol. Timeframe RSI zones are fed once per
+// closed candle, so a live price hovering on a band edge can't flap them; the
+// pair's overall signal follows the live price, so a change has to hold for
+// SIGNAL_CONFIRM_MS first. The first reading of anything only records where it starts.
+export class SignalTransitionTracker {
+  private zones: Map<string, TradingSignal> = new Map();
+  private signals: Map<string, PendingSignal> = new Map();
+
+  constructor(private readonly confirmMs: number = SIGNAL_CONFIRM_MS) {}
+
+  private key(market: Market, symbol: string, timeframe: string = ''): string {
+    return `${market}:${symbol}:${timeframe}`;
+  }
+
+  public observeZone(
+    market: Market,
+    symbol: string,
+    timeframe: string,
+    candle: Candle,
+    rsi: number,
+    signal: TradingSignal,
+    volume24h?: number
+  ): SignalTransition | null {
+    const key = this.key(market, symbol, timeframe);
+    const previous = this.zones.get(key);
+    this.zones.set(key, signal);
+    if (previous === undefined || previous === signal) return null;
+
+    return {
+      id: randomUUID(),
+      kind: 'rsi_zone',
+      market,
+      symbol,
+      timeframe,
+      from: previous,
+      to: signal,
+      value: rsi,
+      price: candle.close,
+      timestamp: candle.closeTime,
+      volume24h,
+    };
+  }
+
+  public observeSignal(pair: TradingPair, now: number = Date.now()): SignalTransition | null {
+    const key = this.key(pair.market, pair.symbol);
+    const state = this.signals.get(key);
+    if (!state) {
+      this.signals.set(key, { confirmed: pair.signal, pending: null, since: now });
+      return null;
+    }
+
+    if (pair.signal === state.confirmed) {
+      state.pending = null;
+      return null;
+    }
+    if (pair.signal !== state.pending) {
+      state.pending = pair.signal;
+      state.since = now;
+    }
+    if (now - state.since < this.confirmMs) return null;
+
+    const from = state.confirmed;
+    state.confirmed = pair.signal;
+    state.pending = null;
+    return {
+      id: randomUUID(),
+      kind: 'signal',
+      market: pair.market,
+      symbol: pair.symbol,
+      timeframe: null,
+      from,
+      to: pair.signal,
+      value: pair.confluence.score,
+      price: pair.price,
+      timestamp: now,
+      volume24h: pair.volume24h,
+    };
+  }
+
+  public clear() {
+    this.zones.clear();
+    this.signals.clear();
+  }
+}
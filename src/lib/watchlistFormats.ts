@@ -0,0 +1,164 @@
+// Watchlist files: TradingView .txt, CSV and JSON. Parsing only checks the syntax;
+// whether a symbol is actually listed is up to resolveWatchlistEntries.
+import { Market } from '@/types/trading';
+import { SkippedEntry, Watchlist, WatchlistEntry, WatchlistFormat } from '@/types/watchlists';
+
+export const WATCHLIST_FORMATS: WatchlistFormat[] = ['tradingview', 'csv', 'json'];
+
+const PERP_SUFFIX = '.P'; // TradingView's marker for perpetual futures
+const SYMBOL_PATTERN = /^[A-Z0-9]{2,30}$/;
+const MARKET_ALIASES: Record<string, Market> = {
+  spot: 'spot',
+  futures: 'futures',
+  perp: 'futures',
+  perpetual: 'futures',
+};
+
+// An entry with the text it was parsed from, for reporting
+export interface ParsedEntry extends WatchlistEntry {
+  text: string;
+}
+
+export interface ParsedWatchlistFile {
+  name?: string;
+  entries: ParsedEntry[];
+  skipped: SkippedEntry[];
+}
+
+export const FILE_EXTENSIONS: Record<WatchlistFormat, string> = {
+  tradingview: 'txt',
+  csv: 'csv',
+  json: 'json',
+};
+
+export const CONTENT_TYPES: Record<WatchlistFormat, string> = {
+  tradingview: 'text/plain; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+// JSON starts with a bracket, CSV has a header naming a symbol column, anything else
+// is read as TradingView (which also covers bare symbol lists)
+export function detectWatchlistFormat(text: string): WatchlistFormat {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+  const header = trimmed.split(/\r?\n/, 1)[0].toLowerCase().split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+  return header.includes('symbol') ? 'csv' : 'tradingview';
+}
+
+// "BINANCE:BTCUSDT" (spot), "BINANCE:BTCUSDT.P" (perpetual) or a bare "BTCUSDT"
+function parseTicker(text: string, exchange: string): ParsedEntry | SkippedEntry {
+  const [prefix, rest] = text.includes(':') ? text.split(':', 2) : [null, text];
+  if (prefix !== null && prefix.toUpperCase() !== exchange) {
+    return { text, reason: `Listed on ${prefix.toUpperCase()}, not ${exchange}` };
+  }
+
+  const upper = rest.trim().toUpperCase();
+  const perpetual = upper.endsWith(PERP_SUFFIX);
+  const symbol = perpetual ? upper.slice(0, -PERP_SUFFIX.length) : upper;
+  if (!SYMBOL_PATTERN.test(symbol)) return { text, reason: 'Not a valid symbol' };
+  return { text, market: perpetual ? 'futures' : 'spot', symbol };
+}
+
+const isSkipped = (result: ParsedEntry | SkippedEntry): result is SkippedEntry => 'reason' in result;
+
+function collect(results: (ParsedEntry | SkippedEntry)[], name?: string): ParsedWatchlistFile {
+  return {
+    name,
+    entries: results.filter((result): result is ParsedEntry => !isSkipped(result)),
+    skipped: results.filter(isSkipped),
+  };
+}
+
+// Comma- or newline-separated tickers; "###Section" headers are dropped
+function parseTradingView(text: string, exchange: string): ParsedWatchlistFile {
+  const items = text
+    .split(/[,\r\n]+/)
+    .map(item => item.trim())
+    .filter(item => item && !item.startsWith('###'));
+  return collect(items.map(item => parseTicker(item, exchange)));
+}
+
+// A header with a symbol column and optionally a market column (spot, futures, perp).
+// Symbols may also be TradingView tickers, whose .P suffix then sets the market.
+function parseCsv(text: string, exchange: string): ParsedWatchlistFile {
+  const rows = text
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map(line => line.split(',').map(cell => cell.trim().replace(/^"|"$/g, '')));
+  const header = (rows.shift() ?? []).map(cell => cell.toLowerCase());
+  const symbolColumn = header.indexOf('symbol');
+  const marketColumn = header.indexOf('market');
+  if (symbolColumn === -1) return { entries: [], skipped: [{ text: header.join(','), reason: 'CSV header needs a symbol column' }] };
+
+  return collect(rows.map(row => {
+    const text = row.join(',');
+    const parsed = parseTicker(row[symbolColumn] ?? '', exchange);
+    if (isSkipped(parsed)) return { text, reason: parsed.reason };
+    if (marketColumn === -1 || !row[marketColumn]) return { ...parsed, text };
+
+    const market = MARKET_ALIASES[row[marketColumn].toLowerCase()];
+    return market ? { ...parsed, text, market } : { text, reason: `Unknown market "${row[marketColumn]}"` };
+  }));
+}
+
+// The export format ({ name, entries }), a bare list of entries, or a list of TradingView tickers
+function parseJson(text: string, exchange: string): ParsedWatchlistFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { entries: [], skipped: [{ text: text.slice(0, 80), reason: 'Not valid JSON' }] };
+  }
+
+  const name = typeof data === 'object' && data !== null && 'name' in data && typeof data.name === 'string' ? data.name : undefined;
+  const items = Array.isArray(data) ? data : (data as { entries?: unknown })?.entries;
+  if (!Array.isArray(items)) {
+    return { name, entries: [], skipped: [{ text: text.slice(0, 80), reason: 'Expected a list of entries or { "name", "entries" }' }] };
+  }
+
+  return collect(items.map(item => {
+    if (typeof item === 'string') return parseTicker(item, exchange);
+
+    const text = JSON.stringify(item);
+    const { market, symbol } = (item ?? {}) as { market?: unknown; symbol?: unknown };
+    if (typeof symbol !== 'string') return { text, reason: 'Entry needs a symbol' };
+    const parsed = parseTicker(symbol, exchange);
+    if (isSkipped(parsed)) return { text, reason: parsed.reason };
+    if (market === undefined) return { ...parsed, text };
+
+    const resolved = typeof market === 'string' ? MARKET_ALIASES[market.toLowerCase()] : undefined;
+    return resolved ? { ...parsed, text, market: resolved } : { text, reason: `Unknown market ${JSON.stringify(market)}` };
+  }), name);
+}
+
+// `exchange` is the venue prefix TradingView uses, e.g. "BINANCE"
+export function parseWatchlistFile(text: string, format: WatchlistFormat, exchange: string): ParsedWatchlistFile {
+  switch (format) {
+    case 'tradingview':
+      return parseTradingView(text, exchange);
+    case 'csv':
+      return parseCsv(text, exchange);
+    case 'json':
+      return parseJson(text, exchange);
+  }
+}
+
+export function formatWatchlist(watchlist: Watchlist, format: WatchlistFormat, exchange: string): string {
+  switch (format) {
+    case 'tradingview': {
+      // TradingView exports one comma-separated line with a section per group
+      const section = (title: string, market: Market) => {
+        const entries = watchlist.entries.filter(entry => entry.market === market);
+        if (entries.length === 0) return [];
+        const suffix = market === 'futures' ? PERP_SUFFIX : '';
+        return [`###${title}`, ...entries.map(entry => `${exchange}:${entry.symbol}${suffix}`)];
+      };
+      return [...section('SPOT', 'spot'), ...section('PERPETUALS', 'futures')].join(',');
+    }
+    case 'csv':
+      return ['market,symbol', ...watchlist.entries.map(entry => `${entry.market},${entry.symbol}`)].join('\n') + '\n';
+    case 'json':
+      return JSON.stringify({ name: watchlist.name, entries: watchlist.entries }, null, 2);
+  }
+}
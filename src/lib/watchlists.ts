@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto';
+import { Market } from '@/types/trading';
+import { ExchangeAdapter, SymbolInfo } from '@/types/exchange';
+import { SkippedEntry, Watchlist, WatchlistEntry, WatchlistInput } from '@/types/watchlists';
+import { ParsedEntry } from './watchlistFormats';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const WATCHLISTS_FILE = 'watchlists/watchlists.json';
+const MARKETS: Market[] = ['spot', 'futures'];
+const SYMBOL_PATTERN = /^[A-Z0-9]{2,30}$/;
+const MAX_ENTRIES = 200; // Each one holds kline streams open for every RSI timeframe
+const SYMBOL_CACHE_MS = 60 * 60 * 1000;
+
+function entryKey(entry: WatchlistEntry): string {
+  return `${entry.market}:${entry.symbol}`;
+}
+
+// Upper-cased symbols, duplicates dropped (first occurrence kept)
+export function normalizeEntries(entries: WatchlistEntry[]): WatchlistEntry[] {
+  const seen = new Set<string>();
+  const result: WatchlistEntry[] = [];
+  for (const { market, symbol } of entries) {
+    const entry = { market, symbol: symbol.trim().toUpperCase() };
+    if (seen.has(entryKey(entry))) continue;
+    seen.add(entryKey(entry));
+    result.push(entry);
+  }
+  return result;
+}
+
+function validateEntries(entries: unknown, problems: string[]) {
+  if (!Array.isArray(entries)) {
+    problems.push('entries must be a list of { market, symbol }');
+    return;
+  }
+
+  entries.forEach((entry, index) => {
+    const { market, symbol } = (entry ?? {}) as Partial<WatchlistEntry>;
+    if (!MARKETS.includes(market as Market)) {
+      problems.push(`entries[${index}].market must be one of ${MARKETS.join(', ')}`);
+    }
+    if (typeof symbol !== 'string' || !SYMBOL_PATTERN.test(symbol.trim().toUpperCase())) {
+      problems.push(`entries[${index}].symbol must be an exchange symbol such as BTCUSDT`);
+    }
+  });
+  if (entries.length > MAX_ENTRIES) {
+    problems.push(`a watchlist holds at most ${MAX_ENTRIES} symbols`);
+  }
+}
+
+// Problems with a watchlist payload (empty when valid). Updates may leave out the name.
+export function validateWatchlistInput(input: unknown, requireName: boolean = true): string[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return ['watchlist must be an object'];
+  }
+
+  const problems: string[] = [];
+  const { name, entries } = input as WatchlistInput;
+
+  if (name !== undefined ? typeof name !== 'string' || !name.trim() : requireName) {
+    problems.push('name must be a non-empty string');
+  }
+  if (entries !== undefined) validateEntries(entries, problems);
+  return problems;
+}
+
+// Watchlists, persisted to data/watchlists/watchlists.json. Listeners hear about
+// every change so the stream manager can re-evaluate which symbols it tracks.
+export class WatchlistStore {
+  private watchlists: Map<string, Watchlist> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  constructor() {
+    for (const watchlist of readJsonFile<Watchlist[]>(WATCHLISTS_FILE, [])) {
+      this.watchlists.set(watchlist.id, watchlist);
+    }
+  }
+
+  public list(): Watchlist[] {
+    return Array.from(this.watchlists.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  public get(id: string): Watchlist | null {
+    return this.watchlists.get(id) ?? null;
+  }
+
+  public async create(input: WatchlistInput): Promise<Watchlist> {
+    const now = Date.now();
+    const watchlist: Watchlist = {
+      id: randomUUID(),
+      name: (input.name ?? '').trim(),
+      entries: normalizeEntries(input.entries ?? []),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.watchlists.set(watchlist.id, watchlist);
+    await this.save();
+    return watchlist;
+  }
+
+  public async update(id: string, input: WatchlistInput): Promise<Watchlist | null> {
+    const existing = this.watchlists.get(id);
+    if (!existing) return null;
+
+    const watchlist: Watchlist = {
+      ...existing,
+      name: input.name?.trim() ?? existing.name,
+      entries: input.entries ? normalizeEntries(input.entries) : existing.entries,
+      updatedAt: Date.now(),
+    };
+    this.watchlists.set(id, watchlist);
+    await this.save();
+    return watchlist;
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    if (!this.watchlists.delete(id)) return false;
+    await this.save();
+    return true;
+  }
+
+  // Every watchlisted symbol of one market, across all lists
+  public symbols(market: Market): Set<string> {
+    const symbols = new Set<string>();
+    for (const watchlist of this.watchlists.values()) {
+      for (const entry of watchlist.entries) {
+        if (entry.market === market) symbols.add(entry.symbol);
+      }
+    }
+    return symbols;
+  }
+
+  // Returns the function that stops listening
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async save() {
+    await writeJsonFile(WATCHLISTS_FILE, this.list());
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ Error in watchlist listener:', error);
+      }
+    }
+  }
+}
+
+// The exchange's symbol listings per market, fetched on demand and cached for an hour
+export class SymbolDirectory {
+  private listings: Map<Market, { fetchedAt: number; symbols: Promise<Map<string, SymbolInfo>> }> = new Map();
+
+  constructor(private readonly adapter: ExchangeAdapter) {}
+
+  public lookup(market: Market): Promise<Map<string, SymbolInfo>> {
+    const cached = this.listings.get(market);
+    if (cached && Date.now() - cached.fetchedAt < SYMBOL_CACHE_MS) return cached.symbols;
+
+    const symbols = this.adapter.fetchSymbols(market).then(
+      infos => new Map(infos.map(info => [info.symbol, info])),
+      error => {
+        // Don't cache the failure; the next import tries again
+        this.listings.delete(market);
+        throw error;
+      }
+    );
+    this.listings.set(market, { fetchedAt: Date.now(), symbols });
+    return symbols;
+  }
+}
+
+// Keeps the entries the exchange lists and trades on their market; the rest are
+// reported, with a hint when the symbol exists on the other market
+export async function resolveWatchlistEntries(
+  entries: ParsedEntry[],
+  directory: SymbolDirectory
+): Promise<{ entries: WatchlistEntry[]; skipped: SkippedEntry[] }> {
+  // Both markets, so a symbol on the wrong one can be pointed at the right one
+  const markets = entries.length > 0 ? MARKETS : [];
+  const listings = new Map(await Promise.all(markets.map(async market => [market, await directory.lookup(market)] as const)));
+
+  const resolved: WatchlistEntry[] = [];
+  const skipped: SkippedEntry[] = [];
+  for (const { text, market, symbol } of entries) {
+    const info = listings.get(market)?.get(symbol);
+    if (info?.trading) {
+      resolved.push({ market, symbol });
+    } else if (info) {
+      skipped.push({ text, reason: `${symbol} is not trading on ${market} (delisted or suspended)` });
+    } else {
+      const other: Market = market === 'spot' ? 'futures' : 'spot';
+      const elsewhere = listings.get(other)?.get(symbol)?.trading;
+      skipped.push({ text, reason: `${symbol} is not listed on ${market}${elsewhere ? `, only on ${other}` : ''}` });
+    }
+  }
+  return { entries: resolved, skipped };
+}
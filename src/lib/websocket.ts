@@ -1,88 +1,218 @@
 import WebSocket from 'ws';
-import { TradingPair } from '@/types/trading';
-import { wilderRSI, formatPrice, formatVolume, formatChange, getRSISignal } from './binance';
-
-interface BinanceTickerData {
-  s: string;  // symbol
-  c: string;  // close price
-  v: string;  // volume (base asset)
-  q: string;  // quote volume (USDT)
-  P: string;  // price change percent
-  h: string;  // high price  
-  l: string;  // low price
-}
+import {
+  Divergence,
+  Market,
+  MarketTicker,
+  RSIByTimeframe,
+  SignalTransition,
+  SymbolDetail,
+  TradingPair
+} from '@/types/trading';
+import { Candle, ExchangeAdapter, KlineRange, KlineUpdate } from '@/types/exchange';
+import { RSISettings } from '@/types/settings';
+import { WatchlistEntry, WatchlistView } from '@/types/watchlists';
+import { BacktestReport, BacktestRequest } from '@/types/backtest';
+import { ForwardReturnReport } from '@/types/analytics';
+import { PaperOrderInput, PaperPortfolioView } from '@/types/paper';
+import { getExchangeAdapter } from './exchanges';
+import { KlineStreamPool } from './klineStreams';
+import { CandleGap, CandleStore } from './candleStore';
+import { INDICATOR_TIMEFRAME, RSI_TIMEFRAMES, emptyRSI, intervalToMs } from './timeframes';
+import { evaluateSignal, getRSISignal } from './signals';
+import { MarketDataPersistence } from './persistence';
+import { RSIStateStore, rsiSeries } from './rsi';
+import { IndicatorEngine } from './indicators/engine';
+import { DivergenceTracker } from './divergence';
+import { AlertEngine } from './alerts';
+import { SignalTransitionTracker } from './transitions';
+import { TransitionLog } from './eventLog';
+import { NotificationDispatcher, alertEvent, transitionEvent } from './notifications';
+import { SymbolDirectory, WatchlistStore } from './watchlists';
+import { DEFAULT_RSI_SETTINGS, normalizeRSISettings, resolveRSIConfig, validateRSISettings } from './settings';
+import { readJsonFile, writeJsonFile } from './storage';
+import { runBacktest } from './backtest';
+import { ForwardReturnAnalytics, ForwardReturnQuery } from './forwardReturns';
+import { PaperPortfolio } from './paper';
 
-interface BinanceKlineData {
-  s: string;  // symbol
-  k: {
-    s: string;  // symbol
-    i: string;  // interval
-    c: string;  // close price
-    o: string;  // open price
-    h: string;  // high price
-    l: string;  // low price
-    v: string;  // volume
-    t: number;  // kline start time
-    T: number;  // kline close time
-    x: boolean; // is this kline closed?
-  }
-}
+const RSI_SETTINGS_FILE = 'settings/rsi.json';
 
-interface KlineHistory {
-  [symbol: string]: {
-    [interval: string]: Array<{
-      close: number;
-      timestamp: number;
-    }>;
-  };
-}
+const MARKETS: Market[] = ['spot', 'futures'];
+const KLINE_INTERVALS = RSI_TIMEFRAMES;
 
 export class BinanceWebSocketManager {
   private spotTickerWs: WebSocket | null = null;
   private futuresTickerWs: WebSocket | null = null;
-  private klineWs: WebSocket | null = null;
   private spotData: Map<string, TradingPair> = new Map();
   private futuresData: Map<string, TradingPair> = new Map();
-  private klineHistory: KlineHistory = {};
-  private subscribers: Set<(type: 'spot' | 'futures', data: TradingPair[]) => void> = new Set();
+  private candleStore: CandleStore;
+  private rsiStates: RSIStateStore; // Incremental Wilder RSI over the candle store
+  private indicatorEngine: IndicatorEngine;
+  private divergenceTracker: DivergenceTracker;
+  public readonly alerts: AlertEngine; // Rules run on every pair update
+  public readonly notifications: NotificationDispatcher; // Webhooks for alerts and signal transitions
+  private transitions: SignalTransitionTracker = new SignalTransitionTracker();
+  public readonly transitionLog: TransitionLog = new TransitionLog(); // Signal history for /api/events
+  public readonly forwardReturns: ForwardReturnAnalytics; // How prices moved after each transition
+  public readonly watchlists: WatchlistStore; // Symbols tracked whatever their volume rank
+  public readonly symbolDirectory: SymbolDirectory; // Exchange listings, for resolving imported watchlists
+  public readonly paper: PaperPortfolio; // Simulated positions marked to the live prices
+  private subscribers: Set<(type: Market, data: TradingPair[]) => void> = new Set();
   private reconnectTimeouts: Map<string, NodeJS.Timeout> = new Map();
   private readonly maxReconnectDelay = 30000;
   private readonly initialReconnectDelay = 1000;
   private initialized = false;
   
   // Dynamic kline stream management
-  private currentTopSymbols: Set<string> = new Set();
-  private readonly targetSymbolCount = 15; // Top 15 for each market
-  private klineStreamMap: Map<string, WebSocket> = new Map();
+  private currentTopSymbols: Record<Market, Set<string>> = { spot: new Set(), futures: new Set() };
+  private readonly trackedSymbolCount = 50; // Every row of the spot and futures tables
+  private klinePools: Record<Market, KlineStreamPool>;
   private volumeCheckInterval: NodeJS.Timeout | null = null;
+  private readonly adapter: ExchangeAdapter;
+  
+  // REST backfill of the candle store
+  private readonly backfillLimit = 500;
+  private readonly backfillRetryDelay = 60000;
+  private backfillsInFlight: Map<string, Promise<void>> = new Map();
+  private lastBackfillAttempt: Map<string, number> = new Map();
+  
+  // On-disk candles and pair snapshots (disabled with PERSISTENCE=off)
+  private readonly persistence: MarketDataPersistence | null;
+  private snapshotInterval: NodeJS.Timeout | null = null;
+  private compactionInterval: NodeJS.Timeout | null = null;
+  
+  // Forward-return job over the transition log; candles for the newest events keep arriving
+  private readonly forwardReturnIntervalMs = 60 * 60 * 1000;
+  private forwardReturnInterval: NodeJS.Timeout | null = null;
+  
+  // RSI period and bands per market/timeframe, editable through /api/settings
+  private rsiSettings: RSISettings;
 
-  constructor() {
+  constructor(adapter: ExchangeAdapter = getExchangeAdapter()) {
     // Don't auto-initialize in constructor to avoid issues in Next.js environment
+    this.adapter = adapter;
+    this.persistence = process.env.PERSISTENCE === 'off' ? null : new MarketDataPersistence();
+    this.candleStore = new CandleStore(this.persistence?.policy.candlesPerSeries);
+    this.rsiSettings = this.loadRSISettings();
+    const rsiPeriod = (market: Market, interval: string) => resolveRSIConfig(this.rsiSettings, market, interval).period;
+    this.rsiStates = new RSIStateStore(this.candleStore, rsiPeriod);
+    this.indicatorEngine = new IndicatorEngine(this.candleStore);
+    this.divergenceTracker = new DivergenceTracker(this.candleStore, rsiPeriod);
+    this.forwardReturns = new ForwardReturnAnalytics(this.candleStore, this.transitionLog);
+    this.alerts = new AlertEngine();
+    this.notifications = new NotificationDispatcher();
+    this.alerts.onTrigger(trigger => this.notifications.dispatch(alertEvent(trigger)));
+    this.watchlists = new WatchlistStore();
+    this.symbolDirectory = new SymbolDirectory(adapter);
+    this.paper = new PaperPortfolio((market, symbol) =>
+      (market === 'spot' ? this.spotData : this.futuresData).get(symbol)?.price ?? null
+    );
+    this.watchlists.onChange(() => {
+      if (this.initialized) this.updateKlineStreamsBasedOnVolume();
+    });
+    this.klinePools = {
+      spot: this.createKlinePool('spot'),
+      futures: this.createKlinePool('futures')
+    };
+  }
+
+  private createKlinePool(market: Market) {
+    return new KlineStreamPool(this.adapter, market, {
+      onKline: (update) => this.processKlineData(market, update),
+      // Fall back to REST for candles while a shard is down, and refill what a reconnect missed
+      onShardDown: (symbols) => this.refillStaleSeries(market, symbols),
+      onShardReconnect: (symbols) => this.refillStaleSeries(market, symbols)
+    });
   }
 
   public initialize() {
     if (this.initialized) return;
     
-    console.log('🚀 Initializing Binance WebSocket connections...');
+    console.log(`🚀 Initializing ${this.adapter.name} WebSocket connections...`);
     this.initialized = true;
+    this.restorePersistedData();
+    this.startForwardReturnJob();
     this.connectSpotTicker();
     this.connectFuturesTicker();
     this.startVolumeMonitoring();
   }
 
+  // Reload candles and the last pair snapshots so RSI is available before any stream or REST call
+  private restorePersistedData() {
+    const persistence = this.persistence;
+    if (!persistence) return;
+    
+    try {
+      const series = persistence.loadCandles(this.candleStore);
+      console.log(`💾 Restored ${series} candle series from disk`);
+      
+      const transitions = persistence.loadTransitions();
+      this.transitionLog.load(transitions);
+      console.log(`💾 Restored ${transitions.length} signal transitions from disk`);
+      
+      for (const market of MARKETS) {
+        const snapshot = persistence.loadLatestSnapshot(market);
+        if (!snapshot) continue;
+        
+        const dataMap = market === 'spot' ? this.spotData : this.futuresData;
+        // The configured timeframes may have changed since the snapshot was taken
+        for (const pair of snapshot.pairs) {
+          const rsi = { ...emptyRSI(), ...pair.rsi };
+          dataMap.set(pair.symbol, {
+            ...pair,
+            rsi,
+            indicators: pair.indicators ?? {},
+            divergences: pair.divergences ?? [],
+            ...this.evaluateSignal(market, rsi)
+          });
+        }
+        console.log(`💾 Restored ${snapshot.pairs.length} ${market} pairs from ${new Date(snapshot.timestamp).toISOString()} snapshot`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to restore persisted market data:', error instanceof Error ? error.message : error);
+    }
+    
+    persistence.compact(this.candleStore);
+    this.paper.compact();
+    
+    this.snapshotInterval = setInterval(() => {
+      for (const market of MARKETS) {
+        const dataMap = market === 'spot' ? this.spotData : this.futuresData;
+        persistence.saveSnapshot(market, Array.from(dataMap.values()));
+      }
+    }, persistence.policy.snapshotIntervalMs);
+    
+    this.compactionInterval = setInterval(() => {
+      persistence.compact(this.candleStore);
+      this.paper.compact();
+    }, persistence.policy.compactionIntervalMs);
+  }
+
+  // Restored events can be scored right away; after that, hourly picks up newly closed candles
+  private startForwardReturnJob() {
+    const run = () => {
+      try {
+        this.forwardReturns.run();
+      } catch (error) {
+        console.error('❌ Forward-return analytics failed:', error);
+      }
+    };
+    run();
+    this.forwardReturnInterval = setInterval(run, this.forwardReturnIntervalMs);
+  }
+
   private connectSpotTicker() {
-    console.log('🔌 Connecting to Binance Spot 24hr ticker stream...');
+    console.log(`🔌 Connecting to ${this.adapter.name} Spot 24hr ticker stream...`);
     
-    this.spotTickerWs = new WebSocket('wss://stream.binance.com:9443/ws/!ticker@arr');
+    this.spotTickerWs = new WebSocket(this.adapter.tickerStreamUrl('spot'));
     
     this.spotTickerWs.on('open', () => {
-      console.log('✅ Connected to Binance Spot ticker stream');
+      console.log(`✅ Connected to ${this.adapter.name} Spot ticker stream`);
       this.clearReconnectTimeout('spot-ticker');
     });
     
     this.spotTickerWs.on('message', (data) => {
       try {
-        const tickers: BinanceTickerData[] = JSON.parse(data.toString());
+        const tickers = this.adapter.parseTickerMessage(data.toString());
         this.processTickers(tickers, 'spot');
       } catch (error) {
         console.error('❌ Error processing spot ticker data:', error);
@@ -100,18 +230,18 @@ export class BinanceWebSocketManager {
   }
 
   private connectFuturesTicker() {
-    console.log('🔌 Connecting to Binance Futures 24hr ticker stream...');
+    console.log(`🔌 Connecting to ${this.adapter.name} Futures 24hr ticker stream...`);
     
-    this.futuresTickerWs = new WebSocket('wss://fstream.binance.com/ws/!ticker@arr');
+    this.futuresTickerWs = new WebSocket(this.adapter.tickerStreamUrl('futures'));
     
     this.futuresTickerWs.on('open', () => {
-      console.log('✅ Connected to Binance Futures ticker stream');
+      console.log(`✅ Connected to ${this.adapter.name} Futures ticker stream`);
       this.clearReconnectTimeout('futures-ticker');
     });
     
     this.futuresTickerWs.on('message', (data) => {
       try {
-        const tickers: BinanceTickerData[] = JSON.parse(data.toString());
+        const tickers = this.adapter.parseTickerMessage(data.toString());
         this.processTickers(tickers, 'futures');
       } catch (error) {
         console.error('❌ Error processing futures ticker data:', error);
@@ -131,9 +261,12 @@ export class BinanceWebSocketManager {
   private startVolumeMonitoring() {
     console.log('📊 Starting dynamic volume monitoring for top coins...');
     
-    // Check and update kline streams every 10 seconds
+    // Check and update kline streams every 10 seconds, refilling any candles the streams missed
     this.volumeCheckInterval = setInterval(() => {
       this.updateKlineStreamsBasedOnVolume();
+      for (const market of MARKETS) {
+        this.refillStaleSeries(market, Array.from(this.currentTopSymbols[market]));
+      }
     }, 10000);
     
     // Initial update after 5 seconds to let ticker data populate
@@ -143,39 +276,45 @@ export class BinanceWebSocketManager {
   }
   
   private updateKlineStreamsBasedOnVolume() {
-    // Get current top symbols by volume from both spot and futures
-    const spotSymbols = Array.from(this.spotData.values())
-      .sort((a, b) => b.volume24h - a.volume24h)
-      .slice(0, this.targetSymbolCount)
-      .map(pair => pair.symbol);
-      
-    const futuresSymbols = Array.from(this.futuresData.values())
-      .sort((a, b) => b.volume24h - a.volume24h)
-      .slice(0, this.targetSymbolCount)
-      .map(pair => pair.symbol);
-    
-    // Combine and deduplicate
-    const newTopSymbols = new Set([...spotSymbols, ...futuresSymbols]);
+    for (const market of MARKETS) {
+      this.updateKlineStreamsForMarket(market);
+    }
+  }
+  
+  private updateKlineStreamsForMarket(market: Market) {
+    // Each market streams its own top symbols: futures-only listings have no spot candles.
+    // Watchlisted and paper-held symbols are added once their ticker has shown they exist on this market.
+    const dataMap = market === 'spot' ? this.spotData : this.futuresData;
+    const newTopSymbols = new Set(
+      Array.from(dataMap.values())
+        .sort((a, b) => b.volume24h - a.volume24h)
+        .slice(0, this.trackedSymbolCount)
+        .map(pair => pair.symbol)
+    );
+    for (const symbol of this.pinnedSymbols(market)) {
+      if (dataMap.has(symbol)) newTopSymbols.add(symbol);
+    }
     
     if (newTopSymbols.size === 0) {
-      console.log('⏳ No ticker data yet, waiting...');
+      console.log(`⏳ No ${market} ticker data yet, waiting...`);
       return;
     }
     
     // Check if symbols changed
-    const symbolsChanged = !this.setsEqual(this.currentTopSymbols, newTopSymbols);
+    const symbolsChanged = !this.setsEqual(this.currentTopSymbols[market], newTopSymbols);
     
     if (symbolsChanged) {
-      console.log(`🔄 Top symbols changed! New top coins:`, Array.from(newTopSymbols).slice(0, 10));
-      
-      // Close old streams
-      this.closeOldKlineStreams();
+      const addedSymbols = Array.from(newTopSymbols).filter(symbol => !this.currentTopSymbols[market].has(symbol));
+      console.log(`🔄 Top ${market} symbols changed! Added:`, addedSymbols.slice(0, 10));
       
       // Update current symbols
-      this.currentTopSymbols = newTopSymbols;
+      this.currentTopSymbols[market] = newTopSymbols;
       
-      // Start new streams
-      this.connectKlineStreamsForSymbols(Array.from(newTopSymbols));
+      // Rebalance stream shards; symbols that stayed keep their connection
+      this.klinePools[market].setSymbols(Array.from(newTopSymbols), KLINE_INTERVALS);
+      
+      // Backfill real candle history for newly tracked symbols
+      this.refillStaleSeries(market, addedSymbols);
     }
   }
   
@@ -187,142 +326,75 @@ export class BinanceWebSocketManager {
     return true;
   }
   
-  private closeOldKlineStreams() {
-    for (const [symbol, ws] of this.klineStreamMap) {
-      ws.close();
-      console.log(`🔌 Closed kline stream for ${symbol}`);
-    }
-    this.klineStreamMap.clear();
-  }
-  
-  private connectKlineStreamsForSymbols(symbols: string[]) {
-    if (symbols.length === 0) return;
-    
-    // Limit to top 10 most important symbols to reduce connection load
-    const prioritySymbols = symbols.slice(0, 10);
-    const intervals = ['1h', '4h', '1d'];
+  // Backfill every series of these symbols that is missing candles
+  private async refillStaleSeries(market: Market, symbols: string[]) {
+    const now = Date.now();
+    const backfills: Promise<void>[] = [];
     
-    // Create one combined stream for better reliability
-    const allStreams = prioritySymbols.flatMap(symbol => 
-      intervals.map(interval => `${symbol.toLowerCase()}@kline_${interval}`)
-    );
-    
-    // Split into groups of 30 streams per connection (Binance limit)
-    const streamGroups = [];
-    for (let i = 0; i < allStreams.length; i += 30) {
-      streamGroups.push(allStreams.slice(i, i + 30));
-    }
-    
-    for (let groupIndex = 0; groupIndex < streamGroups.length; groupIndex++) {
-      const streams = streamGroups[groupIndex];
-      const streamUrl = `wss://stream.binance.com:9443/ws/${streams.join('/')}`;
-      
-      const ws = new WebSocket(streamUrl);
-      const groupKey = `group_${groupIndex}`;
-      
-      ws.on('open', () => {
-        console.log(`✅ Connected to kline streams group ${groupIndex + 1}/${streamGroups.length} (${streams.length} streams)`);
-      });
-      
-      ws.on('message', (data) => {
-        try {
-          const klineData: BinanceKlineData = JSON.parse(data.toString());
-          this.processKlineData(klineData);
-        } catch (error) {
-          console.error(`❌ Error processing kline data group ${groupIndex}:`, error);
+    for (const symbol of symbols) {
+      for (const interval of KLINE_INTERVALS) {
+        if (!this.candleStore.isStale(market, symbol, interval, now)) continue;
+        
+        const key = `${market}:${symbol}:${interval}`;
+        const inFlight = this.backfillsInFlight.get(key);
+        if (inFlight) {
+          backfills.push(inFlight);
+          continue;
         }
-      });
-      
-      ws.on('close', () => {
-        console.log(`🔌 Kline stream group ${groupIndex} disconnected`);
-        this.klineStreamMap.delete(groupKey);
         
-        // Auto-reconnect with backoff
-        setTimeout(() => {
-          console.log(`🔄 Reconnecting kline stream group ${groupIndex}...`);
-          const symbolsInGroup = streams.map(s => s.split('@')[0].toUpperCase());
-          const stillRelevant = symbolsInGroup.filter(sym => this.currentTopSymbols.has(sym));
-          
-          if (stillRelevant.length > 0) {
-            this.connectKlineStreamsForSymbols(stillRelevant);
-          }
-        }, 10000 + groupIndex * 2000); // Staggered reconnection
-      });
-      
-      ws.on('error', (error) => {
-        console.error(`❌ Kline WebSocket error group ${groupIndex}:`, error);
-        // Try to fallback to REST API for RSI calculation
-        this.fallbackRSICalculation(prioritySymbols);
-      });
-      
-      this.klineStreamMap.set(groupKey, ws);
+        // Don't hammer REST for symbols that simply have no newer candles yet
+        if (now - (this.lastBackfillAttempt.get(key) ?? 0) < this.backfillRetryDelay) continue;
+        
+        const last = this.candleStore.lastCandle(market, symbol, interval);
+        const range = last ? { startTime: last.openTime } : undefined;
+        backfills.push(this.backfillSeries(market, symbol, interval, range));
+      }
     }
     
-    console.log(`📊 Active kline connections: ${this.klineStreamMap.size} groups for ${prioritySymbols.length} symbols`);
-    
-    // Start fallback RSI calculation for symbols without WebSocket data
-    setTimeout(() => {
-      this.fallbackRSICalculation(prioritySymbols);
-    }, 30000); // After 30 seconds, calculate RSI via REST if needed
+    await Promise.all(backfills);
   }
   
-  private async fallbackRSICalculation(symbols: string[]) {
-    console.log('🔄 Starting fallback RSI calculation via REST API...');
+  private refillGap(market: Market, symbol: string, interval: string, gap: CandleGap) {
+    console.log(`🕳️ Gap in ${market} ${symbol} ${interval} candles, refilling ${new Date(gap.from).toISOString()} → ${new Date(gap.to).toISOString()}`);
     
-    for (const symbol of symbols) {
-      // Only calculate if we don't have recent RSI data
-      if (!this.klineHistory[symbol] || Object.keys(this.klineHistory[symbol]).length === 0) {
-        try {
-          await this.calculateRSIViaREST(symbol);
-        } catch (error) {
-          console.error(`❌ Fallback RSI calculation failed for ${symbol}:`, error);
-        }
-      }
-    }
+    const missing = Math.ceil((gap.to - gap.from) / intervalToMs(interval));
+    
+    // Gaps longer than one request are replaced by a fresh backfill of the latest candles
+    const range = missing < this.backfillLimit ? { startTime: gap.from, endTime: gap.to - 1 } : undefined;
+    this.backfillSeries(market, symbol, interval, range);
   }
   
-  private async calculateRSIViaREST(symbol: string) {
-    const intervals = [
-      { key: '1h', limit: 100 },
-      { key: '4h', limit: 100 },
-      { key: '1d', limit: 100 }
-    ];
-    
-    for (const interval of intervals) {
+  // Fetch closed candles from REST and merge them into the store by open time
+  private backfillSeries(market: Market, symbol: string, interval: string, range?: KlineRange): Promise<void> {
+    const key = `${market}:${symbol}:${interval}`;
+    const inFlight = this.backfillsInFlight.get(key);
+    if (inFlight) return inFlight;
+    
+    this.lastBackfillAttempt.set(key, Date.now());
+    
+    const backfill = (async () => {
       try {
-        const response = await fetch(
-          `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${interval.key}&limit=${interval.limit}`,
-          { signal: AbortSignal.timeout(10000) } // 10 second timeout
-        );
+        const candles = await this.adapter.fetchKlines(market, symbol, interval, this.backfillLimit, range);
         
-        if (response.ok) {
-          const klines = await response.json();
-          if (klines.length >= 15) {
-            const closes = klines.map((k: any) => parseFloat(k[4])); // Close price
-            const rsi = wilderRSI(closes, 14);
-            
-            if (rsi !== null && rsi >= 0 && rsi <= 100) {
-              // Store in history for immediate use
-              if (!this.klineHistory[symbol]) {
-                this.klineHistory[symbol] = {};
-              }
-              
-              this.klineHistory[symbol][interval.key] = closes.map((close: number, index: number) => ({
-                close,
-                timestamp: Date.now() - ((closes.length - 1 - index) * 3600000) // Approximate timestamps
-              }));
-              
-              console.log(`✅ Calculated ${symbol} ${interval.key} RSI via REST: ${rsi.toFixed(2)}`);
-            }
-          }
-        }
+        // The newest REST candle is still forming; live prices cover it instead
+        const now = Date.now();
+        const closed = candles.filter(candle => candle.closeTime < now);
+        this.candleStore.merge(market, symbol, interval, closed);
+        this.rsiStates.invalidate(market, symbol, interval);
+        this.indicatorEngine.invalidate(market, symbol, interval);
+        this.divergenceTracker.invalidate(market, symbol, interval);
+        this.persistence?.recordCandles(market, symbol, interval, closed);
+        
+        console.log(`✅ Backfilled ${closed.length} ${market} ${symbol} ${interval} candles via REST`);
       } catch (error) {
-        console.error(`❌ REST RSI calculation failed for ${symbol} ${interval.key}:`, error);
+        console.error(`❌ REST backfill failed for ${market} ${symbol} ${interval}:`, error instanceof Error ? error.message : error);
+      } finally {
+        this.backfillsInFlight.delete(key);
       }
-      
-      // Rate limiting - wait between requests
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+    })();
+    
+    this.backfillsInFlight.set(key, backfill);
+    return backfill;
   }
 
   private scheduleReconnect(type: string, reconnectFn: () => void) {
@@ -344,44 +416,44 @@ export class BinanceWebSocketManager {
     }
   }
 
-  private processTickers(tickers: BinanceTickerData[], market: 'spot' | 'futures') {
+  // Symbols kept live whatever their volume rank: watchlisted ones, and those with open
+  // paper positions so their marks, liquidations and rule exits don't go stale
+  private pinnedSymbols(market: Market): Set<string> {
+    return new Set([...this.watchlists.symbols(market), ...this.paper.symbols(market)]);
+  }
+
+  private processTickers(tickers: MarketTicker[], market: Market) {
     const dataMap = market === 'spot' ? this.spotData : this.futuresData;
     
-    // Filter for USDT pairs and process
-    const usdtTickers = tickers.filter(ticker => 
-      ticker.s.endsWith('USDT') && 
-      !ticker.s.includes('UP') && 
-      !ticker.s.includes('DOWN') &&
-      !ticker.s.includes('BEAR') &&
-      !ticker.s.includes('BULL')
-    );
+    // Filter to the symbols the exchange adapter considers trackable
+    const usdtTickers = tickers.filter(ticker => this.adapter.isTrackedSymbol(ticker.symbol));
 
-    // Sort by USDT volume and take top 50
+    // Sort by USDT volume and take the tracked top symbols, plus every watchlisted or paper-held one
     const sortedTickers = usdtTickers
-      .sort((a, b) => parseFloat(b.q) - parseFloat(a.q))  // Use quote volume (USDT)
-      .slice(0, 50);
+      .sort((a, b) => b.volume24h - a.volume24h)
+      .slice(0, this.trackedSymbolCount);
+    const topSymbols = new Set(sortedTickers.map(ticker => ticker.symbol));
+    const watched = this.pinnedSymbols(market);
+    const watchedTickers = tickers.filter(ticker => watched.has(ticker.symbol) && !topSymbols.has(ticker.symbol));
 
-    for (const ticker of sortedTickers) {
-      const existingPair = dataMap.get(ticker.s);
-      const currentPrice = parseFloat(ticker.c);
-      
+    for (const ticker of [...sortedTickers, ...watchedTickers]) {
       // Calculate RSI with live price for real-time updates
-      const rsiData = this.getRSIForSymbol(ticker.s, currentPrice);
+      const rsi = this.getRSIForSymbol(market, ticker.symbol, ticker.price);
       
       const tradingPair: TradingPair = {
-        symbol: ticker.s,
-        price: currentPrice,
-        volume24h: parseFloat(ticker.q),  // Use quote volume (USDT)
-        change24h: parseFloat(ticker.P),
-        high24h: parseFloat(ticker.h),
-        low24h: parseFloat(ticker.l),
-        rsi1h: rsiData.rsi1h,
-        rsi4h: rsiData.rsi4h,
-        rsi1d: rsiData.rsi1d,
-        signal: getRSISignal(rsiData.rsi1d)
+        ...ticker,
+        market,
+        rsi,
+        indicators: this.indicatorEngine.get(market, ticker.symbol, INDICATOR_TIMEFRAME),
+        divergences: this.getDivergences(market, ticker.symbol),
+        ...this.evaluateSignal(market, rsi)
       };
       
-      dataMap.set(ticker.s, tradingPair);
+      dataMap.set(ticker.symbol, tradingPair);
+      this.alerts.evaluate(tradingPair);
+      this.paper.evaluate(tradingPair);
+      const transition = this.transitions.observeSignal(tradingPair);
+      if (transition) this.recordTransition(transition);
     }
 
     // Notify subscribers
@@ -391,81 +463,70 @@ export class BinanceWebSocketManager {
     this.notifySubscribers(market, sortedPairs);
   }
 
-  private processKlineData(klineData: BinanceKlineData) {
-    const { s: symbol, k: kline } = klineData;
+  private processKlineData(market: Market, update: KlineUpdate) {
+    const { symbol, interval, candle } = update;
     
     // Only process closed klines (historical data for RSI base calculation)
     // Note: Live price from ticker stream provides real-time RSI updates
-    if (!kline.x) return;
-    
-    const interval = kline.i;
-    const closePrice = parseFloat(kline.c);
-    const timestamp = kline.T;
-    
-    // Initialize symbol history if not exists
-    if (!this.klineHistory[symbol]) {
-      this.klineHistory[symbol] = {};
-    }
-    
-    if (!this.klineHistory[symbol][interval]) {
-      this.klineHistory[symbol][interval] = [];
+    if (!update.closed) return;
+    
+    const gap = this.candleStore.upsert(market, symbol, interval, candle);
+    this.rsiStates.commit(market, symbol, interval, candle);
+    this.indicatorEngine.invalidate(market, symbol, interval);
+    this.divergenceTracker.invalidate(market, symbol, interval);
+    this.persistence?.recordCandles(market, symbol, interval, [candle]);
+    this.trackSignalTransition(market, symbol, interval, candle);
+    if (gap) {
+      this.refillGap(market, symbol, interval, gap);
     }
     
-    // Add new kline data
-    this.klineHistory[symbol][interval].push({
-      close: closePrice,
-      timestamp
-    });
-    
-    // Keep only last 100 periods for RSI calculation
-    if (this.klineHistory[symbol][interval].length > 100) {
-      this.klineHistory[symbol][interval] = this.klineHistory[symbol][interval].slice(-100);
-    }
-    
-    console.log(`📊 Updated ${symbol} ${interval} kline: ${closePrice}`);
+    console.log(`📊 Updated ${market} ${symbol} ${interval} kline: ${candle.close}`);
   }
 
-  private getRSIForSymbol(symbol: string, currentPrice?: number): { rsi1h: number | null; rsi4h: number | null; rsi1d: number | null } {
-    const result: { rsi1h: number | null; rsi4h: number | null; rsi1d: number | null } = { rsi1h: null, rsi4h: null, rsi1d: null };
-    
-    if (!this.klineHistory[symbol]) return result;
-    
-    // Calculate RSI for each interval
-    const intervals = [
-      { key: 'rsi1h' as keyof typeof result, interval: '1h' },
-      { key: 'rsi4h' as keyof typeof result, interval: '4h' },
-      { key: 'rsi1d' as keyof typeof result, interval: '1d' }
-    ];
-    
-    for (const { key, interval } of intervals) {
-      const klines = this.klineHistory[symbol][interval];
-      if (klines && klines.length >= 14) {
-        // Get historical closes
-        let closes = klines.map(k => k.close);
-        
-        // Include current live price as the current candle's close (if available)
-        if (currentPrice !== undefined) {
-          closes = [...closes, currentPrice];
-          // Debug: Log real-time RSI calculation
-          if (Math.random() < 0.01) { // Log 1% of calculations to avoid spam
-            console.log(`⚡ Real-time RSI ${symbol} ${interval}: Using live price $${currentPrice}`);
-          }
-        }
-        
-        // Calculate RSI with live price included
-        const rsi = wilderRSI(closes, 14);
-        if (rsi !== null && rsi >= 0 && rsi <= 100) {
-          if (key === 'rsi1h') result.rsi1h = rsi;
-          else if (key === 'rsi4h') result.rsi4h = rsi;
-          else if (key === 'rsi1d') result.rsi1d = rsi;
+  // Classify the closed-candle RSI and record it when it moved to another band
+  private trackSignalTransition(market: Market, symbol: string, interval: string, candle: Candle) {
+    const rsi = this.rsiStates.get(market, symbol, interval)?.value() ?? null;
+    if (rsi === null) return;
+
+    const signal = getRSISignal(rsi, resolveRSIConfig(this.rsiSettings, market, interval).bands);
+    const volume24h = (market === 'spot' ? this.spotData : this.futuresData).get(symbol)?.volume24h;
+    const transition = this.transitions.observeZone(market, symbol, interval, candle, rsi, signal, volume24h);
+    if (transition) this.recordTransition(transition);
+  }
+
+  private recordTransition(transition: SignalTransition) {
+    this.transitionLog.add(transition);
+    this.persistence?.recordTransition(transition);
+    this.notifications.dispatch(transitionEvent(transition));
+  }
+
+  private getRSIForSymbol(market: Market, symbol: string, currentPrice?: number): RSIByTimeframe {
+    const result = emptyRSI();
+    
+    // Calculate RSI for each configured interval
+    for (const interval of KLINE_INTERVALS) {
+      // Seeded from the gap-free tail of the series, so RSI never spans missing candles
+      const rsi = this.rsiStates.get(market, symbol, interval);
+      if (!rsi) continue;
+      
+      // Use the live price as the forming candle's close, but only when the last
+      // stored candle is the one right before it (otherwise a refill is pending)
+      const isCurrent = !this.candleStore.isStale(market, symbol, interval);
+      if (currentPrice !== undefined && isCurrent) {
+        result[interval] = rsi.preview(currentPrice);
+        // Debug: Log real-time RSI calculation
+        if (Math.random() < 0.01) { // Log 1% of calculations to avoid spam
+          console.log(`⚡ Real-time RSI ${market} ${symbol} ${interval}: Using live price $${currentPrice}`);
         }
+      } else {
+        result[interval] = rsi.value();
       }
     }
     
     return result;
   }
 
-  public subscribe(callback: (type: 'spot' | 'futures', data: TradingPair[]) => void) {
+  public subscribe(callback: (type: Market, data: TradingPair[]) => void) {
     this.subscribers.add(callback);
     
     // Send current data immediately
@@ -482,11 +543,11 @@ export class BinanceWebSocketManager {
     }
   }
 
-  public unsubscribe(callback: (type: 'spot' | 'futures', data: TradingPair[]) => void) {
+  public unsubscribe(callback: (type: Market, data: TradingPair[]) => void) {
     this.subscribers.delete(callback);
   }
 
-  private notifySubscribers(type: 'spot' | 'futures', data: TradingPair[]) {
+  private notifySubscribers(type: Market, data: TradingPair[]) {
     for (const callback of this.subscribers) {
       try {
         callback(type, data);
@@ -506,7 +567,7 @@ export class BinanceWebSocketManager {
       .slice(0, limit);
     
     // Calculate RSI for coins that don't have it yet
-    await this.ensureRSIForCoins(sortedData);
+    await this.ensureRSIForCoins('spot', sortedData);
     
     return sortedData;
   }
@@ -521,53 +582,207 @@ export class BinanceWebSocketManager {
       .slice(0, limit);
     
     // Calculate RSI for coins that don't have it yet
-    await this.ensureRSIForCoins(sortedData);
+    await this.ensureRSIForCoins('futures', sortedData);
     
     return sortedData;
   }
 
-  private async ensureRSIForCoins(coins: TradingPair[]) {
+  // A watchlist's rows in list order, with missing RSI filled in like the market tables
+  public async getWatchlistView(id: string): Promise<WatchlistView | null> {
+    if (!this.initialized) {
+      this.initialize();
+    }
+    
+    const watchlist = this.watchlists.get(id);
+    if (!watchlist) return null;
+    
+    const pairs: TradingPair[] = [];
+    const pending: WatchlistEntry[] = [];
+    for (const entry of watchlist.entries) {
+      const pair = (entry.market === 'spot' ? this.spotData : this.futuresData).get(entry.symbol);
+      if (pair) pairs.push(pair);
+      else pending.push(entry);
+    }
+    
+    await Promise.all(MARKETS.map(market =>
+      this.ensureRSIForCoins(market, pairs.filter(pair => pair.market === market))
+    ));
+    
+    return { watchlist, pairs, pending };
+  }
+
+  // Stored candles, RSI over time and indicators for one tracked pair on one kline
+  // interval; null when the pair isn't tracked. Stale series are backfilled first.
+  public async getSymbolDetail(market: Market, symbol: string, interval: string, limit?: number): Promise<SymbolDetail | null> {
+    if (!this.initialized) {
+      this.initialize();
+    }
+    
+    const dataMap = market === 'spot' ? this.spotData : this.futuresData;
+    const pair = dataMap.get(symbol);
+    if (!pair) return null;
+    
+    await this.refillStaleSeries(market, [symbol]);
+    
+    const rsiPeriod = resolveRSIConfig(this.rsiSettings, market, interval).period;
+    const candles = this.candleStore.getCandles(market, symbol, interval);
+    // RSI needs the older candles to warm up, so it is computed before trimming to `limit`
+    const series = rsiSeries(candles, interval, rsiPeriod);
+    const start = limit ? Math.max(0, candles.length - limit) : 0;
+    
+    return {
+      symbol,
+      market,
+      interval,
+      pair,
+      candles: candles.slice(start),
+      rsiPeriod,
+      rsiSeries: series.slice(start),
+      indicators: this.indicatorEngine.get(market, symbol, interval),
+      divergences: this.divergenceTracker.get(market, symbol, interval)
+    };
+  }
+
+  // Replay a rule over the candles stored on disk and in memory (or the ones sent
+  // with the request). Nothing is fetched, so untracked symbols come back as missing.
+  public runBacktest(request: BacktestRequest): BacktestReport {
+    if (!this.initialized) {
+      this.initialize();
+    }
+    
+    return runBacktest(request, this.rsiSettings, (symbol, interval) =>
+      this.candleStore.getCandles(request.market, symbol, interval)
+    );
+  }
+
+  // Forward returns from the job's last run; `refresh` runs it first to score the latest candles
+  public getForwardReturnReport(query: ForwardReturnQuery, refresh: boolean = false): ForwardReturnReport {
+    if (!this.initialized) {
+      this.initialize();
+    }
+    
+    if (refresh) this.forwardReturns.run();
+    return this.forwardReturns.report(query);
+  }
+
+  // The paper portfolio marked to the latest ticker prices
+  public getPaperPortfolio(): PaperPortfolioView {
+    if (!this.initialized) {
+      this.initialize();
+    }
+    
+    return this.paper.view();
+  }
+
+  // Fills at the pair's current ticker price, so the pair must be tracked on its market
+  public openPaperPosition(order: PaperOrderInput) {
+    if (!this.initialized) {
+      this.initialize();
+    }
+    
+    return this.paper.open(order);
+  }
+
+  // null when there is no open position with that id
+  public closePaperPosition(id: string) {
+    if (!this.initialized) {
+      this.initialize();
+    }
+    
+    return this.paper.close(id);
+  }
+
+  private async ensureRSIForCoins(market: Market, coins: TradingPair[]) {
     const coinsNeedingRSI = coins.filter(coin => 
-      coin.rsi1h === null || coin.rsi4h === null || coin.rsi1d === null
+      KLINE_INTERVALS.some(interval => coin.rsi[interval] === null)
     );
     
     if (coinsNeedingRSI.length === 0) return;
     
-    console.log(`🔄 Calculating missing RSI for ${coinsNeedingRSI.length} coins...`);
+    console.log(`🔄 Calculating missing ${market} RSI for ${coinsNeedingRSI.length} coins...`);
     
     // Calculate RSI for coins that need it
     const promises = coinsNeedingRSI.map(async (coin) => {
       try {
-        await this.calculateRSIViaREST(coin.symbol);
+        await this.refillStaleSeries(market, [coin.symbol]);
         // Update the coin object with new RSI data including current live price
-        const rsiData = this.getRSIForSymbol(coin.symbol, coin.price);
-        coin.rsi1h = rsiData.rsi1h;
-        coin.rsi4h = rsiData.rsi4h;
-        coin.rsi1d = rsiData.rsi1d;
-        coin.signal = getRSISignal(rsiData.rsi1d); // Use 1d RSI for signal
+        coin.rsi = this.getRSIForSymbol(market, coin.symbol, coin.price);
+        coin.indicators = this.indicatorEngine.get(market, coin.symbol, INDICATOR_TIMEFRAME);
+        coin.divergences = this.getDivergences(market, coin.symbol);
+        Object.assign(coin, this.evaluateSignal(market, coin.rsi));
       } catch (error) {
-        console.error(`❌ Failed to calculate RSI for ${coin.symbol}:`, error);
+        console.error(`❌ Failed to calculate ${market} RSI for ${coin.symbol}:`, error);
       }
     });
     
     await Promise.all(promises);
   }
 
+  // Divergences on every tracked timeframe, from closed candles only
+  private getDivergences(market: Market, symbol: string): Divergence[] {
+    return KLINE_INTERVALS.flatMap(interval => this.divergenceTracker.get(market, symbol, interval));
+  }
+
+  // Classify each timeframe's RSI with the bands configured for it
+  private evaluateSignal(market: Market, rsi: RSIByTimeframe) {
+    return evaluateSignal(rsi, timeframe => resolveRSIConfig(this.rsiSettings, market, timeframe).bands);
+  }
+
+  private loadRSISettings(): RSISettings {
+    const stored = readJsonFile<RSISettings>(RSI_SETTINGS_FILE, DEFAULT_RSI_SETTINGS);
+    const problems = validateRSISettings(stored);
+    if (problems.length > 0) {
+      console.warn(`⚠️ Ignoring invalid ${RSI_SETTINGS_FILE}: ${problems.join('; ')}`);
+      return DEFAULT_RSI_SETTINGS;
+    }
+    return normalizeRSISettings(stored);
+  }
+
+  // How TradingView prefixes this venue's symbols, e.g. "BINANCE:BTCUSDT"
+  public getTradingViewPrefix(): string {
+    return this.adapter.id.toUpperCase();
+  }
+
+  public getRSISettings(): RSISettings {
+    return this.rsiSettings;
+  }
+
+  // Apply new RSI settings (already validated) to every pair and persist them
+  public async updateRSISettings(settings: RSISettings) {
+    this.rsiSettings = normalizeRSISettings(settings);
+    await writeJsonFile(RSI_SETTINGS_FILE, this.rsiSettings);
+    
+    // RSI states rebuild with the new period on their next read
+    for (const market of MARKETS) {
+      const dataMap = market === 'spot' ? this.spotData : this.futuresData;
+      for (const pair of dataMap.values()) {
+        pair.rsi = this.getRSIForSymbol(market, pair.symbol, pair.price);
+        pair.divergences = this.getDivergences(market, pair.symbol);
+        Object.assign(pair, this.evaluateSignal(market, pair.rsi));
+      }
+      this.notifySubscribers(market, Array.from(dataMap.values()).sort((a, b) => b.volume24h - a.volume24h));
+    }
+    
+    console.log('⚙️ RSI settings updated');
+    return this.rsiSettings;
+  }
+
   public getConnectionStatus() {
     if (!this.initialized) {
       this.initialize();
     }
     
-    const klineConnections = Array.from(this.klineStreamMap.values())
-      .filter(ws => ws.readyState === WebSocket.OPEN).length;
+    const spotKlines = this.klinePools.spot.getStatus();
+    const futuresKlines = this.klinePools.futures.getStatus();
     
     return {
       spot: this.spotTickerWs?.readyState === WebSocket.OPEN,
       futures: this.futuresTickerWs?.readyState === WebSocket.OPEN,
       klines: {
-        connected: klineConnections,
-        total: this.klineStreamMap.size,
-        symbols: Array.from(this.currentTopSymbols).slice(0, 10)
+        connected: spotKlines.connected + futuresKlines.connected,
+        total: spotKlines.connections + futuresKlines.connections,
+        spot: { ...spotKlines, symbols: spotKlines.symbols.length },
+        futures: { ...futuresKlines, symbols: futuresKlines.symbols.length }
       },
       initialized: this.initialized
     };
@@ -588,16 +803,41 @@ export class BinanceWebSocketManager {
       this.volumeCheckInterval = null;
     }
     
+    // Stop persisting and write out whatever is still buffered
+    if (this.snapshotInterval) {
+      clearInterval(this.snapshotInterval);
+      this.snapshotInterval = null;
+    }
+    if (this.compactionInterval) {
+      clearInterval(this.compactionInterval);
+      this.compactionInterval = null;
+    }
+    if (this.forwardReturnInterval) {
+      clearInterval(this.forwardReturnInterval);
+      this.forwardReturnInterval = null;
+    }
+    this.persistence?.flush();
+    this.notifications.flush();
+    this.paper.flush();
+    
     // Close connections
     this.spotTickerWs?.close();
     this.futuresTickerWs?.close();
-    this.closeOldKlineStreams();
+    this.klinePools.spot.close();
+    this.klinePools.futures.close();
     
     // Clear data
     this.spotData.clear();
     this.futuresData.clear();
-    this.klineHistory = {};
-    this.currentTopSymbols.clear();
+    this.candleStore.clear();
+    this.rsiStates.clear();
+    this.indicatorEngine.clear();
+    this.divergenceTracker.clear();
+    this.transitions.clear();
+    this.forwardReturns.clear();
+    this.backfillsInFlight.clear();
+    this.lastBackfillAttempt.clear();
+    this.currentTopSymbols = { spot: new Set(), futures: new Set() };
     this.subscribers.clear();
     this.initialized = false;
   }
@@ -0,0 +1,61 @@
+// Server-side alert rules and the alerts they raise
+
+import { Market, TradingSignal } from './trading';
+
+// above/below fire whenever the value is past the threshold (once per excursion);
+// crosses_* also need the value to have been on the other side first
+export type AlertOperator = 'crosses_above' | 'crosses_below' | 'above' | 'below';
+
+export interface ThresholdCondition {
+  kind: 'threshold';
+  field: string; // A numeric screener field: 'price', 'volume24h', 'confluenceScore', 'rsi1h', an indicator output key, ...
+  operator: AlertOperator;
+  value: number;
+}
+
+// Fires when the pair's signal changes to `signal`
+export interface SignalCondition {
+  kind: 'signal';
+  signal: TradingSignal;
+}
+
+export type AlertCondition = ThresholdCondition | SignalCondition;
+
+// Empty or missing lists mean every market / every symbol
+export interface AlertScope {
+  markets?: Market[];
+  symbols?: string[];
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  scope: AlertScope;
+  condition: AlertCondition;
+  cooldownMs: number; // Minimum time between two alerts for the same symbol
+  hysteresis: number; // How far back past the threshold the value must go before the rule re-arms
+  createdAt: number;
+}
+
+// Body of POST /api/alerts and PUT /api/alerts/[id]; `when` is shorthand for `condition`
+export interface AlertRuleInput {
+  name?: string;
+  enabled?: boolean;
+  scope?: AlertScope;
+  condition?: AlertCondition;
+  when?: string; // e.g. "rsi1h crosses below 30", "signal becomes STRONG_SELL", "price above 65000"
+  cooldownMs?: number;
+  hysteresis?: number;
+}
+
+export interface AlertTrigger {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  market: Market;
+  symbol: string;
+  message: string; // e.g. "BTCUSDT rsi1h crossed below 30 (29.41)"
+  value: number | string;
+  timestamp: number;
+}
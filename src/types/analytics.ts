@@ -0,0 +1,42 @@
+// How prices moved after historical signal transitions, e.g. "what did STRONG_BUY on 4h do over the next day?"
+
+import { Market, TradingSignal, TransitionKind } from './trading';
+
+export type ForwardReturnDimension = 'signal' | 'timeframe' | 'market' | 'volume';
+
+// One transition joined with the candles that followed it
+export interface ForwardOutcome {
+  eventId: string;
+  kind: TransitionKind;
+  market: Market;
+  symbol: string;
+  signal: TradingSignal;       // The signal the transition moved to
+  timeframe: string;           // RSI timeframe of an rsi_zone event, 'pair' for the overall signal
+  volumeBucket: string;        // See VOLUME_BUCKETS; 'unknown' for events recorded without volume
+  timestamp: number;
+  price: number;
+  returns: Record<string, number | null>; // % move per horizon; null until it has passed or without candles
+}
+
+export interface HorizonStats {
+  samples: number;               // Events with a return for this horizon
+  pending: number;               // Events too recent for it
+  hitRate: number | null;        // % of BUY-side samples that rose and SELL-side samples that fell; null for NEUTRAL only
+  medianReturnPct: number | null;
+  meanReturnPct: number | null;
+}
+
+export interface ForwardReturnGroup {
+  key: Partial<Record<ForwardReturnDimension, string>>;
+  events: number;
+  horizons: Record<string, HorizonStats>;
+}
+
+// Response of GET /api/analytics/forward-returns
+export interface ForwardReturnReport {
+  generatedAt: number | null;  // Last run of the analytics job; null before the first
+  horizons: string[];
+  groupBy: ForwardReturnDimension[];
+  events: number;
+  groups: ForwardReturnGroup[];
+}
@@ -0,0 +1,78 @@
+// Replays of an entry/exit rule over stored candles, e.g. "would the signal policy have made money?"
+
+import { Candle } from './exchange';
+import { Market } from './trading';
+
+// 'policy': enter on the signal policy's BUY/STRONG_BUY (SELL/STRONG_SELL when short)
+// and exit on the opposite signal. 'custom': screener expressions over the replayed
+// pair, e.g. entry "rsi1h<30 AND rsi4h<45", exit "rsi1h>55".
+export type BacktestRule =
+  | { kind: 'policy' }
+  | { kind: 'custom'; entry: string; exit: string };
+
+export type BacktestDirection = 'long' | 'short';
+
+// Body of POST /api/backtest
+export interface BacktestRequest {
+  market: Market;
+  symbols: string[];
+  interval: string;              // Timeframe the rule is checked on, once per closed candle
+  rule: BacktestRule;
+  direction: BacktestDirection;
+  feeBps: number;                // Per side, on the filled notional (10 = 0.1%)
+  slippageBps: number;           // Fills are this much worse than the candle's open
+  initialCapital: number;
+  from: number | null;           // Epoch ms; candles opening before it are only used for warm-up
+  to: number | null;             // Epoch ms; candles opening after it are ignored
+  candles?: Record<string, Candle[]>; // Imported candles on `interval` per symbol, used instead of the stored ones
+}
+
+export type BacktestExitReason = 'signal' | 'end_of_data';
+
+export interface BacktestTrade {
+  side: BacktestDirection;
+  entryTime: number;   // Open time of the fill candle, epoch ms
+  entryPrice: number;  // After slippage
+  exitTime: number;
+  exitPrice: number;
+  fees: number;        // Both sides
+  pnl: number;         // Net of fees
+  returnPct: number;   // pnl as % of the equity committed at entry
+  bars: number;        // Candles held
+  exitReason: BacktestExitReason;
+}
+
+export interface EquityPoint {
+  time: number;   // Candle close time, epoch ms
+  equity: number; // Marked to the candle's close
+}
+
+export interface BacktestStats {
+  trades: number;
+  winRate: number | null;      // % of trades with pnl > 0; null without trades
+  profitFactor: number | null; // Gross profit / gross loss; null without losing trades
+  totalReturnPct: number;
+  maxDrawdownPct: number;      // Largest peak-to-trough drop of the equity curve
+  averageTradePct: number | null;
+  exposurePct: number;         // % of candles spent in a position
+}
+
+export interface BacktestSymbolResult {
+  symbol: string;
+  candles: number;               // Candles replayed within [from, to]
+  firstTime: number | null;
+  lastTime: number | null;
+  buyAndHoldReturnPct: number | null;
+  stats: BacktestStats;
+  trades: BacktestTrade[];
+  equity: EquityPoint[];
+}
+
+// Response of POST /api/backtest
+export interface BacktestReport {
+  request: Omit<BacktestRequest, 'candles'>;
+  source: 'stored' | 'imported';
+  summary: BacktestStats;        // Every symbol's trades together; return and exposure averaged, drawdown the worst
+  results: BacktestSymbolResult[];
+  missing: string[];             // Symbols without candles on `interval`
+}
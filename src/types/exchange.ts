@@ -0,0 +1,74 @@
+// Exchange-agnostic types shared by every venue adapter
+
+import { Market, MarketTicker } from './trading';
+
+export interface Candle {
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface KlineUpdate {
+  symbol: string;
+  interval: string;
+  candle: Candle;
+  closed: boolean; // true once the exchange has finalized this candle
+}
+
+// Optional open-time bounds for a REST kline request (inclusive, epoch ms)
+export interface KlineRange {
+  startTime?: number;
+  endTime?: number;
+}
+
+export type SubscriptionAction = 'subscribe' | 'unsubscribe';
+
+export interface SubscriptionAck {
+  id: number;
+  error: string | null;
+}
+
+export interface SymbolInfo {
+  symbol: string;
+  market: Market;
+  baseAsset: string;
+  quoteAsset: string;
+  trading: boolean;
+}
+
+// Per-connection limits published by the venue for its stream endpoints
+export interface StreamLimits {
+  maxStreamsPerConnection: number;
+  maxMessagesPerSecond: number; // client -> server frames (subscribe, ping, ...)
+  maxConnectionsPerWindow: number;
+  connectionWindowMs: number;
+}
+
+export interface ExchangeAdapter {
+  readonly id: string;
+  readonly name: string;
+
+  // Symbol metadata and the venue's rules for which symbols the dashboard tracks
+  isTrackedSymbol(symbol: string): boolean;
+  fetchSymbols(market: Market): Promise<SymbolInfo[]>;
+
+  // 24h ticker stream (all symbols) plus a REST snapshot of the same data
+  tickerStreamUrl(market: Market): string;
+  parseTickerMessage(raw: string): MarketTicker[];
+  fetchTickers(market: Market): Promise<MarketTicker[]>;
+
+  // Kline streams and REST backfill
+  streamLimits(market: Market): StreamLimits;
+  klineStreamName(symbol: string, interval: string): string;
+  klineStreamUrl(market: Market, streams: string[]): string;
+  parseKlineMessage(raw: string): KlineUpdate | null;
+
+  // Live subscription changes on an open kline connection
+  subscriptionMessage(action: SubscriptionAction, streams: string[], id: number): string;
+  parseSubscriptionAck(raw: string): SubscriptionAck | null;
+  fetchKlines(market: Market, symbol: string, interval: string, limit: number, range?: KlineRange): Promise<Candle[]>;
+}
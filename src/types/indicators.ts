@@ -0,0 +1,24 @@
+// Technical indicator types shared by the indicator engine and the table
+
+import { Candle } from './exchange';
+
+// Indicator outputs keyed by output key ('macd', 'bbPercentB', ...); null until enough candles exist
+export type IndicatorValues = Record<string, number | null>;
+
+// How an output is displayed: price levels use price formatting, the rest a fixed precision
+export type IndicatorFormat = 'price' | 'percent' | 'number';
+
+export interface IndicatorOutput {
+  key: string;     // Unique across all indicators; doubles as the table column id
+  label: string;
+  format: IndicatorFormat;
+}
+
+export interface Indicator {
+  readonly id: string;
+  readonly name: string;
+  readonly outputs: IndicatorOutput[];
+
+  // Values for the newest candle of a gap-free, oldest-first series of closed candles
+  compute(candles: Candle[]): IndicatorValues;
+}
@@ -0,0 +1,60 @@
+// Outbound webhook notifications
+
+import { Market, SignalTransition, TransitionKind } from './trading';
+import { AlertTrigger } from './alerts';
+
+export type NotificationEventType = 'signal_transition' | 'alert' | 'test';
+
+// Body shapes: 'json' posts the event itself, the others match what each chat tool's incoming webhook expects
+export type WebhookPreset = 'json' | 'slack' | 'discord' | 'telegram';
+
+export interface NotificationEvent {
+  id: string;
+  type: NotificationEventType;
+  timestamp: number;
+  market: Market | null;
+  symbol: string | null;
+  title: string; // e.g. "BTCUSDT 4h: BUY → STRONG_BUY"
+  text: string;
+  data: SignalTransition | AlertTrigger | null;
+}
+
+export interface WebhookTarget {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  events: NotificationEventType[]; // Event types this target receives
+  kinds?: TransitionKind[];        // Transition kinds received; chat presets default to 'signal' only
+  timeframes?: string[];           // RSI zone transitions only on these timeframes
+  symbols?: string[];              // Transitions and alerts only for these symbols
+  preset: WebhookPreset;
+  // JSON body whose strings may use {{placeholders}} (see notifications.ts); replaces the preset's body
+  template?: unknown;
+  params?: Record<string, string>; // Extra placeholder values, e.g. { chat_id } for Telegram
+  headers?: Record<string, string>;
+  secret?: string; // Signs each body with HMAC-SHA256 when set
+  maxAttempts?: number;
+}
+
+// What GET /api/notifications shows for a target: the secret stays on the server
+export type WebhookTargetView = Omit<WebhookTarget, 'secret'> & { hasSecret: boolean };
+
+export interface DeliveryResult {
+  targetId: string;
+  ok: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+// A notification that ran out of attempts or was rejected outright
+export interface DeadLetter {
+  event: NotificationEvent;
+  targetId: string;
+  targetName: string;
+  attempts: number;
+  status?: number;
+  error: string;
+  failedAt: number;
+}
@@ -0,0 +1,99 @@
+// Simulated portfolio traded by hand or by rules, marked to the live ticker prices
+
+import { Market } from './trading';
+import { EquityPoint } from './backtest';
+
+export type PaperSide = 'long' | 'short'; // Spot positions are long only
+
+export interface PaperPosition {
+  id: string;
+  market: Market;
+  symbol: string;
+  side: PaperSide;
+  quantity: number;
+  entryPrice: number;
+  leverage: number;                // Always 1 on spot
+  margin: number;                  // Balance set aside for the position (the whole notional on spot)
+  entryFee: number;
+  liquidationPrice: number | null; // Isolated-margin liquidation price; null when it can't be reached
+  ruleId: string | null;           // null for positions opened by hand
+  openedAt: number;
+}
+
+// A position with its current mark; mark fields are null until the pair has a price
+export interface PaperPositionView extends PaperPosition {
+  markPrice: number | null;
+  unrealizedPnl: number | null;
+  roePct: number | null;           // Unrealized P&L as % of margin
+}
+
+export type PaperTradeAction = 'open' | 'close' | 'liquidation';
+
+export interface PaperTrade {
+  id: string;
+  positionId: string;
+  action: PaperTradeAction;
+  market: Market;
+  symbol: string;
+  side: PaperSide;
+  quantity: number;
+  price: number;
+  leverage: number;
+  fee: number;
+  realizedPnl: number | null;      // Net of both fees; null for opens
+  ruleId: string | null;
+  timestamp: number;
+}
+
+// Opens `entry` transitions from false to true for a pair in scope, closes the
+// rule's position on that pair whenever `exit` matches. Both are screener expressions.
+export interface PaperRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  market: Market;
+  symbols: string[];               // Empty for every tracked pair of the market
+  side: PaperSide;
+  leverage: number;
+  margin: number;                  // Balance committed per position
+  maxPositions: number;            // Open positions this rule may hold at once
+  entry: string;                   // e.g. "signal=STRONG_BUY AND rsi4h<35"
+  exit: string;                    // e.g. "rsi1h>60 OR signal=SELL"
+  createdAt: number;
+}
+
+// Body of POST /api/paper/rules and PATCH /api/paper/rules/[id]
+export type PaperRuleInput = Partial<Omit<PaperRule, 'id' | 'createdAt'>>;
+
+// Body of POST /api/paper/positions
+export interface PaperOrderInput {
+  market: Market;
+  symbol: string;
+  side: PaperSide;
+  margin: number;
+  leverage?: number;               // Futures only, default 1
+}
+
+export interface PaperAccount {
+  initialBalance: number;
+  balance: number;                 // Free balance, not committed to positions
+  realizedPnl: number;
+  feesPaid: number;
+  createdAt: number;               // When the portfolio was last reset
+}
+
+// Response of GET /api/paper
+export interface PaperPortfolioView {
+  account: PaperAccount;
+  equity: number;                  // Balance plus every position's margin and unrealized P&L
+  unrealizedPnl: number;
+  marginInUse: number;
+  positions: PaperPositionView[];
+  rules: PaperRule[];
+}
+
+// Response of GET /api/paper/history
+export interface PaperHistory {
+  trades: PaperTrade[];            // Newest first
+  equity: EquityPoint[];           // Oldest first
+}
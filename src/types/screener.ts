@@ -0,0 +1,41 @@
+// Screener filter expressions, e.g. "market=futures AND rsi4h<30 AND volume24h>50e6"
+
+import { TradingPair } from './trading';
+
+export type ScreenerOperator = '<' | '<=' | '>' | '>=' | '=' | '!=';
+
+// Numeric fields take a number; market, symbol and signal take a word or quoted string
+export interface ScreenerComparison {
+  kind: 'comparison';
+  field: string;
+  operator: ScreenerOperator;
+  value: number | string;
+}
+
+export interface ScreenerLogical {
+  kind: 'and' | 'or';
+  operands: ScreenerExpression[];
+}
+
+export interface ScreenerNot {
+  kind: 'not';
+  operand: ScreenerExpression;
+}
+
+export type ScreenerExpression = ScreenerComparison | ScreenerLogical | ScreenerNot;
+
+export interface ScreenerSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface ScreenerQuery {
+  filter: ScreenerExpression | null; // null matches every pair
+  sort: ScreenerSort;
+  limit: number;
+}
+
+export interface ScreenerResult {
+  total: number;        // Pairs matching the filter, before `limit`
+  pairs: TradingPair[];
+}
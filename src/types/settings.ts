@@ -0,0 +1,36 @@
+// User-editable settings shared by the server and the dashboard
+
+import { Market } from './trading';
+
+// RSI levels; a reading at or beyond a level counts as inside that band
+export interface RSIBands {
+  strongOversold: number;
+  oversold: number;
+  overbought: number;
+  strongOverbought: number;
+}
+
+// Values left out inherit from the next broader scope
+export interface RSIOverrides {
+  period?: number;
+  bands?: Partial<RSIBands>;
+}
+
+export interface RSIMarketOverrides extends RSIOverrides {
+  timeframes?: Record<string, RSIOverrides>;
+}
+
+// Defaults, then per-timeframe overrides, then per-market overrides (which may
+// themselves override single timeframes)
+export interface RSISettings {
+  period: number;
+  bands: RSIBands;
+  timeframes: Record<string, RSIOverrides>;
+  markets: Partial<Record<Market, RSIMarketOverrides>>;
+}
+
+// Effective RSI configuration for one market and timeframe
+export interface RSIConfig {
+  period: number;
+  bands: RSIBands;
+}
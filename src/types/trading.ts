@@ -1,5 +1,10 @@
 // Trading data types for the RSI dashboard
 
+import { IndicatorValues } from './indicators';
+import { Candle } from './exchange';
+
+export type Market = 'spot' | 'futures';
+
 export interface MarketTicker {
   symbol: string;
   price: number;
@@ -9,66 +14,93 @@ export interface MarketTicker {
   low24h: number;
 }
 
+// RSI keyed by timeframe ('15m', '1h', '1w', ...); null until enough candles exist
+export type RSIByTimeframe = Record<string, number | null>;
+
 export interface RSIData {
   symbol: string;
-  market: 'spot' | 'futures';
-  rsi1h: number | null;
-  rsi4h: number | null;
-  rsi1d: number | null;
+  market: Market;
+  rsi: RSIByTimeframe;
+}
+
+export type TradingSignal = 'STRONG_BUY' | 'BUY' | 'NEUTRAL' | 'SELL' | 'STRONG_SELL';
+
+// How the configured timeframes' RSI combine into `signal`
+export interface SignalConfluence {
+  score: number;       // -100 (every timeframe deeply overbought) .. 100 (every timeframe deeply oversold)
+  strength: number;    // % of the timeframe weight agreeing with the signal's direction
+  explanation: string; // e.g. "Oversold on 4h, 1d; neutral on 1h"
 }
 
-export interface TradingPair {
+export type DivergenceKind = 'regular_bullish' | 'hidden_bullish' | 'regular_bearish' | 'hidden_bearish';
+
+// A swing pivot (close and RSI at that candle)
+export interface DivergencePivot {
+  time: number; // Candle open time, epoch ms
+  price: number;
+  rsi: number;  // RSI at the paired RSI pivot (see detectDivergences)
+}
+
+// Price and RSI disagreeing between the two most recent pivots of one timeframe
+export interface Divergence {
+  timeframe: string;
+  kind: DivergenceKind;
+  pivots: [DivergencePivot, DivergencePivot]; // Older first
+}
+
+// 'signal': the pair's overall signal; 'rsi_zone': one timeframe's RSI band on a closed candle
+export type TransitionKind = 'signal' | 'rsi_zone';
+
+export interface SignalTransition {
+  id: string;
+  kind: TransitionKind;
+  market: Market;
   symbol: string;
+  timeframe: string | null; // null for 'signal'
+  from: TradingSignal;
+  to: TradingSignal;
+  value: number;      // RSI for 'rsi_zone', confluence score for 'signal'
   price: number;
-  volume24h: number;
-  change24h: number;
-  high24h: number;
-  low24h: number;
-  rsi1h: number | null;
-  rsi4h: number | null;
-  rsi1d: number | null;
-  signal: 'STRONG_BUY' | 'BUY' | 'NEUTRAL' | 'SELL' | 'STRONG_SELL';
+  timestamp: number;  // Epoch ms; the candle's close time for 'rsi_zone'
+  volume24h?: number; // Pair's 24h quote volume at the time; missing on older events
+}
+
+export interface TradingPair extends MarketTicker {
+  market: Market;
+  rsi: RSIByTimeframe;
+  indicators: IndicatorValues; // Outputs of the enabled indicators on the indicator timeframe
+  signal: TradingSignal;
+  confluence: SignalConfluence;
+  divergences: Divergence[];
 }
 
-export interface WebSocketMessage {
-  type: 'market_update' | 'rsi_update' | 'connection_status';
-  data: TradingPair[] | { connected: boolean };
-  timestamp: string;
+// RSI as of one candle's close
+export interface RSIPoint {
+  time: number; // Candle open time, epoch ms
+  rsi: number | null;
 }
 
-export interface BinanceTickerData {
+// GET /api/symbol/[symbol]: one pair's stored history on one timeframe
+export interface SymbolDetail {
   symbol: string;
-  priceChange: string;
-  priceChangePercent: string;
-  weightedAvgPrice: string;
-  prevClosePrice: string;
-  lastPrice: string;
-  lastQty: string;
-  bidPrice: string;
-  askPrice: string;
-  openPrice: string;
-  highPrice: string;
-  lowPrice: string;
-  volume: string;
-  quoteVolume: string;
-  openTime: number;
-  closeTime: number;
-  firstId: number;
-  lastId: number;
-  count: number;
+  market: Market;
+  interval: string;
+  pair: TradingPair;          // Live row: 24h stats, RSI on every timeframe, signal
+  candles: Candle[];          // Closed candles, oldest first
+  rsiPeriod: number;
+  rsiSeries: RSIPoint[];      // One point per candle
+  indicators: IndicatorValues; // Current values on `interval`
+  divergences: Divergence[];  // On `interval`
+}
+
+// Pairs that changed since the previous message on a market stream
+export interface MarketDelta {
+  updated: TradingPair[]; // New or changed pairs
+  removed: string[];      // Symbols that left the streamed set
 }
 
-export type BinanceKlineResponse = [
-  number, // openTime
-  string, // open
-  string, // high
-  string, // low
-  string, // close
-  string, // volume
-  number, // closeTime
-  string, // quoteAssetVolume
-  number, // numberOfTrades
-  string, // takerBuyBaseAssetVolume
-  string, // takerBuyQuoteAssetVolume
-  string  // ignore
-]; 
\ No newline at end of file
+// Messages pushed by /api/stream: a full snapshot on connect, then deltas
+export type WebSocketMessage =
+  | { type: 'snapshot'; market: Market; data: TradingPair[]; timestamp: string }
+  | { type: 'market_update'; market: Market; data: MarketDelta; timestamp: string }
+  | { type: 'connection_status'; market: Market; data: { connected: boolean }; timestamp: string };
@@ -0,0 +1,44 @@
+// Named symbol lists that stay tracked whatever their volume rank
+
+import { Market, TradingPair } from './trading';
+
+export interface WatchlistEntry {
+  market: Market;
+  symbol: string;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  entries: WatchlistEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Body of POST /api/watchlists and PATCH /api/watchlists/[id]
+export interface WatchlistInput {
+  name?: string;
+  entries?: WatchlistEntry[];
+}
+
+// A watchlist with the live rows of its symbols
+export interface WatchlistView {
+  watchlist: Watchlist;
+  pairs: TradingPair[];
+  pending: WatchlistEntry[]; // No ticker received for these yet (or unknown to the exchange)
+}
+
+export type WatchlistFormat = 'tradingview' | 'csv' | 'json';
+
+// An item of an imported file that didn't make it into the watchlist
+export interface SkippedEntry {
+  text: string;   // As written in the file, e.g. "BINANCE:FOOUSDT.P"
+  reason: string;
+}
+
+// Response of POST /api/watchlists/import
+export interface WatchlistImportReport {
+  watchlist: Watchlist;
+  imported: number; // Entries added (duplicates of existing ones not counted)
+  skipped: SkippedEntry[];
+}